@@ -12,9 +12,95 @@ import {
   generateCombinedSeed,
   Xorshift32,
   verifyCommit,
+  generateServerSeedHash,
+  verifyServerSeedHash,
+  generateHashChain,
+  getChainSeed,
+  verifyChainLink,
+  verifyChainPosition,
+  HmacSha256Stream,
 } from '../lib/fairness';
-import { computePlinkoOutcome, generatePegMap, hashPegMap } from '../lib/plinko-engine';
-import { getMultiplier } from '../lib/payout';
+import {
+  computePlinkoOutcome,
+  computeRoundOutcome,
+  generatePegMap,
+  hashPegMap,
+  simulateDrop,
+  computeBinProbabilities,
+  computeLandingOdds,
+  generatePriorPegMap,
+  replayRound,
+  explainRound,
+} from '../lib/plinko-engine';
+import {
+  getMultiplier,
+  getMultiplierBps,
+  getPaytable,
+  calculatePayout,
+  calculateRoundPayout,
+  settleRoundPayout,
+  isValidRisk,
+  PAYTABLE,
+  RISK_LEVELS,
+  RiskLevel,
+} from '../lib/payout';
+import {
+  ALGORITHMS,
+  CURRENT_ALGORITHM_VERSION,
+  LEGACY_ALGORITHM_VERSION,
+  getAlgorithm,
+  isKnownAlgorithmVersion,
+} from '../lib/algorithms';
+import { exactColumnRtp, monteCarloColumnRtp, buildRtpReport } from '../lib/rtp';
+import { verifyStoredRound } from '../lib/round-verification';
+import * as web from '../lib/fairness-web';
+import { parseCsv, parseRoundRecords, verifyRoundRecords, MAX_BATCH_ROUNDS } from '../lib/batch-verify';
+import { createBundle, toBundleRound, parseBundle, verifyBundle, BUNDLE_VERSION } from '../lib/bundle';
+import { commitReceiptPayload, outcomeReceiptPayload, receiptMessage } from '../lib/receipts';
+import { signReceipt, verifyReceipt, getOperatorPublicKey } from '../lib/receipt-signing';
+import { generateKeyPairSync } from 'crypto';
+import type { Prisma } from '@prisma/client';
+import { createClient } from '@libsql/client';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  auditRoundLog,
+  canonicalLogEntry,
+  computeLogEntryHash,
+  LoggedRound,
+  ROUND_LOG_GENESIS_HASH,
+} from '../lib/round-log';
+import { buildMerkleProof, computeMerkleRoot, merkleLeafHash, verifyMerkleProof } from '../lib/merkle';
+import {
+  createSessionToken,
+  hashPassword,
+  isValidPassword,
+  isValidUsername,
+  readSessionToken,
+  SESSION_MAX_AGE_SECONDS,
+  verifyPassword,
+  verifyLogin,
+} from '../lib/auth';
+import { reconcileLedger, LedgerEntryFields } from '../lib/wallet';
+import { drawChainSeed } from '../lib/seed-chains';
+import { commitmentWindowStatus } from '../lib/commitment-batches';
+import {
+  formatMoney,
+  getCurrency,
+  isValidCurrency,
+  isValidLocale,
+  toMajorUnits,
+  toMinorUnits,
+} from '../lib/currency';
+import { checkBetLimits, getBetLimits, maxRoundPayout, quickBetAmounts } from '../lib/limits';
+import {
+  IllegalRoundTransitionError,
+  ROUND_EXPIRY_SECONDS,
+  ROUND_STATUSES,
+  assertRoundTransition,
+  canTransition,
+  isRoundExpired,
+} from '../lib/round-state';
 
 // Test vectors from assignment
 const TEST_VECTORS = {
@@ -37,6 +123,40 @@ const TEST_VECTORS = {
   expectedBinIndex: 6,
 };
 
+// Published vectors for hmac-sha256-v2 on the same inputs
+const HMAC_V2_VECTORS = {
+  firstBlockHex: 'e81bc8b2000cff5e1c8a2ea3ab0770fa4484c648be3810895cd7ea81e00f59a6',
+  expectedFirstTenRands: [
+    0.9066739497,
+    0.0001983265,
+    0.1114834927,
+    0.6680822955,
+    0.2676509786,
+    0.7430429778,
+    0.3626696172,
+    0.8752342253,
+    0.7113888415, // first float of block 1
+    0.0402192874,
+  ],
+  expectedPegMapRow0: [0.581335],
+  expectedPegMapRow1: [0.40004, 0.422297],
+  expectedPegMapRow2: [0.533616, 0.45353, 0.548609],
+  expectedPegMapHash: '3007843e4ce652faf9c196896aa7aabf6d95c1b3816cebbf1f1ee22dcb66b0ef',
+  expectedPath: 'LRLLLRLLLLRR',
+  expectedBinIndex: 4,
+};
+
+// hmac-sha256-v3 with the seeds above, dropped from the left edge of an 11-row board,
+// where its symmetric drop adjustment sends the ball elsewhere than v2 (bin 7)
+const HMAC_V3_VECTORS = {
+  rows: 11,
+  dropColumn: 0,
+  expectedCombinedSeed: 'e1dddf77de27d395ea2be2ed49aa2a59bd6bf12ee8d350c16c008abd406c07e0',
+  expectedPegMapHash: 'bc83bb6d88558a64a836d3aeedeff41d59bbbfa78fda2de9dadf3220617b8a48',
+  expectedPath: 'LRRLLRLRRLL',
+  expectedBinIndex: 5,
+};
+
 describe('Fairness Protocol', () => {
   test('SHA-256 hashing works correctly', () => {
     const input = 'test';
@@ -286,6 +406,30 @@ describe('Payout System', () => {
       expect(leftMultiplier).toBe(rightMultiplier);
     }
   });
+
+  test('Payouts are whole cents, rounded down', () => {
+    expect(getMultiplierBps(6)).toBe(5_000);
+    expect(calculatePayout(101, 6)).toBe(50); // 50.5 cents
+    expect(calculatePayout(100, 0)).toBe(1_600);
+    for (const entry of PAYTABLE) {
+      expect(Number.isInteger(entry.multiplierBps)).toBe(true);
+      expect(Number.isInteger(calculatePayout(333, entry.bin))).toBe(true);
+    }
+  });
+
+  test('Multi-ball rounds round down once over the whole round', () => {
+    // Three balls at 0.5x on a 101-cent bet: 151.5 cents, not 3 × 50
+    expect(settleRoundPayout(101, [5_000, 5_000, 5_000])).toEqual({
+      totalPayoutCents: 151,
+      payoutMultiplierBps: 5_000,
+    });
+    // The average multiplier is rounded down to a whole basis point
+    expect(settleRoundPayout(100, [5_000, 11_000, 10_000]).payoutMultiplierBps).toBe(8_666);
+
+    const round = calculateRoundPayout(101, [6, 0, 12], 12, 'low');
+    expect(round.multipliersBps).toEqual([5_000, 160_000, 160_000]);
+    expect(round.totalPayoutCents).toBe(3282); // 3282.5 cents
+  });
 });
 
 describe('Integration Tests', () => {
@@ -355,3 +499,1425 @@ describe('Integration Tests', () => {
     expect(data.computed.pegMapHash).toHaveLength(64); // SHA-256
   }, 10000); // 10 second timeout for API call
 });
+
+describe('Configurable Rows', () => {
+  test('Default row count keeps the 12-row test vector outcome', () => {
+    const result = computePlinkoOutcome(
+      TEST_VECTORS.expectedCombinedSeed,
+      TEST_VECTORS.dropColumn,
+      12
+    );
+
+    expect(result.binIndex).toBe(TEST_VECTORS.expectedBinIndex);
+    expect(result.pegMapHash).toBe(
+      computePlinkoOutcome(TEST_VECTORS.expectedCombinedSeed, TEST_VECTORS.dropColumn).pegMapHash
+    );
+  });
+
+  test('Peg map and path follow the requested row count', () => {
+    for (let rows = 8; rows <= 16; rows++) {
+      const result = computePlinkoOutcome(TEST_VECTORS.expectedCombinedSeed, 0, rows);
+
+      expect(result.pegMap.rows).toHaveLength(rows);
+      expect(result.path).toHaveLength(rows);
+      expect(result.binIndex).toBeGreaterThanOrEqual(0);
+      expect(result.binIndex).toBeLessThanOrEqual(rows);
+      expect(getPaytable(rows)).toHaveLength(rows + 1);
+    }
+  });
+
+  test('Drop column range follows the row count', () => {
+    expect(() => computePlinkoOutcome(TEST_VECTORS.expectedCombinedSeed, 16, 16)).not.toThrow();
+    expect(() => computePlinkoOutcome(TEST_VECTORS.expectedCombinedSeed, 9, 8)).toThrow();
+  });
+
+  test('Unsupported row counts throw', () => {
+    expect(() => computePlinkoOutcome(TEST_VECTORS.expectedCombinedSeed, 0, 7)).toThrow();
+    expect(() => computePlinkoOutcome(TEST_VECTORS.expectedCombinedSeed, 0, 17)).toThrow();
+  });
+});
+
+describe('Risk Levels', () => {
+  test('PAYTABLE is the current 12-row low-risk table', () => {
+    expect(getMultiplier(0, 12, 'low')).toBe(16.0);
+    expect(getMultiplier(6, 12, 'low')).toBe(0.5);
+    expect(getPaytable(12, 'low')).toBe(PAYTABLE);
+  });
+
+  test('Rounds of older algorithm versions keep the original 12-row low-risk table', () => {
+    for (const version of [LEGACY_ALGORITHM_VERSION, 'hmac-sha256-v2']) {
+      const original = getPaytable(12, 'low', version).map((entry) => entry.multiplierBps);
+      expect(original).toEqual([
+        160_000, 90_000, 20_000, 14_000, 11_000, 10_000, 5_000, 10_000, 11_000, 14_000, 20_000, 90_000, 160_000,
+      ]);
+      expect(calculateRoundPayout(100, [5, 7], 12, 'low', version).totalPayoutCents).toBe(200);
+    }
+    expect(getPaytable(12, 'low', CURRENT_ALGORITHM_VERSION)).toBe(PAYTABLE);
+    expect(getPaytable(12, 'medium', 'hmac-sha256-v2')).toBe(getPaytable(12, 'medium'));
+  });
+
+  test('Every table returns at most 100% from every drop column', () => {
+    for (const risk of RISK_LEVELS) {
+      for (let rows = 8; rows <= 16; rows++) {
+        for (let column = 0; column <= rows; column++) {
+          expect(exactColumnRtp(column, rows, risk)).toBeLessThanOrEqual(1);
+        }
+      }
+    }
+  });
+
+  test('Every risk has a symmetric table for every row count', () => {
+    for (const risk of RISK_LEVELS) {
+      for (let rows = 8; rows <= 16; rows++) {
+        const table = getPaytable(rows, risk);
+        expect(table).toHaveLength(rows + 1);
+        table.forEach((entry, bin) => {
+          expect(entry.bin).toBe(bin);
+          expect(entry.multiplier).toBe(table[rows - bin].multiplier);
+        });
+      }
+    }
+  });
+
+  test('Higher risk pays more at the edges', () => {
+    expect(getMultiplier(0, 12, 'medium')).toBeGreaterThan(getMultiplier(0, 12, 'low'));
+    expect(getMultiplier(0, 12, 'high')).toBeGreaterThan(getMultiplier(0, 12, 'medium'));
+    expect(calculatePayout(100, 0, 16, 'high')).toBe(100000);
+    expect(getMultiplierBps(0, 16, 'high')).toBe(10_000_000);
+  });
+
+  test('Unknown risk is rejected', () => {
+    expect(isValidRisk('extreme')).toBe(false);
+    expect(() => getMultiplier(0, 12, 'extreme' as RiskLevel)).toThrow();
+  });
+});
+
+describe('Seed Pairs', () => {
+  test('Server seed hash is SHA-256 of the server seed', () => {
+    const hash = generateServerSeedHash(TEST_VECTORS.serverSeed);
+    expect(hash).toBe(sha256(TEST_VECTORS.serverSeed));
+    expect(verifyServerSeedHash(hash, TEST_VECTORS.serverSeed)).toBe(true);
+    expect(verifyServerSeedHash(hash, 'not-the-seed')).toBe(false);
+  });
+
+  test('Consecutive nonces under one seed pair give distinct commits and outcomes', () => {
+    const commits = new Set<string>();
+    const combinedSeeds = new Set<string>();
+
+    for (let nonce = 0; nonce < 50; nonce++) {
+      commits.add(generateCommitHex(TEST_VECTORS.serverSeed, nonce.toString()));
+      combinedSeeds.add(
+        generateCombinedSeed(TEST_VECTORS.serverSeed, TEST_VECTORS.clientSeed, nonce.toString())
+      );
+    }
+
+    expect(commits.size).toBe(50);
+    expect(combinedSeeds.size).toBe(50);
+  });
+});
+
+describe('Hash Chain', () => {
+  test('Each seed is the SHA-256 of the next and the terminal hash covers seeds[0]', () => {
+    const { seeds, terminalHash } = generateHashChain(5, TEST_VECTORS.serverSeed);
+
+    expect(seeds).toHaveLength(5);
+    expect(seeds[4]).toBe(TEST_VECTORS.serverSeed);
+    for (let i = 0; i < 4; i++) {
+      expect(seeds[i]).toBe(sha256(seeds[i + 1]));
+    }
+    expect(terminalHash).toBe(sha256(seeds[0]));
+  });
+
+  test('Chain seeds can be derived from the root alone', () => {
+    const { seeds } = generateHashChain(10, TEST_VECTORS.serverSeed);
+
+    seeds.forEach((seed, index) => {
+      expect(getChainSeed(TEST_VECTORS.serverSeed, 10, index)).toBe(seed);
+    });
+    expect(() => getChainSeed(TEST_VECTORS.serverSeed, 10, 10)).toThrow();
+  });
+
+  test('Revealed seeds link to their predecessor and position', () => {
+    const { seeds, terminalHash } = generateHashChain(6, TEST_VECTORS.serverSeed);
+
+    expect(verifyChainLink(seeds[0], terminalHash)).toBe(true);
+    expect(verifyChainLink(seeds[3], seeds[2])).toBe(true);
+    expect(verifyChainLink(seeds[3], seeds[1])).toBe(false);
+
+    expect(verifyChainPosition(seeds[3], 3, terminalHash)).toBe(true);
+    expect(verifyChainPosition(seeds[3], 2, terminalHash)).toBe(false);
+  });
+
+  test('Server seed hash of a chained pair is its predecessor link', () => {
+    const { seeds } = generateHashChain(3, TEST_VECTORS.serverSeed);
+    expect(generateServerSeedHash(seeds[2])).toBe(seeds[1]);
+  });
+
+  test("Rotating one player's pairs reveals nothing of another player's unrotated seeds", async () => {
+    const chains = ['p1', 'p2'].map((playerId) => {
+      const { seeds, terminalHash } = generateHashChain(4, sha256(`root-${playerId}`));
+      return { id: `chain-${playerId}`, playerId, status: 'ACTIVE', length: 4, rootSeed: seeds[3], terminalHash, nextIndex: 0 };
+    });
+    // Just the seedChain calls drawChainSeed makes
+    const tx = {
+      seedChain: {
+        findFirst: async ({ where }: { where: { playerId: string; status: string } }) =>
+          chains.find((chain) => chain.playerId === where.playerId && chain.status === where.status) ?? null,
+        update: async ({ where, data }: { where: { id: string }; data: { nextIndex: { increment: number }; status: string } }) => {
+          const chain = chains.find((c) => c.id === where.id)!;
+          Object.assign(chain, { nextIndex: chain.nextIndex + data.nextIndex.increment, status: data.status });
+          return chain;
+        },
+      },
+    } as unknown as Prisma.TransactionClient;
+
+    // Both players open their active and upcoming pairs, interleaved
+    const [p1Active, p2Active, p1Upcoming, p2Upcoming] = [
+      await drawChainSeed(tx, 'p1'),
+      await drawChainSeed(tx, 'p2'),
+      await drawChainSeed(tx, 'p1'),
+      await drawChainSeed(tx, 'p2'),
+    ];
+    expect([p1Active, p1Upcoming].map((seed) => [seed!.chainId, seed!.chainIndex])).toEqual([['chain-p1', 0], ['chain-p1', 1]]);
+    expect([p2Active, p2Upcoming].map((seed) => [seed!.chainId, seed!.chainIndex])).toEqual([['chain-p2', 0], ['chain-p2', 1]]);
+
+    // Player 1 rotates twice, revealing both seeds; hashing them down the chain never reaches player 2's
+    const derivable = new Set<string>();
+    for (const revealed of [p1Active!, p1Upcoming!]) {
+      let seed = revealed.serverSeed;
+      for (let i = 0; i < 4; i++) {
+        seed = sha256(seed);
+        derivable.add(seed);
+      }
+    }
+    expect(derivable.has(p1Active!.serverSeed)).toBe(true); // a player's own older seed, already revealed
+    expect(derivable.has(p2Active!.serverSeed)).toBe(false);
+    expect(derivable.has(p2Upcoming!.serverSeed)).toBe(false);
+
+    // Players without a chain of their own get random seeds instead
+    expect(await drawChainSeed(tx, 'p3')).toBeNull();
+  });
+});
+
+describe('Algorithm Registry', () => {
+  test('Legacy version reproduces the original test vector', () => {
+    expect(LEGACY_ALGORITHM_VERSION).toBe('xorshift32-v1');
+
+    const outcome = computePlinkoOutcome(
+      TEST_VECTORS.expectedCombinedSeed,
+      6,
+      12,
+      LEGACY_ALGORITHM_VERSION
+    );
+    expect(outcome.binIndex).toBe(TEST_VECTORS.expectedBinIndex);
+    expect(outcome.algorithmVersion).toBe(LEGACY_ALGORITHM_VERSION);
+  });
+
+  test('Outcomes record the version that produced them', () => {
+    const outcome = computeRoundOutcome(TEST_VECTORS, 6);
+    expect(outcome.algorithmVersion).toBe(CURRENT_ALGORITHM_VERSION);
+    expect(isKnownAlgorithmVersion(CURRENT_ALGORITHM_VERSION)).toBe(true);
+  });
+
+  test('Every registered version is keyed by its own name', () => {
+    for (const [key, algorithm] of Object.entries(ALGORITHMS)) {
+      expect(algorithm.version).toBe(key);
+      expect(getAlgorithm(key)).toBe(algorithm);
+    }
+  });
+
+  test('Current version adjusts mirrored drop columns symmetrically on every board', () => {
+    const current = getAlgorithm(CURRENT_ALGORITHM_VERSION);
+    for (let rows = 8; rows <= 16; rows++) {
+      for (let column = 0; column <= rows; column++) {
+        expect(current.dropAdjustment(column, rows)).toBeCloseTo(-current.dropAdjustment(rows - column, rows), 12);
+      }
+    }
+    for (const risk of RISK_LEVELS) {
+      expect(exactColumnRtp(0, 15, risk)).toBeCloseTo(exactColumnRtp(15, 15, risk), 12);
+    }
+
+    // xorshift32-v1 and hmac-sha256-v2 center on floor(rows / 2) and stay that way
+    expect(getAlgorithm(LEGACY_ALGORITHM_VERSION).dropAdjustment(0, 15)).toBeCloseTo(-0.07, 12);
+    expect(getAlgorithm(LEGACY_ALGORITHM_VERSION).dropAdjustment(15, 15)).toBeCloseTo(0.08, 12);
+  });
+
+  test('Unknown versions are rejected', () => {
+    expect(isKnownAlgorithmVersion('no-such-version')).toBe(false);
+    expect(isKnownAlgorithmVersion('toString')).toBe(false);
+    expect(() => getAlgorithm('no-such-version')).toThrow();
+    expect(() => computePlinkoOutcome(TEST_VECTORS.expectedCombinedSeed, 6, 12, 'no-such-version')).toThrow();
+  });
+});
+
+describe('HMAC-SHA256 Byte Stream (hmac-sha256-v2)', () => {
+  test('First block is HMAC_SHA256(serverSeed, clientSeed:nonce:0)', () => {
+    const expected = HMAC_V2_VECTORS.firstBlockHex;
+    const prng = new HmacSha256Stream(TEST_VECTORS.serverSeed, TEST_VECTORS.clientSeed, TEST_VECTORS.nonce);
+
+    // Each float is the next 4 bytes as a big-endian uint32 / 2^32
+    const firstEight = prng.nextN(8);
+    firstEight.forEach((value, index) => {
+      const word = parseInt(expected.substring(index * 8, index * 8 + 8), 16);
+      expect(value).toBe(word / 0x100000000);
+    });
+  });
+
+  test('Stream generates expected sequence across blocks', () => {
+    const prng = new HmacSha256Stream(TEST_VECTORS.serverSeed, TEST_VECTORS.clientSeed, TEST_VECTORS.nonce);
+    const firstTen = prng.nextN(10);
+
+    firstTen.forEach((value, index) => {
+      const expected = HMAC_V2_VECTORS.expectedFirstTenRands[index];
+      expect(Math.abs(value - expected)).toBeLessThan(0.0000001);
+    });
+  });
+
+  test('Drop-in for generatePegMap and simulateDrop', () => {
+    const algorithm = getAlgorithm('hmac-sha256-v2');
+    const prng = new HmacSha256Stream(TEST_VECTORS.serverSeed, TEST_VECTORS.clientSeed, TEST_VECTORS.nonce);
+    const pegMap = generatePegMap(prng, 12, algorithm);
+
+    expect(pegMap.rows[0].map((p) => p.leftBias)).toEqual(HMAC_V2_VECTORS.expectedPegMapRow0);
+    expect(pegMap.rows[1].map((p) => p.leftBias)).toEqual(HMAC_V2_VECTORS.expectedPegMapRow1);
+    expect(pegMap.rows[2].map((p) => p.leftBias)).toEqual(HMAC_V2_VECTORS.expectedPegMapRow2);
+    expect(hashPegMap(pegMap)).toBe(HMAC_V2_VECTORS.expectedPegMapHash);
+
+    const { path, binIndex } = simulateDrop(pegMap, TEST_VECTORS.dropColumn, prng, algorithm);
+    expect(path.map((d) => d.decision[0]).join('')).toBe(HMAC_V2_VECTORS.expectedPath);
+    expect(binIndex).toBe(HMAC_V2_VECTORS.expectedBinIndex);
+  });
+
+  test('Round outcome matches the published vectors', () => {
+    const outcome = computeRoundOutcome(TEST_VECTORS, TEST_VECTORS.dropColumn, 12, 'hmac-sha256-v2');
+
+    expect(outcome.combinedSeed).toBe(TEST_VECTORS.expectedCombinedSeed);
+    expect(outcome.pegMapHash).toBe(HMAC_V2_VECTORS.expectedPegMapHash);
+    expect(outcome.binIndex).toBe(HMAC_V2_VECTORS.expectedBinIndex);
+    expect(outcome.algorithmVersion).toBe('hmac-sha256-v2');
+  });
+
+  test('Seeds sharing a combinedSeed prefix still get different boards', () => {
+    // Xorshift32 only reads the first 8 hex chars, so these collide under v1
+    const a = 'abcdef01' + '0'.repeat(56);
+    const b = 'abcdef01' + 'f'.repeat(56);
+    expect(computePlinkoOutcome(a, 6).pegMapHash).toBe(computePlinkoOutcome(b, 6).pegMapHash);
+
+    const seedsA = { ...TEST_VECTORS, serverSeed: a };
+    const seedsB = { ...TEST_VECTORS, serverSeed: b };
+    expect(computeRoundOutcome(seedsA, 6, 12, 'hmac-sha256-v2').pegMapHash).not.toBe(
+      computeRoundOutcome(seedsB, 6, 12, 'hmac-sha256-v2').pegMapHash
+    );
+  });
+
+  test('Requires the raw seeds, not just the combined seed', () => {
+    expect(() =>
+      computePlinkoOutcome(TEST_VECTORS.expectedCombinedSeed, 6, 12, 'hmac-sha256-v2')
+    ).toThrow();
+  });
+});
+
+describe('Symmetric Drop Adjustment (hmac-sha256-v3)', () => {
+  test('Round outcome matches the pinned vector', () => {
+    const outcome = computeRoundOutcome(TEST_VECTORS, HMAC_V3_VECTORS.dropColumn, HMAC_V3_VECTORS.rows, 'hmac-sha256-v3');
+
+    expect(outcome.combinedSeed).toBe(HMAC_V3_VECTORS.expectedCombinedSeed);
+    expect(outcome.pegMapHash).toBe(HMAC_V3_VECTORS.expectedPegMapHash);
+    expect(outcome.path.map((d) => d.decision[0]).join('')).toBe(HMAC_V3_VECTORS.expectedPath);
+    expect(outcome.binIndex).toBe(HMAC_V3_VECTORS.expectedBinIndex);
+    expect(outcome.algorithmVersion).toBe('hmac-sha256-v3');
+
+    const v2 = computeRoundOutcome(TEST_VECTORS, HMAC_V3_VECTORS.dropColumn, HMAC_V3_VECTORS.rows, 'hmac-sha256-v2');
+    expect(v2.pegMapHash).toBe(HMAC_V3_VECTORS.expectedPegMapHash);
+    expect(v2.binIndex).toBe(7);
+  });
+});
+
+describe('Landing Odds', () => {
+  test('Probabilities cover every bin and sum to 1', () => {
+    const pegMap = generatePegMap(new Xorshift32(TEST_VECTORS.expectedCombinedSeed));
+    const probabilities = computeBinProbabilities(pegMap, 6);
+
+    expect(probabilities).toHaveLength(13);
+    expect(probabilities.reduce((a, b) => a + b, 0)).toBeCloseTo(1, 12);
+    probabilities.forEach((p) => expect(p).toBeGreaterThanOrEqual(0));
+  });
+
+  test('Exact odds match the frequency of simulated drops', () => {
+    const pegMap = generatePegMap(new Xorshift32(TEST_VECTORS.expectedCombinedSeed));
+    const probabilities = computeBinProbabilities(pegMap, 3);
+
+    const drops = 20000;
+    const counts = new Array(13).fill(0);
+    const prng = new HmacSha256Stream('odds', 'test', '0');
+    for (let i = 0; i < drops; i++) {
+      counts[simulateDrop(pegMap, 3, prng).binIndex]++;
+    }
+
+    counts.forEach((count, bin) => {
+      expect(Math.abs(count / drops - probabilities[bin])).toBeLessThan(0.015);
+    });
+  });
+
+  test('Prior odds from the center column are binomial(rows, 0.5)', () => {
+    const probabilities = computeBinProbabilities(generatePriorPegMap(12), 6);
+    const choose = (n: number, k: number): number => (k === 0 ? 1 : (choose(n, k - 1) * (n - k + 1)) / k);
+
+    probabilities.forEach((p, bin) => {
+      expect(p).toBeCloseTo(choose(12, bin) / 4096, 12);
+    });
+  });
+
+  test('Drop column shifts the prior mean bin', () => {
+    const prior = generatePriorPegMap(12);
+    const mean = (probabilities: number[]) => probabilities.reduce((sum, p, bin) => sum + p * bin, 0);
+
+    // adj = (dropColumn - 6) * 0.01 lowers leftBias for left columns, so they drift right
+    expect(mean(computeBinProbabilities(prior, 0))).toBeCloseTo(6 + 12 * 0.06, 12);
+    expect(mean(computeBinProbabilities(prior, 12))).toBeCloseTo(6 - 12 * 0.06, 12);
+    expect(mean(computeBinProbabilities(prior, 6))).toBeCloseTo(6, 12);
+  });
+
+  test('Expected multiplier is the probability-weighted paytable', () => {
+    const prior = generatePriorPegMap(12);
+    const { probabilities, expectedMultiplier } = computeLandingOdds(prior, 6, 'high');
+    const paytable = getPaytable(12, 'high');
+
+    const manual = probabilities.reduce((sum, p, bin) => sum + p * paytable[bin].multiplier, 0);
+    expect(expectedMultiplier).toBeCloseTo(manual, 12);
+    expect(() => computeBinProbabilities(prior, 13)).toThrow();
+  });
+});
+
+describe('RTP Analysis', () => {
+  test('Exact RTP of the center column is the binomial-weighted paytable', () => {
+    const choose = (n: number, k: number): number => (k === 0 ? 1 : (choose(n, k - 1) * (n - k + 1)) / k);
+    const expected = PAYTABLE.reduce((sum, entry) => sum + (choose(12, entry.bin) / 4096) * entry.multiplier, 0);
+
+    expect(exactColumnRtp(6, 12, 'low')).toBeCloseTo(expected, 12);
+  });
+
+  test('Mirrored drop columns have the same RTP', () => {
+    for (const risk of RISK_LEVELS) {
+      for (let column = 0; column <= 6; column++) {
+        expect(exactColumnRtp(column, 12, risk)).toBeCloseTo(exactColumnRtp(12 - column, 12, risk), 12);
+      }
+    }
+  });
+
+  test('Monte Carlo estimate is reproducible and its interval covers the exact RTP', () => {
+    const first = monteCarloColumnRtp(3, 2000, { seedLabel: 'jest' });
+    const second = monteCarloColumnRtp(3, 2000, { seedLabel: 'jest' });
+
+    expect(second).toEqual(first);
+    expect(first.ci[0]).toBeLessThan(exactColumnRtp(3));
+    expect(first.ci[1]).toBeGreaterThan(exactColumnRtp(3));
+    expect(() => monteCarloColumnRtp(3, 2000, { confidence: 0.5 })).toThrow();
+  });
+
+  test('Report covers every drop column', () => {
+    const report = buildRtpReport({ rows: 8, risk: 'high' });
+
+    expect(report.columns).toHaveLength(9);
+    report.columns.forEach((column) => {
+      expect(column.houseEdge).toBeCloseTo(1 - column.exactRtp, 12);
+      expect(column.monteCarlo).toBeNull();
+    });
+  });
+});
+
+describe('Multi-Ball Rounds', () => {
+  test('First ball matches the single-ball outcome', () => {
+    const single = computePlinkoOutcome(TEST_VECTORS.expectedCombinedSeed, 6);
+    const multi = computePlinkoOutcome(TEST_VECTORS.expectedCombinedSeed, 6, 12, LEGACY_ALGORITHM_VERSION, 5);
+
+    expect(multi.pegMapHash).toBe(single.pegMapHash);
+    expect(multi.paths).toHaveLength(5);
+    expect(multi.binIndexes).toHaveLength(5);
+    expect(multi.path).toEqual(single.path);
+    expect(multi.binIndex).toBe(TEST_VECTORS.expectedBinIndex);
+    expect(single.paths).toEqual([single.path]);
+    expect(single.binIndexes).toEqual([single.binIndex]);
+  });
+
+  test('Balls draw from the PRNG one after another after the peg map', () => {
+    const multi = computeRoundOutcome(TEST_VECTORS, 6, 12, 'hmac-sha256-v2', 3);
+
+    const prng = new HmacSha256Stream(TEST_VECTORS.serverSeed, TEST_VECTORS.clientSeed, TEST_VECTORS.nonce);
+    prng.nextN(78); // 12-row peg map
+    const draws = prng.nextN(36);
+
+    const randoms = multi.paths.flat().map((d) => d.randomValue);
+    expect(randoms).toEqual(draws);
+    multi.paths.forEach((path, ball) => {
+      expect(multi.binIndexes[ball]).toBe(path.filter((d) => d.decision === 'RIGHT').length);
+    });
+  });
+
+  test('replayRound reproduces every ball', () => {
+    const outcome = computeRoundOutcome(TEST_VECTORS, 4, 10, 'hmac-sha256-v2', 20);
+
+    expect(
+      replayRound(TEST_VECTORS, 4, outcome.binIndexes, outcome.pegMapHash, 10, 'hmac-sha256-v2').matches
+    ).toBe(true);
+
+    const tampered = [...outcome.binIndexes];
+    tampered[19] = (tampered[19] + 1) % 11;
+    expect(
+      replayRound(TEST_VECTORS, 4, tampered, outcome.pegMapHash, 10, 'hmac-sha256-v2').matches
+    ).toBe(false);
+  });
+
+  test('Ball count must be 1-100', () => {
+    expect(() => computeRoundOutcome(TEST_VECTORS, 6, 12, 'hmac-sha256-v2', 0)).toThrow();
+    expect(() => computeRoundOutcome(TEST_VECTORS, 6, 12, 'hmac-sha256-v2', 101)).toThrow();
+    expect(() => computeRoundOutcome(TEST_VECTORS, 6, 12, 'hmac-sha256-v2', 1.5)).toThrow();
+    expect(computeRoundOutcome(TEST_VECTORS, 6, 12, 'hmac-sha256-v2', 100).binIndexes).toHaveLength(100);
+  });
+});
+
+describe('Stored Round Verification', () => {
+  function storedRound(ballCount = 1) {
+    const outcome = computeRoundOutcome(TEST_VECTORS, 6, 12, 'hmac-sha256-v2', ballCount);
+    const payout = calculateRoundPayout(100, outcome.binIndexes, 12, 'medium');
+
+    return {
+      serverSeed: TEST_VECTORS.serverSeed,
+      serverSeedHash: generateServerSeedHash(TEST_VECTORS.serverSeed),
+      clientSeed: TEST_VECTORS.clientSeed,
+      nonce: TEST_VECTORS.nonce,
+      commitHex: TEST_VECTORS.expectedCommitHex,
+      combinedSeed: outcome.combinedSeed,
+      pegMapHash: outcome.pegMapHash,
+      rows: 12,
+      dropColumn: 6,
+      binIndex: outcome.binIndex,
+      risk: 'medium',
+      algorithmVersion: 'hmac-sha256-v2',
+      ballCount,
+      betCents: 100,
+      payoutMultiplierBps: payout.payoutMultiplierBps,
+      totalPayoutCents: payout.totalPayoutCents,
+      pathJson: JSON.parse(JSON.stringify(outcome.path)),
+      pathsJson: JSON.parse(JSON.stringify(outcome.paths)),
+      binIndexesJson: outcome.binIndexes,
+    };
+  }
+
+  test('Untouched round passes every check', () => {
+    const report = verifyStoredRound(storedRound(3));
+
+    expect(report.pass).toBe(true);
+    const fields = report.checks.map((c) => c.field);
+    expect(fields).toEqual(
+      expect.arrayContaining(['commitHex', 'serverSeedHash', 'pegMapHash', 'binIndex', 'payoutMultiplierBps'])
+    );
+    expect(fields.filter((f) => f.startsWith('pathJson['))).toHaveLength(12);
+    expect(fields.filter((f) => f.startsWith('pathsJson['))).toHaveLength(2);
+  });
+
+  test('Each tampered field is reported on its own', () => {
+    const round = storedRound();
+    round.commitHex = sha256('forged');
+    round.payoutMultiplierBps += 1;
+    round.pathJson[3] = { ...round.pathJson[3], randomValue: 0.5 };
+
+    const report = verifyStoredRound(round);
+    const failed = report.checks.filter((c) => !c.pass).map((c) => c.field);
+
+    expect(report.pass).toBe(false);
+    expect(failed).toEqual(['commitHex', 'payoutMultiplierBps', 'pathJson[3]']);
+  });
+
+  test('Truncated path fails the missing rows', () => {
+    const round = storedRound();
+    round.pathJson = round.pathJson.slice(0, 10);
+
+    const failed = verifyStoredRound(round).checks.filter((c) => !c.pass);
+    expect(failed.map((c) => c.field)).toEqual(['pathJson[10]', 'pathJson[11]']);
+    expect(failed[0].stored).toBeNull();
+  });
+
+  test('Unknown risk fails instead of falling back to the default table', () => {
+    const round = { ...storedRound(), risk: 'extreme' };
+
+    const report = verifyStoredRound(round);
+    expect(report.pass).toBe(false);
+    expect(report.checks.filter((c) => !c.pass)).toEqual([
+      { field: 'risk', pass: false, stored: 'extreme', computed: null },
+    ]);
+  });
+
+  test('A round the engine cannot replay is reported as not verifiable', () => {
+    const report = verifyStoredRound({ ...storedRound(), algorithmVersion: 'no-such-version' });
+
+    expect(report.pass).toBe(false);
+    expect(report.error).toMatch(/^Round is not verifiable: Unknown algorithm version/);
+    expect(report.checks.map((c) => c.field)).toEqual(['commitHex', 'serverSeedHash']);
+  });
+});
+
+describe('WebCrypto Fairness (in-browser verifier)', () => {
+  test('Commit, combined seed and server seed hash match the test vectors', async () => {
+    expect(await web.generateCommitHex(TEST_VECTORS.serverSeed, TEST_VECTORS.nonce)).toBe(
+      TEST_VECTORS.expectedCommitHex
+    );
+    expect(
+      await web.generateCombinedSeed(TEST_VECTORS.serverSeed, TEST_VECTORS.clientSeed, TEST_VECTORS.nonce)
+    ).toBe(TEST_VECTORS.expectedCombinedSeed);
+    expect(await web.generateServerSeedHash(TEST_VECTORS.serverSeed)).toBe(
+      generateServerSeedHash(TEST_VECTORS.serverSeed)
+    );
+  });
+
+  test('HMAC blocks match the Node stream', async () => {
+    const block = await web.hmacSha256(TEST_VECTORS.serverSeed, `${TEST_VECTORS.clientSeed}:${TEST_VECTORS.nonce}:0`);
+    expect(Buffer.from(block).toString('hex')).toBe(HMAC_V2_VECTORS.firstBlockHex);
+  });
+
+  test.each([
+    [LEGACY_ALGORITHM_VERSION, 12, 1],
+    ['hmac-sha256-v2', 12, 1],
+    ['hmac-sha256-v2', 16, 25],
+    [LEGACY_ALGORITHM_VERSION, 8, 7],
+  ])('%s with %i rows and %i balls matches the server engine', async (version, rows, balls) => {
+    const server = computeRoundOutcome(TEST_VECTORS, 3, rows, version, balls);
+    const local = await web.computeRoundOutcome(TEST_VECTORS, 3, rows, version, balls);
+
+    expect(local).toEqual(server);
+  });
+
+  test('Combined-seed outcome matches the reference vector', async () => {
+    const local = await web.computePlinkoOutcome(TEST_VECTORS.expectedCombinedSeed, 6);
+
+    expect(local.binIndex).toBe(TEST_VECTORS.expectedBinIndex);
+    expect(local.pegMapHash).toBe(computePlinkoOutcome(TEST_VECTORS.expectedCombinedSeed, 6).pegMapHash);
+  });
+
+  test('Chain position matches the Node check', async () => {
+    const chain = generateHashChain(5, 'web-root');
+
+    expect(await web.verifyChainPosition(chain.seeds[3], 3, chain.terminalHash)).toBe(true);
+    expect(await web.verifyChainPosition(chain.seeds[3], 2, chain.terminalHash)).toBe(false);
+  });
+
+  test('Invalid inputs are rejected like the server engine', async () => {
+    await expect(web.computeRoundOutcome(TEST_VECTORS, 6, 20)).rejects.toThrow('Invalid rows');
+    await expect(web.computeRoundOutcome(TEST_VECTORS, 6, 12, 'hmac-sha256-v2', 0)).rejects.toThrow(
+      'Invalid ballCount'
+    );
+  });
+});
+
+describe('Computation Trace (explain mode)', () => {
+  test('Records the exact hashed strings and the xorshift32 seed slice', async () => {
+    const trace = await explainRound(TEST_VECTORS, 6, 12, LEGACY_ALGORITHM_VERSION);
+
+    expect(trace.hashes.commitHex).toEqual({
+      input: `${TEST_VECTORS.serverSeed}:42`,
+      sha256: TEST_VECTORS.expectedCommitHex,
+    });
+    expect(trace.hashes.combinedSeed).toEqual({
+      input: `${TEST_VECTORS.serverSeed}:candidate-hello:42`,
+      sha256: TEST_VECTORS.expectedCombinedSeed,
+    });
+    expect(trace.prng).toEqual({
+      kind: 'xorshift32',
+      seedSlice: 'e1dddf77',
+      initialState: 0xe1dddf77,
+    });
+  });
+
+  test('Lists every PRNG output in consumption order', async () => {
+    const trace = await explainRound(TEST_VECTORS, 6, 12, LEGACY_ALGORITHM_VERSION);
+    const outcome = computePlinkoOutcome(TEST_VECTORS.expectedCombinedSeed, 6);
+
+    expect(trace.pegMap.draws).toHaveLength(78);
+    expect(trace.pegMap.draws.slice(0, 5).map((d) => d.rand)).toEqual(
+      TEST_VECTORS.expectedFirstFiveRands.map((rand) => expect.closeTo(rand, 10))
+    );
+    trace.pegMap.draws.forEach((d) => {
+      expect(d.leftBias).toBe(outcome.pegMap.rows[d.row][d.peg].leftBias);
+      expect(Number(d.unroundedLeftBias.toFixed(6))).toBe(d.leftBias);
+    });
+    expect(trace.pegMap.hash).toBe(outcome.pegMapHash);
+    expect(trace.pegMap.json).toBe(JSON.stringify(outcome.pegMap));
+
+    const steps = trace.drops[0].steps;
+    expect(steps).toHaveLength(12);
+    steps.forEach((step, row) => expect(step).toEqual({ ...outcome.path[row], draw: 78 + row }));
+    expect(trace.drops[0].binIndex).toBe(TEST_VECTORS.expectedBinIndex);
+  });
+
+  test('v2 trace lists each HMAC block read', async () => {
+    const trace = await explainRound(TEST_VECTORS, 6, 12, 'hmac-sha256-v2', 3);
+
+    // 78 peg draws + 3 * 12 drop draws = 114 outputs, 8 per block
+    expect(trace.prng.kind).toBe('hmac-sha256');
+    if (trace.prng.kind === 'hmac-sha256') {
+      expect(trace.prng.blocks).toHaveLength(15);
+      expect(trace.prng.blocks[0]).toEqual({
+        cursor: 0,
+        message: 'candidate-hello:42:0',
+        hex: HMAC_V2_VECTORS.firstBlockHex,
+      });
+    }
+    expect(trace.drops.map((d) => d.steps[0].draw)).toEqual([78, 90, 102]);
+  });
+
+  test('Browser trace matches the server trace', async () => {
+    expect(await web.explainRound(TEST_VECTORS, 2, 10, 'hmac-sha256-v2', 4)).toEqual(
+      await explainRound(TEST_VECTORS, 2, 10, 'hmac-sha256-v2', 4)
+    );
+  });
+});
+
+describe('Batch Verification', () => {
+  const EXPORT_HEADER =
+    'roundId,seedPairId,status,commitHex,nonce,serverSeed,clientSeed,combinedSeed,pegMapHash,algorithmVersion,rows,dropColumn,binIndex,ballCount,binIndexes,risk,payoutMultiplierBps,betCents,totalPayoutCents,createdAt,revealedAt';
+
+  function exportRow(id: string, overrides: Record<string, string> = {}) {
+    const outcome = computeRoundOutcome(TEST_VECTORS, 6, 12, 'hmac-sha256-v2', 2);
+    const values: Record<string, string> = {
+      roundId: id,
+      seedPairId: '',
+      status: 'REVEALED',
+      commitHex: TEST_VECTORS.expectedCommitHex,
+      nonce: TEST_VECTORS.nonce,
+      serverSeed: TEST_VECTORS.serverSeed,
+      clientSeed: TEST_VECTORS.clientSeed,
+      combinedSeed: outcome.combinedSeed,
+      pegMapHash: outcome.pegMapHash,
+      algorithmVersion: 'hmac-sha256-v2',
+      rows: '12',
+      dropColumn: '6',
+      binIndex: String(outcome.binIndex),
+      ballCount: '2',
+      binIndexes: `"${JSON.stringify(outcome.binIndexes)}"`,
+      risk: 'low',
+      payoutMultiplierBps: '10000',
+      betCents: '100',
+      totalPayoutCents: '200',
+      createdAt: '2026-10-19T00:00:00.000Z',
+      revealedAt: '',
+      ...overrides,
+    };
+    return EXPORT_HEADER.split(',').map((h) => values[h]).join(',');
+  }
+
+  test('parseCsv handles quoted fields, doubled quotes and CRLF', () => {
+    expect(parseCsv('a,b,c\r\n1,"x,""y""",3\r\n\r\n4,,6\n')).toEqual([
+      { a: '1', b: 'x,"y"', c: '3' },
+      { a: '4', b: '', c: '6' },
+    ]);
+  });
+
+  test('Export CSV rows pass, and tampered rows report their fields', async () => {
+    const csv = [
+      EXPORT_HEADER,
+      exportRow('good'),
+      exportRow('bad', { pegMapHash: sha256('x'), binIndex: '0' }),
+      exportRow('hidden', { serverSeed: '' }),
+    ].join('\n');
+
+    const report = await verifyRoundRecords(parseRoundRecords(csv), { generateCommitHex, computeRoundOutcome });
+
+    expect(report).toMatchObject({ total: 3, passed: 1, failed: 1, errors: 1 });
+    expect(report.results[0]).toMatchObject({ roundId: 'good', status: 'pass', mismatches: [] });
+    expect(report.results[1].mismatches.map((m) => m.field)).toEqual(
+      expect.arrayContaining(['pegMapHash', 'binIndex'])
+    );
+    expect(report.results[2]).toMatchObject({ status: 'error', error: 'serverSeed is not revealed yet' });
+  });
+
+  test('JSON uploads default legacy columns and match in the browser verifier', async () => {
+    const legacy = computePlinkoOutcome(TEST_VECTORS.expectedCombinedSeed, 6);
+    const records = parseRoundRecords(
+      JSON.stringify({
+        rounds: [
+          {
+            roundId: 'legacy',
+            serverSeed: TEST_VECTORS.serverSeed,
+            clientSeed: TEST_VECTORS.clientSeed,
+            nonce: 42,
+            dropColumn: 6,
+            commitHex: TEST_VECTORS.expectedCommitHex,
+            combinedSeed: TEST_VECTORS.expectedCombinedSeed,
+            pegMapHash: legacy.pegMapHash,
+            binIndex: TEST_VECTORS.expectedBinIndex,
+          },
+        ],
+      })
+    );
+
+    const server = await verifyRoundRecords(records, { generateCommitHex, computeRoundOutcome });
+    const local = await verifyRoundRecords(records, web);
+    expect(server.passed).toBe(1);
+    expect(local).toEqual(server);
+  });
+
+  test('Entries that are not objects are per-round errors', async () => {
+    const report = await verifyRoundRecords(parseRoundRecords('[null, 1, "x"]'), {
+      generateCommitHex,
+      computeRoundOutcome,
+    });
+
+    expect(report).toMatchObject({ total: 3, passed: 0, failed: 0, errors: 3 });
+    report.results.forEach((result, index) => {
+      expect(result).toMatchObject({ index, roundId: null, status: 'error', error: 'Round record must be an object' });
+    });
+  });
+
+  test('Rejects oversized batches', async () => {
+    const records = new Array(MAX_BATCH_ROUNDS + 1).fill({});
+    await expect(verifyRoundRecords(records, { generateCommitHex, computeRoundOutcome })).rejects.toThrow(
+      `At most ${MAX_BATCH_ROUNDS}`
+    );
+  });
+});
+
+describe('Round Bundles', () => {
+  function revealedRound(id: string, risk: RiskLevel = 'high') {
+    const outcome = computeRoundOutcome(TEST_VECTORS, 6, 12, 'hmac-sha256-v2', 3);
+    const payout = calculateRoundPayout(100, outcome.binIndexes, 12, risk, 'hmac-sha256-v2');
+    return {
+      id,
+      algorithmVersion: 'hmac-sha256-v2',
+      serverSeed: TEST_VECTORS.serverSeed,
+      clientSeed: TEST_VECTORS.clientSeed,
+      nonce: TEST_VECTORS.nonce,
+      commitHex: TEST_VECTORS.expectedCommitHex,
+      combinedSeed: outcome.combinedSeed,
+      rows: 12,
+      dropColumn: 6,
+      ballCount: 3,
+      risk,
+      betCents: 100,
+      payoutMultiplierBps: payout.payoutMultiplierBps,
+      totalPayoutCents: payout.totalPayoutCents,
+      pegMapHash: outcome.pegMapHash,
+      binIndexesJson: outcome.binIndexes,
+      pathsJson: outcome.paths,
+    };
+  }
+
+  test('A bundle built from revealed rounds verifies, including through JSON text', async () => {
+    const bundle = createBundle([
+      toBundleRound(revealedRound('a'), generateServerSeedHash(TEST_VECTORS.serverSeed)),
+      toBundleRound(revealedRound('b', 'low'), null),
+    ]);
+    expect(bundle.version).toBe(BUNDLE_VERSION);
+    expect(bundle.rounds[0].paytableBps).toEqual(getPaytable(12, 'high').map((e) => e.multiplierBps));
+
+    const report = await verifyBundle(JSON.stringify(bundle));
+    expect(report.pass).toBe(true);
+    expect(report.rounds.map((r) => r.roundId)).toEqual(['a', 'b']);
+    expect(report.rounds[0].checks.map((c) => c.field)).toEqual(
+      expect.arrayContaining(['commitHex', 'serverSeedHash', 'pegMapHash', 'totalPayoutCents', 'paths[2][11]'])
+    );
+  });
+
+  test('Tampered paths and paytables fail on the exact fields', async () => {
+    const round = toBundleRound(revealedRound('a'), null);
+    const flipped = round.paths[1][4].decision === 'LEFT' ? 'RIGHT' : 'LEFT';
+    round.paths[1][4] = { ...round.paths[1][4], decision: flipped };
+    round.paytableBps = round.paytableBps.map((bps) => bps * 2);
+
+    const report = await verifyBundle(createBundle([round]));
+    expect(report.pass).toBe(false);
+    expect(report.rounds[0].checks.filter((c) => !c.pass).map((c) => c.field)).toEqual([
+      'paytableBps',
+      'totalPayoutCents',
+      'payoutMultiplierBps',
+      'paths[1][4]',
+    ]);
+  });
+
+  test('An inflated paytable with matching payouts fails against the registry table', async () => {
+    const round = toBundleRound(revealedRound('a'), null);
+    const forged = { ...round, paytableBps: round.paytableBps.map((bps) => bps * 10) };
+    Object.assign(forged, settleRoundPayout(forged.betCents, forged.binIndexes.map((bin) => forged.paytableBps[bin])));
+
+    const report = await verifyBundle(createBundle([forged]));
+    expect(report.pass).toBe(false);
+    expect(report.rounds[0].checks.filter((c) => !c.pass)).toEqual([
+      { field: 'paytableBps', pass: false, stored: forged.paytableBps, computed: round.paytableBps },
+    ]);
+  });
+
+  test('Unknown risks and algorithm versions are failed checks; unknown stored risks are not bundled', async () => {
+    const round = toBundleRound(revealedRound('a'), null);
+    const report = await verifyBundle(
+      createBundle([
+        { ...round, risk: 'extreme' },
+        { ...round, algorithmVersion: 'nope' },
+      ])
+    );
+    expect(report.rounds.map((r) => r.checks.filter((c) => !c.pass).map((c) => c.field))).toEqual([
+      ['risk'],
+      ['algorithmVersion'],
+    ]);
+    expect(report.rounds.every((r) => !r.pass)).toBe(true);
+    expect(report.rounds[0].checks.map((c) => c.field)).not.toContain('totalPayoutCents');
+
+    expect(() => toBundleRound({ ...revealedRound('a'), risk: 'extreme' }, null)).toThrow('unknown risk');
+  });
+
+  test('Rounds that cannot be recomputed are reported, not thrown', async () => {
+    const round = { ...toBundleRound(revealedRound('a'), null), rows: 99 };
+    const report = await verifyBundle(createBundle([round]));
+    expect(report.rounds[0]).toMatchObject({ pass: false, checks: [] });
+    expect(report.rounds[0].error).toBeDefined();
+  });
+
+  test('Node crypto and WebCrypto verifiers give the same report (offline CLI)', async () => {
+    const bundle = createBundle([toBundleRound(revealedRound('a'), generateServerSeedHash(TEST_VECTORS.serverSeed))]);
+    bundle.rounds[0].pegMapHash = sha256('tampered');
+
+    const node = await verifyBundle(bundle, { generateCommitHex, generateServerSeedHash, computeRoundOutcome });
+    expect(node.rounds[0].checks.filter((c) => !c.pass).map((c) => c.field)).toEqual(['pegMapHash']);
+    expect(await verifyBundle(bundle)).toEqual(node);
+  });
+
+  test('Version 1 bundles with decimal payouts are converted and verified', async () => {
+    // As version 1 wrote them: decimal multipliers, and fractional cents on a 101-cent bet
+    const { paytableBps, binIndexes, ...round } = toBundleRound(revealedRound('a'), null);
+    const paytable = paytableBps.map((bps) => bps / 10_000);
+    const totalPayout = 101 * binIndexes.reduce((sum, bin) => sum + paytable[bin], 0);
+    const v1Round = {
+      ...round,
+      binIndexes,
+      betCents: 101,
+      paytable,
+      payoutMultiplier: totalPayout / (101 * round.ballCount),
+      totalPayout,
+      payoutMultiplierBps: undefined,
+      totalPayoutCents: undefined,
+    };
+    const v1 = { format: 'plinko-round-bundle', version: 1, createdAt: '2026-01-01T00:00:00.000Z', rounds: [v1Round] };
+
+    const payout = calculateRoundPayout(101, binIndexes, 12, 'high', 'hmac-sha256-v2');
+    expect(parseBundle(JSON.stringify(v1)).rounds[0]).toMatchObject({
+      paytableBps,
+      betCents: 101,
+      payoutMultiplierBps: payout.payoutMultiplierBps,
+      totalPayoutCents: payout.totalPayoutCents,
+    });
+    expect((await verifyBundle(JSON.stringify(v1))).pass).toBe(true);
+
+    const overpaid = { ...v1, rounds: [{ ...v1Round, totalPayout: totalPayout + 1 }] };
+    expect((await verifyBundle(overpaid)).rounds[0].checks.filter((c) => !c.pass).map((c) => c.field)).toEqual([
+      'totalPayoutCents',
+    ]);
+  });
+
+  test('Rejects foreign files and unsupported versions', () => {
+    const bundle = createBundle([toBundleRound(revealedRound('a'), null)]);
+    expect(() => parseBundle({ rounds: bundle.rounds })).toThrow('Not a round bundle');
+    expect(() => parseBundle({ ...bundle, version: BUNDLE_VERSION + 1 })).toThrow('Unsupported bundle version');
+    expect(() => parseBundle({ ...bundle, rounds: [] })).toThrow('Bundle has no rounds');
+  });
+});
+
+describe('Signed Round Receipts', () => {
+  const pem = (key: ReturnType<typeof generateKeyPairSync>['privateKey']) =>
+    key.export({ format: 'pem', type: 'pkcs8' }).toString();
+  const operatorKey = pem(generateKeyPairSync('ed25519').privateKey);
+  const round = {
+    id: 'round-1',
+    commitHex: TEST_VECTORS.expectedCommitHex,
+    clientSeed: TEST_VECTORS.clientSeed,
+    dropColumn: 6,
+    ballCount: 3,
+    betCents: 100,
+    currency: 'EUR',
+    binIndex: 6,
+    binIndexesJson: [6, 4, 6],
+    payoutMultiplierBps: 11_000,
+    totalPayoutCents: 330,
+  };
+
+  function withSigningKey<T>(key: string | undefined, fn: () => T): T {
+    const previous = process.env.RECEIPT_SIGNING_KEY;
+    if (key === undefined) delete process.env.RECEIPT_SIGNING_KEY;
+    else process.env.RECEIPT_SIGNING_KEY = key;
+    try {
+      return fn();
+    } finally {
+      if (previous === undefined) delete process.env.RECEIPT_SIGNING_KEY;
+      else process.env.RECEIPT_SIGNING_KEY = previous;
+    }
+  }
+
+  test('Signed message has a fixed field order; commit receipts leave the outcome null', () => {
+    const payload = commitReceiptPayload(round, new Date('2026-10-19T00:00:00.000Z'));
+    expect(receiptMessage({ ...payload })).toBe(
+      `{"version":2,"type":"commit","roundId":"round-1","commitHex":"${TEST_VECTORS.expectedCommitHex}",` +
+        '"clientSeed":"candidate-hello","dropColumn":null,"ballCount":null,"betCents":null,"currency":null,' +
+        '"binIndex":null,"binIndexes":null,"multiplier":null,"totalPayoutCents":null,' +
+        '"issuedAt":"2026-10-19T00:00:00.000Z"}'
+    );
+  });
+
+  test('Version 1 receipts still verify over their own fields', async () => {
+    const { ballCount, currency, binIndexes, totalPayoutCents, ...fields } = outcomeReceiptPayload(round);
+    expect([ballCount, currency, binIndexes, totalPayoutCents]).toEqual([3, 'EUR', [6, 4, 6], 330]);
+    const legacy = { ...fields, version: 1 };
+    expect(receiptMessage(legacy)).toMatch(/^\{"version":1,.*"binIndex":6,"multiplier":1\.1,"issuedAt":"[^"]+"\}$/);
+
+    const receipt = withSigningKey(operatorKey, () => signReceipt(legacy)!);
+    expect(verifyReceipt(receipt, receipt.publicKey)).toBe(true);
+    expect(await web.verifyReceipt(receipt, receipt.publicKey)).toBe(true);
+  });
+
+  test('Receipts verify against the operator key with Node crypto and WebCrypto', async () => {
+    const { commit, outcome, publicKey } = withSigningKey(operatorKey.replace(/\n/g, '\\n'), () => ({
+      commit: signReceipt(commitReceiptPayload(round))!,
+      outcome: signReceipt(outcomeReceiptPayload(round))!,
+      publicKey: getOperatorPublicKey()!,
+    }));
+
+    expect(publicKey).toMatch(/^[0-9a-f]{64}$/);
+    expect(outcome.payload).toMatchObject({
+      type: 'outcome',
+      ballCount: 3,
+      binIndex: 6,
+      binIndexes: [6, 4, 6],
+      multiplier: 1.1,
+      betCents: 100,
+      currency: 'EUR',
+      totalPayoutCents: 330,
+    });
+    for (const receipt of [commit, outcome]) {
+      expect(verifyReceipt(receipt, publicKey)).toBe(true);
+      expect(await web.verifyReceipt(receipt, publicKey)).toBe(true);
+    }
+  });
+
+  test('Tampered payloads and other keys are rejected', async () => {
+    const receipt = withSigningKey(operatorKey, () => signReceipt(outcomeReceiptPayload(round))!);
+    for (const change of [{ multiplier: 16 }, { totalPayoutCents: 3300 }, { currency: 'USD' }, { binIndexes: [6, 0, 6] }]) {
+      const tampered = { ...receipt, payload: { ...receipt.payload, ...change } };
+      expect(verifyReceipt(tampered, receipt.publicKey)).toBe(false);
+      expect(await web.verifyReceipt(tampered, receipt.publicKey)).toBe(false);
+    }
+
+    // An outcome receipt signed without the payout fields proves nothing about the payout
+    const incomplete = withSigningKey(operatorKey, () =>
+      signReceipt({ ...outcomeReceiptPayload(round), totalPayoutCents: null })!
+    );
+    expect(verifyReceipt(incomplete, incomplete.publicKey)).toBe(false);
+    expect(await web.verifyReceipt(incomplete, incomplete.publicKey)).toBe(false);
+
+    const otherKey = withSigningKey(pem(generateKeyPairSync('ed25519').privateKey), () => getOperatorPublicKey()!);
+    expect(verifyReceipt(receipt, otherKey)).toBe(false);
+    expect(verifyReceipt({ ...receipt, publicKey: otherKey }, otherKey)).toBe(false);
+    expect(await web.verifyReceipt({ ...receipt, publicKey: otherKey }, otherKey)).toBe(false);
+  });
+
+  test('Without a configured key rounds are unsigned; other key types are refused', () => {
+    withSigningKey(undefined, () => {
+      expect(signReceipt(commitReceiptPayload(round))).toBeNull();
+      expect(getOperatorPublicKey()).toBeNull();
+    });
+    const ecKey = pem(generateKeyPairSync('ec', { namedCurve: 'P-256' }).privateKey);
+    expect(() => withSigningKey(ecKey, () => getOperatorPublicKey())).toThrow('Ed25519');
+  });
+});
+
+describe('Round Log', () => {
+  function buildLog(length: number): LoggedRound[] {
+    const entries: LoggedRound[] = [];
+    let prevHash = ROUND_LOG_GENESIS_HASH;
+    for (let logIndex = 0; logIndex < length; logIndex++) {
+      const outcome = computeRoundOutcome({ ...TEST_VECTORS, nonce: String(logIndex) }, 6, 12, 'hmac-sha256-v2', 1);
+      const fields = {
+        id: `round-${logIndex}`,
+        createdAt: new Date(Date.UTC(2026, 9, 19, 0, logIndex)),
+        seedPairId: 'pair',
+        nonce: String(logIndex),
+        commitHex: generateCommitHex(TEST_VECTORS.serverSeed, String(logIndex)),
+        clientSeed: TEST_VECTORS.clientSeed,
+        combinedSeed: outcome.combinedSeed,
+        pegMapHash: outcome.pegMapHash,
+        algorithmVersion: 'hmac-sha256-v2',
+        rows: 12,
+        dropColumn: 6,
+        risk: 'low',
+        ballCount: 1,
+        betCents: 100,
+        binIndex: outcome.binIndex,
+        binIndexesJson: outcome.binIndexes,
+        payoutMultiplierBps: getMultiplierBps(outcome.binIndex, 12, 'low'),
+        totalPayoutCents: calculatePayout(100, outcome.binIndex, 12, 'low'),
+        legacyPayoutMultiplier: null,
+        legacyTotalPayout: null,
+        pathsJson: JSON.parse(JSON.stringify(outcome.paths)),
+        revealedAt: new Date(Date.UTC(2026, 9, 19, 0, logIndex, 30)),
+      };
+      const entryHash = computeLogEntryHash(fields, logIndex, prevHash);
+      entries.push({ ...fields, logIndex, prevHash, entryHash });
+      prevHash = entryHash;
+    }
+    return entries;
+  }
+
+  test('Entries hash their canonical fields and the previous entryHash', () => {
+    const [first, second] = buildLog(2);
+    expect(first.prevHash).toBe(ROUND_LOG_GENESIS_HASH);
+    expect(second.prevHash).toBe(first.entryHash);
+    expect(first.entryHash).toBe(sha256(canonicalLogEntry(first, 0, ROUND_LOG_GENESIS_HASH)));
+    expect(canonicalLogEntry(first, 0, ROUND_LOG_GENESIS_HASH)).toMatch(
+      /^\{"logIndex":0,"prevHash":"0{64}","roundId":"round-0","createdAt":"2026-10-19T00:00:00.000Z",/
+    );
+  });
+
+  test('An intact log passes, including its checkpoints', async () => {
+    const log = buildLog(5);
+    const audit = await auditRoundLog(log, [{ logIndex: 2, headHash: log[2].entryHash! }]);
+    expect(audit).toEqual({
+      valid: true,
+      length: 5,
+      headHash: log[4].entryHash,
+      firstBrokenLink: null,
+      checkpoints: { checked: 1, mismatched: [] },
+    });
+    expect((await auditRoundLog([])).headHash).toBe(ROUND_LOG_GENESIS_HASH);
+  });
+
+  test('Edited, deleted and relinked rounds report the first broken link', async () => {
+    const edited = buildLog(5);
+    edited[2] = { ...edited[2], payoutMultiplierBps: 160_000 };
+    expect((await auditRoundLog(edited)).firstBrokenLink).toMatchObject({
+      logIndex: 2,
+      roundId: 'round-2',
+      reason: 'entryHash',
+      actual: buildLog(5)[2].entryHash,
+    });
+
+    const deleted = buildLog(5).filter((entry) => entry.logIndex !== 1);
+    expect(await auditRoundLog(deleted)).toMatchObject({
+      valid: false,
+      length: 1,
+      firstBrokenLink: { logIndex: 1, roundId: 'round-2', reason: 'gap', actual: 2 },
+    });
+
+    // Rehashing an edited entry still breaks the next link
+    const rehashed = buildLog(5);
+    const forged = { ...rehashed[3], betCents: 1 };
+    rehashed[3] = { ...forged, entryHash: computeLogEntryHash(forged, 3, forged.prevHash!) };
+    expect((await auditRoundLog(rehashed)).firstBrokenLink).toMatchObject({ logIndex: 4, reason: 'prevHash' });
+  });
+
+  test('Checkpoints catch a rewritten or truncated tail', async () => {
+    const published = buildLog(5);
+    const checkpoint = { logIndex: 4, headHash: published[4].entryHash! };
+
+    const truncated = await auditRoundLog(published.slice(0, 3), [checkpoint]);
+    expect(truncated.firstBrokenLink).toBeNull();
+    expect(truncated).toMatchObject({ valid: false, checkpoints: { checked: 1, mismatched: [{ logIndex: 4, actual: null }] } });
+
+    // A consistently rebuilt chain with a different round 4 passes the links but not the checkpoint
+    const rebuilt = buildLog(5);
+    const forged = { ...rebuilt[4], totalPayoutCents: 0 };
+    rebuilt[4] = { ...forged, entryHash: computeLogEntryHash(forged, 4, forged.prevHash!) };
+    const audit = await auditRoundLog(rebuilt, [checkpoint]);
+    expect(audit.firstBrokenLink).toBeNull();
+    expect(audit.checkpoints.mismatched).toEqual([
+      { logIndex: 4, headHash: checkpoint.headHash, actual: rebuilt[4].entryHash },
+    ]);
+  });
+
+  test('A round created before integer payouts and logged after hashes the payout it is settled with', async () => {
+    const migrationsDir = path.join(__dirname, '..', 'prisma', 'migrations');
+    const migrations = fs.readdirSync(migrationsDir).filter((name) => name !== 'migration_lock.toml').sort();
+    const db = createClient({ url: ':memory:' });
+    const apply = (name: string) =>
+      db.executeMultiple(fs.readFileSync(path.join(migrationsDir, name, 'migration.sql'), 'utf8'));
+
+    for (const name of migrations.slice(0, migrations.indexOf('20261019100000_integer_payouts'))) {
+      await apply(name);
+    }
+    // One round already logged with a fractional payout, one committed but not yet played
+    await db.execute(`INSERT INTO "Round"
+      ("id", "status", "nonce", "commitHex", "clientSeed", "combinedSeed", "pegMapHash", "rows", "dropColumn",
+       "binIndex", "payoutMultiplier", "betCents", "pathJson", "totalPayout", "logIndex")
+      VALUES ('logged', 'REVEALED', '0', 'c', 's', '', '', 12, 6, 0, 0.5, 101, '[]', 50.5, 0),
+             ('created', 'CREATED', '1', 'c', 's', '', '', 12, 0, 0, 0, 0, '[]', 0, NULL)`);
+    await apply('20261019100000_integer_payouts');
+
+    const migrated = await db.execute(
+      'SELECT "id", "totalPayoutCents", "legacyPayoutMultiplier", "legacyTotalPayout" FROM "Round" ORDER BY "id"'
+    );
+    expect(migrated.rows.map((row) => [row.id, row.totalPayoutCents, row.legacyPayoutMultiplier, row.legacyTotalPayout])).toEqual([
+      ['created', 0, null, null],
+      ['logged', 50, 0.5, 50.5],
+    ]);
+    db.close();
+
+    // The CREATED round is then started and revealed; its entry hashes the real payout, not the 0 it was created with
+    const [played] = buildLog(1);
+    const revealed = { ...played, legacyPayoutMultiplier: null, legacyTotalPayout: null };
+    expect(JSON.parse(canonicalLogEntry(revealed, 0, ROUND_LOG_GENESIS_HASH))).toMatchObject({
+      payoutMultiplier: played.payoutMultiplierBps / 10_000,
+      totalPayout: played.totalPayoutCents,
+    });
+    expect(played.totalPayoutCents).toBeGreaterThan(0);
+  });
+
+  test('Entries logged before integer payouts still verify from their legacy decimals', async () => {
+    // Written as before the migration: decimal payouts, such as 101 cents at 1.1x, in the hash
+    let prevHash = ROUND_LOG_GENESIS_HASH;
+    const migrated = buildLog(3).map((entry, logIndex) => {
+      const payoutMultiplier = entry.payoutMultiplierBps / 10_000;
+      const totalPayout = 101 * payoutMultiplier;
+      const written = { ...entry, betCents: 101 };
+      const entryHash = sha256(
+        JSON.stringify({ ...JSON.parse(canonicalLogEntry(written, logIndex, prevHash)), payoutMultiplier, totalPayout })
+      );
+      const row = {
+        ...written,
+        // What the migration leaves: truncated cents, the decimals kept aside
+        totalPayoutCents: Math.floor(totalPayout),
+        legacyPayoutMultiplier: payoutMultiplier,
+        legacyTotalPayout: totalPayout,
+        prevHash,
+        entryHash,
+      };
+      prevHash = entryHash;
+      return row;
+    });
+
+    expect(await auditRoundLog(migrated)).toMatchObject({ valid: true, length: 3, headHash: prevHash });
+    const withoutDecimals = migrated.map((entry) => ({ ...entry, legacyPayoutMultiplier: null, legacyTotalPayout: null }));
+    expect((await auditRoundLog(withoutDecimals)).firstBrokenLink).toMatchObject({ reason: 'entryHash' });
+  });
+});
+
+describe('Commitment Merkle Batches', () => {
+  const commits = Array.from({ length: 7 }, (_, i) => generateCommitHex(TEST_VECTORS.serverSeed, String(i)));
+
+  test('Root follows the leaf/node formulas and carries odd nodes up', async () => {
+    const [a, b, c] = commits.slice(0, 3).map((commit) => sha256(`leaf:${commit}`));
+    expect(await computeMerkleRoot(commits.slice(0, 1), sha256)).toBe(a);
+    expect(await computeMerkleRoot(commits.slice(0, 3), sha256)).toBe(sha256(`node:${sha256(`node:${a}${b}`)}${c}`));
+    await expect(computeMerkleRoot([], sha256)).rejects.toThrow('at least one leaf');
+  });
+
+  test('Every leaf proves inclusion for batch sizes 1-7, with Node and WebCrypto', async () => {
+    for (let size = 1; size <= commits.length; size++) {
+      const batch = commits.slice(0, size);
+      const root = await computeMerkleRoot(batch, sha256);
+      expect(await computeMerkleRoot(batch, web.sha256)).toBe(root);
+      for (let index = 0; index < size; index++) {
+        const proof = await buildMerkleProof(batch, index, sha256);
+        expect(proof.length).toBeLessThanOrEqual(Math.ceil(Math.log2(size)));
+        expect(await verifyMerkleProof(batch[index], proof, root, sha256)).toBe(true);
+        expect(await verifyMerkleProof(batch[index], proof, root, web.sha256)).toBe(true);
+      }
+    }
+  });
+
+  test('A window is sealable from when it closes until the next one closes, never later', () => {
+    const createdAt = new Date('2026-10-19T10:20:00.000Z');
+    expect(commitmentWindowStatus(createdAt, new Date('2026-10-19T10:59:59.999Z'))).toBe('open');
+    expect(commitmentWindowStatus(createdAt, new Date('2026-10-19T11:00:00.000Z'))).toBe('sealable');
+    expect(commitmentWindowStatus(createdAt, new Date('2026-10-19T11:59:59.999Z'))).toBe('sealable');
+    // An old round is not swept into a batch by a later first seal
+    expect(commitmentWindowStatus(createdAt, new Date('2026-10-19T12:00:00.000Z'))).toBe('missed');
+    expect(commitmentWindowStatus(createdAt, new Date('2026-11-19T12:00:00.000Z'))).toBe('missed');
+  });
+
+  test('Proofs fail for other commits, other roots and altered steps', async () => {
+    const root = await computeMerkleRoot(commits, sha256);
+    const proof = await buildMerkleProof(commits, 2, sha256);
+    expect(await verifyMerkleProof(commits[3], proof, root, sha256)).toBe(false);
+    expect(await verifyMerkleProof(commits[2], proof, await computeMerkleRoot(commits.slice(1), sha256), sha256)).toBe(false);
+    const flipped = proof.map((step, i) => (i === 0 ? { ...step, position: step.position === 'left' ? 'right' : 'left' } as const : step));
+    expect(await verifyMerkleProof(commits[2], flipped, root, sha256)).toBe(false);
+    // A leaf hash cannot pass for an inner node
+    expect(await verifyMerkleProof(await merkleLeafHash(commits[0], sha256), [], root, sha256)).toBe(false);
+    await expect(buildMerkleProof(commits, 7, sha256)).rejects.toThrow('outside the batch');
+  });
+});
+
+describe('Player Accounts', () => {
+  test('Passwords hash with a fresh salt and verify only the original', async () => {
+    const first = await hashPassword('correct horse battery');
+    const second = await hashPassword('correct horse battery');
+    expect(first).toMatch(/^scrypt\$16384\$8\$1\$[0-9a-f]{32}\$[0-9a-f]{64}$/);
+    expect(second).not.toBe(first);
+    expect(await verifyPassword('correct horse battery', first)).toBe(true);
+    expect(await verifyPassword('correct horse batteries', first)).toBe(false);
+    expect(await verifyPassword('correct horse battery', 'bcrypt$whatever')).toBe(false);
+  });
+
+  test('Sign-in checks a dummy hash for unknown usernames and never accepts it', async () => {
+    const stored = await hashPassword('correct horse battery');
+    expect(await verifyLogin('correct horse battery', stored)).toBe(true);
+    expect(await verifyLogin('correct horse batteries', stored)).toBe(false);
+    expect(await verifyLogin('correct horse battery', null)).toBe(false);
+    expect(await verifyLogin('', null)).toBe(false);
+  });
+
+  test('Session tokens carry the player until they expire', () => {
+    const issuedAt = new Date('2026-10-19T00:00:00Z');
+    const token = createSessionToken('player-1', issuedAt);
+    const expiresAt = issuedAt.getTime() + SESSION_MAX_AGE_SECONDS * 1000;
+    expect(readSessionToken(token, issuedAt)).toBe('player-1');
+    expect(readSessionToken(token, new Date(expiresAt - 1))).toBe('player-1');
+    expect(readSessionToken(token, new Date(expiresAt))).toBeNull();
+  });
+
+  test('Tampered or malformed session tokens are rejected', () => {
+    const issuedAt = new Date('2026-10-19T00:00:00Z');
+    const [, expiresAt, signature] = createSessionToken('player-1', issuedAt).split('.');
+    expect(readSessionToken(`player-2.${expiresAt}.${signature}`, issuedAt)).toBeNull();
+    expect(readSessionToken(`player-1.${Number(expiresAt) + 1000}.${signature}`, issuedAt)).toBeNull();
+    expect(readSessionToken(`player-1.${expiresAt}.${signature.slice(2)}`, issuedAt)).toBeNull();
+    expect(readSessionToken('player-1', issuedAt)).toBeNull();
+  });
+
+  test('Usernames and passwords are validated', () => {
+    expect(isValidUsername('ball_dropper-7')).toBe(true);
+    expect(isValidUsername('ab')).toBe(false);
+    expect(isValidUsername('has space')).toBe(false);
+    expect(isValidUsername('x'.repeat(33))).toBe(false);
+    expect(isValidPassword('12345678')).toBe(true);
+    expect(isValidPassword('1234567')).toBe(false);
+    expect(isValidPassword(12345678)).toBe(false);
+  });
+});
+
+describe('Wallet Ledger', () => {
+  const transfer = (transactionId: string, amountCents: number): LedgerEntryFields[] => [
+    { transactionId, account: 'WALLET', amountCents },
+    { transactionId, account: 'HOUSE', amountCents: -amountCents },
+  ];
+  const entries = [...transfer('grant', 100_000), ...transfer('bet', -500), ...transfer('payout', 800)];
+
+  test('A balance that equals its balanced entries reconciles', () => {
+    const report = reconcileLedger('wallet-1', 100_300, entries);
+    expect(report.balanced).toBe(true);
+    expect(report.ledgerBalanceCents).toBe(100_300);
+    expect(report.entryCount).toBe(6);
+    expect(report.unbalancedTransactions).toEqual([]);
+  });
+
+  test('A drifted balance or a one-sided entry fails reconciliation', () => {
+    expect(reconcileLedger('wallet-1', 100_000, entries).balanced).toBe(false);
+
+    const oneSided = [...entries, { transactionId: 'orphan', account: 'WALLET', amountCents: 50 }];
+    const report = reconcileLedger('wallet-1', 100_350, oneSided);
+    expect(report.ledgerBalanceCents).toBe(100_350);
+    expect(report.unbalancedTransactions).toEqual(['orphan']);
+    expect(report.balanced).toBe(false);
+  });
+});
+
+describe('Currencies', () => {
+  test('Minor units follow each currency\'s exponent', () => {
+    expect(getCurrency('USD').exponent).toBe(2);
+    expect(getCurrency('JPY').exponent).toBe(0);
+    expect(toMinorUnits(1.5, 'USD')).toBe(150);
+    expect(toMinorUnits(0.29, 'EUR')).toBe(29); // 0.29 * 100 is 28.999... in floating point
+    expect(toMinorUnits(150, 'JPY')).toBe(150);
+    expect(toMajorUnits(150, 'USD')).toBe(1.5);
+    expect(isValidCurrency('GBP')).toBe(true);
+    expect(isValidCurrency('usd')).toBe(false);
+  });
+
+  test('Amounts are formatted for a locale', () => {
+    expect(formatMoney(123456, 'USD')).toBe('$1,234.56');
+    expect(formatMoney(123456, 'JPY', 'en-US')).toBe('¥123,456');
+    expect(formatMoney(5, 'GBP', 'en-GB')).toBe('£0.05');
+    expect(formatMoney(123456, 'EUR')).toBe('1.234,56\u00a0€');
+    expect(isValidLocale('de-DE')).toBe(true);
+    expect(isValidLocale('not a locale')).toBe(false);
+  });
+});
+
+describe('Bet Limits', () => {
+  test('Limits default to the currency registry and can be overridden', () => {
+    const defaults = getBetLimits('USD', {} as NodeJS.ProcessEnv);
+    expect(defaults.minBet).toBe(getCurrency('USD').minBet);
+    expect(defaults.maxBet).toBe(getCurrency('USD').maxBet);
+    expect(defaults.maxPayout).toBe(getCurrency('USD').maxPayout);
+    expect(defaults.quickBets).toEqual([1, 10, 100, 1000, 10_000, 100_000]);
+
+    const env = { MIN_BET_USD: '10', MAX_BET_USD: '5000', MAX_PAYOUT_USD: 'lots' } as unknown as NodeJS.ProcessEnv;
+    const overridden = getBetLimits('USD', env);
+    expect(overridden.minBet).toBe(10);
+    expect(overridden.maxBet).toBe(5000);
+    expect(overridden.maxPayout).toBe(getCurrency('USD').maxPayout); // invalid values are ignored
+    expect(getBetLimits('EUR', env).minBet).toBe(getCurrency('EUR').minBet);
+  });
+
+  test('Quick bets stay within the limits and include both ends', () => {
+    expect(quickBetAmounts(10, 5000)).toEqual([10, 50, 100, 500, 1000, 5000]);
+    expect(quickBetAmounts(100, 300)).toEqual([100, 200, 300]);
+    expect(quickBetAmounts(50, 50)).toEqual([50]);
+  });
+
+  test('Bets outside the limits report which limit was hit', () => {
+    const limits = { currency: 'USD' as const, minBet: 10, maxBet: 1000, maxPayout: 50_000, quickBets: [] };
+    expect(checkBetLimits(limits, 100, 1, 12, 'low')).toBeNull();
+    expect(checkBetLimits(limits, 5, 1, 12, 'low')).toEqual({ code: 'BET_BELOW_MIN', limit: 10, amount: 5 });
+    expect(checkBetLimits(limits, 1001, 1, 12, 'low')).toEqual({ code: 'BET_ABOVE_MAX', limit: 1000, amount: 1001 });
+  });
+
+  test('The payout cap applies to the most a round could pay', () => {
+    // 16-row high risk tops out at 1000x: 100 cents x 1000x x 2 balls
+    expect(maxRoundPayout(100, 2, 16, 'high')).toBe(200_000);
+
+    const limits = { currency: 'USD' as const, minBet: 1, maxBet: 100_000, maxPayout: 100_000, quickBets: [] };
+    expect(checkBetLimits(limits, 100, 1, 16, 'high')).toBeNull();
+    expect(checkBetLimits(limits, 100, 2, 16, 'high')).toEqual({
+      code: 'PAYOUT_ABOVE_MAX',
+      limit: 100_000,
+      amount: 200_000,
+    });
+  });
+});
+
+describe('Round State Machine', () => {
+  test('Only the defined transitions are legal', () => {
+    expect(canTransition('CREATED', 'STARTED')).toBe(true);
+    expect(canTransition('CREATED', 'EXPIRED')).toBe(true);
+    expect(canTransition('CREATED', 'CANCELLED')).toBe(true);
+    expect(canTransition('STARTED', 'REVEALED')).toBe(true);
+
+    expect(canTransition('CREATED', 'REVEALED')).toBe(false);
+    expect(canTransition('STARTED', 'CANCELLED')).toBe(false);
+    expect(canTransition('STARTED', 'STARTED')).toBe(false);
+    expect(canTransition('UNKNOWN', 'STARTED')).toBe(false);
+    for (const final of ['REVEALED', 'EXPIRED', 'CANCELLED']) {
+      for (const to of ROUND_STATUSES) {
+        expect(canTransition(final, to)).toBe(false);
+      }
+    }
+  });
+
+  test('Illegal moves throw a typed error', () => {
+    expect(() => assertRoundTransition({ id: 'round-1', status: 'CREATED' }, 'STARTED')).not.toThrow();
+
+    let caught: unknown;
+    try {
+      assertRoundTransition({ id: 'round-1', status: 'REVEALED' }, 'STARTED');
+    } catch (error) {
+      caught = error;
+    }
+    expect(caught).toBeInstanceOf(IllegalRoundTransitionError);
+    expect(caught).toMatchObject({ code: 'ILLEGAL_TRANSITION', roundId: 'round-1', from: 'REVEALED', to: 'STARTED' });
+  });
+
+  test('Committed rounds expire if not started in time', () => {
+    const createdAt = new Date('2026-10-19T12:00:00Z');
+    const justInTime = new Date(createdAt.getTime() + ROUND_EXPIRY_SECONDS * 1000);
+    const tooLate = new Date(justInTime.getTime() + 1);
+
+    expect(isRoundExpired({ status: 'CREATED', createdAt }, justInTime)).toBe(false);
+    expect(isRoundExpired({ status: 'CREATED', createdAt }, tooLate)).toBe(true);
+    expect(isRoundExpired({ status: 'STARTED', createdAt }, tooLate)).toBe(false);
+  });
+});
@@ -0,0 +1,24 @@
+/**
+ * GET /api/algorithms
+ *
+ * Lists every registered fairness algorithm version, marking the one used for
+ * new rounds and the one assumed for rounds that predate versioning.
+ */
+
+import { NextResponse } from 'next/server';
+import {
+  ALGORITHMS,
+  CURRENT_ALGORITHM_VERSION,
+  LEGACY_ALGORITHM_VERSION,
+} from '@/lib/algorithms';
+
+export async function GET() {
+  return NextResponse.json({
+    algorithms: Object.values(ALGORITHMS).map((algorithm) => ({
+      version: algorithm.version,
+      description: algorithm.description,
+    })),
+    current: CURRENT_ALGORITHM_VERSION,
+    legacy: LEGACY_ALGORITHM_VERSION,
+  });
+}
@@ -0,0 +1,47 @@
+/**
+ * POST /api/auth/login
+ *
+ * Body: { username, password }
+ * Signs the player in with an HTTP-only session cookie.
+ * Returns 401 if the username or password is wrong.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { verifyLogin } from '@/lib/auth';
+import { startSession, toPublicPlayer } from '@/lib/session';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { username, password } = body ?? {};
+
+    if (typeof username !== 'string' || typeof password !== 'string') {
+      return NextResponse.json(
+        { error: 'username and password are required' },
+        { status: 400 }
+      );
+    }
+
+    // Unknown usernames still pay for a password hash, so timing does not
+    // reveal which usernames exist
+    const player = await prisma.player.findUnique({ where: { username } });
+    const valid = await verifyLogin(password, player?.passwordHash ?? null);
+    if (!player || !valid) {
+      return NextResponse.json(
+        { error: 'Invalid username or password' },
+        { status: 401 }
+      );
+    }
+
+    await startSession(player.id);
+
+    return NextResponse.json(toPublicPlayer(player));
+  } catch (error) {
+    console.error('Error signing in:', error);
+    return NextResponse.json(
+      { error: 'Failed to sign in' },
+      { status: 500 }
+    );
+  }
+}
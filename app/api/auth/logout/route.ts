@@ -0,0 +1,22 @@
+/**
+ * POST /api/auth/logout
+ *
+ * Clears the session cookie.
+ */
+
+import { NextResponse } from 'next/server';
+import { endSession } from '@/lib/session';
+
+export async function POST() {
+  try {
+    await endSession();
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error signing out:', error);
+    return NextResponse.json(
+      { error: 'Failed to sign out' },
+      { status: 500 }
+    );
+  }
+}
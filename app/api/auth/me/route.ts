@@ -0,0 +1,22 @@
+/**
+ * GET /api/auth/me
+ *
+ * Returns the signed-in player, or { player: null } when signed out.
+ */
+
+import { NextResponse } from 'next/server';
+import { getSessionPlayer, toPublicPlayer } from '@/lib/session';
+
+export async function GET() {
+  try {
+    const player = await getSessionPlayer();
+
+    return NextResponse.json({ player: player ? toPublicPlayer(player) : null });
+  } catch (error) {
+    console.error('Error fetching session:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch session' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * POST /api/auth/register
+ *
+ * Body: { username, password }
+ * Creates a player account, opens its wallet in the default currency with
+ * the starting balance and signs it in. Usernames are 3-32 letters, digits, "_" or "-"; passwords
+ * are 8-128 characters.
+ * Returns 409 if the username is taken, including when a concurrent
+ * registration takes it between the check and the insert.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import {
+  MAX_PASSWORD_LENGTH,
+  MAX_USERNAME_LENGTH,
+  MIN_PASSWORD_LENGTH,
+  MIN_USERNAME_LENGTH,
+  hashPassword,
+  isValidPassword,
+  isValidUsername,
+} from '@/lib/auth';
+import { startSession, toPublicPlayer } from '@/lib/session';
+import { openWallet } from '@/lib/wallet';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { username, password } = body ?? {};
+
+    if (!isValidUsername(username)) {
+      return NextResponse.json(
+        {
+          error: `username must be ${MIN_USERNAME_LENGTH}-${MAX_USERNAME_LENGTH} letters, digits, "_" or "-"`,
+        },
+        { status: 400 }
+      );
+    }
+    if (!isValidPassword(password)) {
+      return NextResponse.json(
+        { error: `password must be ${MIN_PASSWORD_LENGTH}-${MAX_PASSWORD_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.player.findUnique({ where: { username } });
+    if (existing) {
+      return usernameTaken();
+    }
+
+    const passwordHash = await hashPassword(password);
+    const player = await prisma.$transaction(async (tx) => {
+      const created = await tx.player.create({ data: { username, passwordHash } });
+      await openWallet(tx, created.id);
+      return created;
+    });
+
+    await startSession(player.id);
+
+    return NextResponse.json(toPublicPlayer(player), { status: 201 });
+  } catch (error) {
+    // The username was registered after the check above
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return usernameTaken();
+    }
+    console.error('Error registering player:', error);
+    return NextResponse.json(
+      { error: 'Failed to register' },
+      { status: 500 }
+    );
+  }
+}
+
+function usernameTaken() {
+  return NextResponse.json({ error: 'Username is already taken' }, { status: 409 });
+}
@@ -0,0 +1,87 @@
+/**
+ * GET /api/chains
+ *
+ * Lists the published server seed hash chains (terminal hash, length, seeds
+ * used) of the signed-in player, and the retired chains from before chains
+ * were per player.
+ *
+ * POST /api/chains
+ *
+ * Operator only: generates a new chain of { length } seeds for { playerId }
+ * and makes it the source of server seeds for that player's new seed pairs.
+ * Only the terminal hash is returned. Requires
+ * `Authorization: Bearer <OPERATOR_API_KEY>`; 404 for an unknown player.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { MAX_CHAIN_LENGTH } from '@/lib/fairness';
+import { createSeedChain, toPublicSeedChain } from '@/lib/seed-chains';
+import { isOperator } from '@/lib/operator';
+import { getSessionPlayer } from '@/lib/session';
+
+export async function GET() {
+  try {
+    const player = await getSessionPlayer();
+    const chains = await prisma.seedChain.findMany({
+      where: { OR: [{ playerId: null }, ...(player ? [{ playerId: player.id }] : [])] },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return NextResponse.json({
+      chains: chains.map(toPublicSeedChain),
+    });
+  } catch (error) {
+    console.error('Error fetching seed chains:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch seed chains' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    if (!isOperator(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const playerId = body?.playerId;
+    const length = body?.length;
+
+    if (typeof playerId !== 'string' || !playerId) {
+      return NextResponse.json(
+        { error: 'playerId must be a non-empty string' },
+        { status: 400 }
+      );
+    }
+
+    if (
+      typeof length !== 'number' ||
+      !Number.isInteger(length) ||
+      length < 1 ||
+      length > MAX_CHAIN_LENGTH
+    ) {
+      return NextResponse.json(
+        { error: `length must be an integer between 1 and ${MAX_CHAIN_LENGTH}` },
+        { status: 400 }
+      );
+    }
+
+    const player = await prisma.player.findUnique({ where: { id: playerId } });
+    if (!player) {
+      return NextResponse.json({ error: 'Player not found' }, { status: 404 });
+    }
+
+    const chain = await createSeedChain(prisma, player.id, length);
+
+    return NextResponse.json(toPublicSeedChain(chain));
+  } catch (error) {
+    console.error('Error creating seed chain:', error);
+    return NextResponse.json(
+      { error: 'Failed to create seed chain' },
+      { status: 500 }
+    );
+  }
+}
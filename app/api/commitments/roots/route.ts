@@ -0,0 +1,47 @@
+/**
+ * GET /api/commitments/roots?limit=24
+ *
+ * Feed of published Merkle roots, newest first: one per closed hourly window
+ * that had commits and was sealed by its deadline. Due windows are sealed
+ * before the feed is read.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import {
+  COMMITMENT_BATCH_WINDOW_MS,
+  sealCommitmentBatches,
+  toPublicCommitmentBatch,
+} from '@/lib/commitment-batches';
+
+export async function GET(request: NextRequest) {
+  try {
+    const limitStr = request.nextUrl.searchParams.get('limit');
+    const limit = limitStr ? parseInt(limitStr, 10) : 24;
+
+    if (isNaN(limit) || limit < 1 || limit > 500) {
+      return NextResponse.json(
+        { error: 'limit must be a number between 1 and 500' },
+        { status: 400 }
+      );
+    }
+
+    await sealCommitmentBatches(prisma);
+
+    const batches = await prisma.commitmentBatch.findMany({
+      orderBy: { windowStart: 'desc' },
+      take: limit,
+    });
+
+    return NextResponse.json({
+      windowMs: COMMITMENT_BATCH_WINDOW_MS,
+      roots: batches.map(toPublicCommitmentBatch),
+    });
+  } catch (error) {
+    console.error('Error fetching commitment roots:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch commitment roots' },
+      { status: 500 }
+    );
+  }
+}
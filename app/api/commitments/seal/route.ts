@@ -0,0 +1,31 @@
+/**
+ * POST /api/commitments/seal
+ *
+ * Operator only: seals every commitment window that has closed and is still
+ * within its sealing deadline. Run it on a schedule (e.g. every few minutes)
+ * so roots are published as windows close even when no round is committed.
+ * Returns { sealed }. Requires `Authorization: Bearer <OPERATOR_API_KEY>`.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { isOperator } from '@/lib/operator';
+import { sealCommitmentBatches } from '@/lib/commitment-batches';
+
+export async function POST(request: NextRequest) {
+  try {
+    if (!isOperator(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const sealed = await sealCommitmentBatches(prisma);
+
+    return NextResponse.json({ sealed });
+  } catch (error) {
+    console.error('Error sealing commitment batches:', error);
+    return NextResponse.json(
+      { error: 'Failed to seal commitment batches' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,19 @@
+/**
+ * GET /api/config/limits
+ *
+ * Returns the bet limits enforced by POST /api/rounds/[id]/start for every
+ * currency: { defaultCurrency, limits: { USD: { minBet, maxBet, maxPayout,
+ * quickBets }, ... } }, all in minor units. The game controls build their bet
+ * input bounds and quick-bet buttons from them.
+ */
+
+import { NextResponse } from 'next/server';
+import { DEFAULT_CURRENCY } from '@/lib/currency';
+import { getAllBetLimits } from '@/lib/limits';
+
+export async function GET() {
+  return NextResponse.json({
+    defaultCurrency: DEFAULT_CURRENCY,
+    limits: getAllBetLimits(),
+  });
+}
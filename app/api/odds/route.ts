@@ -0,0 +1,164 @@
+/**
+ * GET /api/odds
+ *
+ * Landing probability of every bin and the expected multiplier.
+ * - Before commit: ?rows=12&risk=low&dropColumn=6[&algorithm=...] gives the
+ *   expected odds from the bias prior (peg biases are not known yet)
+ * - After reveal: ?roundId=... gives the exact odds of that round's peg map
+ *   (only once its seed pair has been rotated, so unplayed boards stay hidden,
+ *   and only for rounds the session player may see; others are 404)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { canAccessRound, getSessionPlayer } from '@/lib/session';
+import {
+  computeLandingOdds,
+  computeRoundOutcome,
+  generatePriorPegMap,
+  ROWS,
+  MIN_ROWS,
+  MAX_ROWS,
+  isValidRowCount,
+  isValidDropColumn,
+  getBinCount,
+  LandingOdds,
+} from '@/lib/plinko-engine';
+import { getPaytable, isValidRisk, DEFAULT_RISK, RISK_LEVELS, RiskLevel } from '@/lib/payout';
+import {
+  ALGORITHMS,
+  CURRENT_ALGORITHM_VERSION,
+  getAlgorithm,
+  isKnownAlgorithmVersion,
+} from '@/lib/algorithms';
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const roundId = searchParams.get('roundId');
+
+    if (roundId) {
+      const player = await getSessionPlayer();
+      const round = await prisma.round.findUnique({ where: { id: roundId } });
+
+      if (!round || !canAccessRound(round, player)) {
+        return NextResponse.json({ error: 'Round not found' }, { status: 404 });
+      }
+
+      if (round.status !== 'REVEALED' || !round.serverSeed) {
+        return NextResponse.json(
+          { error: 'Exact odds are available once the round\'s seed pair is rotated' },
+          { status: 409 }
+        );
+      }
+
+      // Stored rounds are replayed only with a risk and algorithm this build knows
+      const risk = round.risk;
+      if (!isValidRisk(risk) || !isKnownAlgorithmVersion(round.algorithmVersion)) {
+        return NextResponse.json(
+          { error: `Round has an unknown risk (${risk}) or algorithm version (${round.algorithmVersion})` },
+          { status: 409 }
+        );
+      }
+
+      const { pegMap, pegMapHash } = computeRoundOutcome(
+        { serverSeed: round.serverSeed, clientSeed: round.clientSeed, nonce: round.nonce },
+        round.dropColumn,
+        round.rows,
+        round.algorithmVersion
+      );
+      const odds = computeLandingOdds(
+        pegMap,
+        round.dropColumn,
+        risk,
+        getAlgorithm(round.algorithmVersion)
+      );
+
+      return NextResponse.json({
+        mode: 'exact',
+        roundId: round.id,
+        pegMapHash,
+        binIndex: round.binIndex,
+        ...formatOdds(round.rows, round.dropColumn, risk, round.algorithmVersion, odds),
+      });
+    }
+
+    const rowsStr = searchParams.get('rows');
+    const dropColumnStr = searchParams.get('dropColumn');
+    const risk = searchParams.get('risk') ?? DEFAULT_RISK;
+    const algorithmVersion = searchParams.get('algorithm') ?? CURRENT_ALGORITHM_VERSION;
+
+    const rows = rowsStr ? parseInt(rowsStr, 10) : ROWS;
+    if (!isValidRowCount(rows)) {
+      return NextResponse.json(
+        { error: `rows must be a number between ${MIN_ROWS} and ${MAX_ROWS}` },
+        { status: 400 }
+      );
+    }
+
+    const dropColumn = dropColumnStr ? parseInt(dropColumnStr, 10) : Math.floor(rows / 2);
+    if (!isValidDropColumn(dropColumn, rows)) {
+      return NextResponse.json(
+        { error: `dropColumn must be a number between 0 and ${rows}` },
+        { status: 400 }
+      );
+    }
+
+    if (!isValidRisk(risk)) {
+      return NextResponse.json(
+        { error: `risk must be one of: ${RISK_LEVELS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (!isKnownAlgorithmVersion(algorithmVersion)) {
+      return NextResponse.json(
+        { error: `algorithm must be one of: ${Object.keys(ALGORITHMS).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const algorithm = getAlgorithm(algorithmVersion);
+    const odds = computeLandingOdds(
+      generatePriorPegMap(rows, algorithm),
+      dropColumn,
+      risk,
+      algorithm
+    );
+
+    return NextResponse.json({
+      mode: 'prior',
+      ...formatOdds(rows, dropColumn, risk, algorithmVersion, odds),
+    });
+  } catch (error) {
+    console.error('Error computing odds:', error);
+    return NextResponse.json(
+      { error: 'Failed to compute odds' },
+      { status: 500 }
+    );
+  }
+}
+
+function formatOdds(
+  rows: number,
+  dropColumn: number,
+  risk: RiskLevel,
+  algorithmVersion: string,
+  odds: LandingOdds
+) {
+  const paytable = getPaytable(rows, risk, algorithmVersion);
+
+  return {
+    rows,
+    bins: getBinCount(rows),
+    dropColumn,
+    risk,
+    algorithmVersion,
+    expectedMultiplier: odds.expectedMultiplier,
+    probabilities: odds.probabilities.map((probability, bin) => ({
+      bin,
+      probability,
+      multiplier: paytable[bin].multiplier,
+    })),
+  };
+}
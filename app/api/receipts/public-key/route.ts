@@ -0,0 +1,35 @@
+/**
+ * GET /api/receipts/public-key
+ *
+ * Publishes the operator's Ed25519 public key (raw, hex) that round receipts
+ * are signed with. 404 when the server has no signing key configured.
+ */
+
+import { NextResponse } from 'next/server';
+import { RECEIPT_ALGORITHM, RECEIPT_VERSION } from '@/lib/receipts';
+import { getOperatorPublicKey } from '@/lib/receipt-signing';
+
+export async function GET() {
+  try {
+    const publicKey = getOperatorPublicKey();
+
+    if (!publicKey) {
+      return NextResponse.json(
+        { error: 'Receipt signing is not configured' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      algorithm: RECEIPT_ALGORITHM,
+      receiptVersion: RECEIPT_VERSION,
+      publicKey,
+    });
+  } catch (error) {
+    console.error('Error loading receipt signing key:', error);
+    return NextResponse.json(
+      { error: 'Failed to load receipt signing key' },
+      { status: 500 }
+    );
+  }
+}
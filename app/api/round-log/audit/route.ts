@@ -0,0 +1,28 @@
+/**
+ * GET /api/round-log/audit
+ *
+ * Walks the hash-chained round log from the first entry, recomputing every
+ * entryHash and checking each prevHash link and published checkpoint.
+ * Reports the first broken link (an edited, deleted or relinked round).
+ */
+
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { auditStoredRoundLog } from '@/lib/round-log';
+
+export async function GET() {
+  try {
+    const audit = await auditStoredRoundLog(prisma);
+
+    return NextResponse.json({
+      ...audit,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error auditing round log:', error);
+    return NextResponse.json(
+      { error: 'Failed to audit round log' },
+      { status: 500 }
+    );
+  }
+}
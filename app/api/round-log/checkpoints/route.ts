@@ -0,0 +1,68 @@
+/**
+ * GET /api/round-log/checkpoints
+ *
+ * Lists published checkpoints of the round log head, newest first. One is
+ * taken automatically every ROUND_LOG_CHECKPOINT_INTERVAL logged rounds.
+ *
+ * POST /api/round-log/checkpoints
+ *
+ * Operator only: publishes a checkpoint of the current head (idempotent).
+ * Requires `Authorization: Bearer <OPERATOR_API_KEY>`.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { isOperator } from '@/lib/operator';
+import { ROUND_LOG_CHECKPOINT_INTERVAL, createRoundLogCheckpoint } from '@/lib/round-log';
+
+export async function GET() {
+  try {
+    const checkpoints = await prisma.roundLogCheckpoint.findMany({
+      orderBy: { logIndex: 'desc' },
+    });
+
+    return NextResponse.json({
+      interval: ROUND_LOG_CHECKPOINT_INTERVAL,
+      checkpoints: checkpoints.map((checkpoint) => ({
+        logIndex: checkpoint.logIndex,
+        headHash: checkpoint.headHash,
+        createdAt: checkpoint.createdAt.toISOString(),
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching round log checkpoints:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch round log checkpoints' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    if (!isOperator(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const checkpoint = await prisma.$transaction((tx) => createRoundLogCheckpoint(tx));
+
+    if (!checkpoint) {
+      return NextResponse.json(
+        { error: 'Round log is empty; no round has been revealed yet' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      logIndex: checkpoint.logIndex,
+      headHash: checkpoint.headHash,
+      createdAt: checkpoint.createdAt.toISOString(),
+    });
+  } catch (error) {
+    console.error('Error creating round log checkpoint:', error);
+    return NextResponse.json(
+      { error: 'Failed to create round log checkpoint' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * GET /api/rounds/[id]/bundle
+ *
+ * Downloads a revealed round as a versioned .plinko.json bundle (lib/bundle.ts):
+ * everything needed to re-verify it offline with verifyBundle(), including the
+ * paytable it paid out from. 409 for a stored round with an unknown risk,
+ * which has no paytable to bundle.
+ */
+
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createBundle, toBundleRound, BUNDLE_FILE_EXTENSION } from '@/lib/bundle';
+import { canAccessRound, getSessionPlayer } from '@/lib/session';
+import { isValidRisk } from '@/lib/payout';
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const player = await getSessionPlayer();
+
+    const round = await prisma.round.findUnique({
+      where: { id },
+      include: { seedPair: true },
+    });
+
+    if (!round || !canAccessRound(round, player)) {
+      return NextResponse.json({ error: 'Round not found' }, { status: 404 });
+    }
+
+    if (round.status !== 'REVEALED' || !round.serverSeed) {
+      return NextResponse.json(
+        { error: 'Round has not been revealed yet; rotate its seed pair first' },
+        { status: 409 }
+      );
+    }
+
+    if (!isValidRisk(round.risk)) {
+      return NextResponse.json(
+        { error: `Round has an unknown risk (${round.risk})` },
+        { status: 409 }
+      );
+    }
+
+    const bundle = createBundle([
+      toBundleRound(
+        { ...round, serverSeed: round.serverSeed },
+        round.seedPair?.serverSeedHash ?? null
+      ),
+    ]);
+
+    return new Response(JSON.stringify(bundle, null, 2), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Disposition': `attachment; filename="round-${round.id}${BUNDLE_FILE_EXTENSION}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error building round bundle:', error);
+    return NextResponse.json(
+      { error: 'Failed to build round bundle' },
+      { status: 500 }
+    );
+  }
+}
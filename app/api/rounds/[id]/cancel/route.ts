@@ -0,0 +1,54 @@
+/**
+ * POST /api/rounds/[id]/cancel
+ *
+ * Cancels a committed round that has not been started. Nothing was staked, so
+ * no ledger entries are written; the round simply becomes CANCELLED.
+ * Only the player who committed the round may cancel it; 409 with code
+ * ILLEGAL_TRANSITION once it has been started, expired or cancelled.
+ */
+
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getSessionPlayer } from '@/lib/session';
+import { IllegalRoundTransitionError, playerActor, transitionRound } from '@/lib/round-state';
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const player = await getSessionPlayer();
+    if (!player) {
+      return NextResponse.json({ error: 'Sign in to play' }, { status: 401 });
+    }
+
+    const round = await prisma.round.findUnique({ where: { id } });
+
+    // Other players' rounds are reported as missing
+    if (!round || round.playerId !== player.id) {
+      return NextResponse.json({ error: 'Round not found' }, { status: 404 });
+    }
+
+    const cancelled = await prisma.$transaction((tx) =>
+      transitionRound(tx, id, 'CREATED', 'CANCELLED', playerActor(player.id))
+    );
+
+    return NextResponse.json({
+      roundId: cancelled.id,
+      status: cancelled.status,
+    });
+  } catch (error) {
+    if (error instanceof IllegalRoundTransitionError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, status: error.from },
+        { status: 409 }
+      );
+    }
+    console.error('Error cancelling round:', error);
+    return NextResponse.json(
+      { error: 'Failed to cancel round' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * GET /api/rounds/[id]/proof
+ *
+ * Merkle inclusion proof that the round's commitHex is in its hourly
+ * commitment batch, whose root is published at GET /api/commitments/roots.
+ * 409 while the round's window is still open (with the time it seals), or
+ * when it closed without being sealed by its deadline, so it has no root.
+ */
+
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import {
+  COMMITMENT_BATCH_WINDOW_MS,
+  commitmentWindowStart,
+  commitmentWindowStatus,
+  getInclusionProof,
+} from '@/lib/commitment-batches';
+import { canAccessRound, getSessionPlayer } from '@/lib/session';
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const player = await getSessionPlayer();
+
+    const round = await prisma.round.findUnique({
+      where: { id },
+      select: { createdAt: true, playerId: true },
+    });
+
+    if (!round || !canAccessRound(round, player)) {
+      return NextResponse.json({ error: 'Round not found' }, { status: 404 });
+    }
+
+    const proof = await getInclusionProof(prisma, id);
+
+    if (!proof && commitmentWindowStatus(round.createdAt) === 'missed') {
+      return NextResponse.json(
+        { error: 'The commitment window of this round closed without being sealed in time, so it has no published root' },
+        { status: 409 }
+      );
+    }
+
+    if (!proof) {
+      const sealsAt = new Date(
+        commitmentWindowStart(round.createdAt).getTime() + COMMITMENT_BATCH_WINDOW_MS
+      );
+      return NextResponse.json(
+        {
+          error: 'The commitment batch for this round has not been sealed yet',
+          sealsAt: sealsAt.toISOString(),
+        },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(proof);
+  } catch (error) {
+    console.error('Error building inclusion proof:', error);
+    return NextResponse.json(
+      { error: 'Failed to build inclusion proof' },
+      { status: 500 }
+    );
+  }
+}
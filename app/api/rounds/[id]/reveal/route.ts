@@ -1,12 +1,28 @@
 /**
  * POST /api/rounds/[id]/reveal
  * 
- * Reveals the server seed after the round is complete.
- * This allows the client to verify the fairness of the outcome.
+ * Finalizes the round after it is complete.
+ * Rounds under a seed pair only get their server seed once the pair is rotated
+ * (POST /api/seeds/rotate); until then serverSeed is null and the published
+ * serverSeedHash is returned instead.
+ * Signs the outcome receipt when an operator signing key is configured, and
+ * appends the round to the hash-chained round log (lib/round-log.ts).
+ * Only the player who committed the round may reveal it, and only once it is
+ * STARTED (409 with code ILLEGAL_TRANSITION otherwise).
  */
 
 import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { outcomeReceiptPayload } from '@/lib/receipts';
+import { signReceipt } from '@/lib/receipt-signing';
+import { appendToRoundLog } from '@/lib/round-log';
+import { getSessionPlayer } from '@/lib/session';
+import {
+  IllegalRoundTransitionError,
+  assertRoundTransition,
+  playerActor,
+  transitionRound,
+} from '@/lib/round-state';
 
 export async function POST(
   request: Request,
@@ -14,42 +30,62 @@ export async function POST(
 ) {
   try {
     const { id } = await params;
+    const player = await getSessionPlayer();
+    if (!player) {
+      return NextResponse.json({ error: 'Sign in to play' }, { status: 401 });
+    }
+
 
     // Get the round
     const round = await prisma.round.findUnique({
       where: { id },
+      include: { seedPair: true },
     });
 
-    if (!round) {
+    // Other players' rounds are reported as missing
+    if (!round || round.playerId !== player.id) {
       return NextResponse.json({ error: 'Round not found' }, { status: 404 });
     }
 
-    if (round.status !== 'STARTED') {
-      return NextResponse.json(
-        { error: 'Round must be started before revealing' },
-        { status: 400 }
-      );
-    }
+    assertRoundTransition(round, 'REVEALED');
 
-    // Update status to REVEALED
-    const updatedRound = await prisma.round.update({
-      where: { id },
-      data: {
-        status: 'REVEALED',
-        revealedAt: new Date(),
-      },
+    const revealedAt = new Date();
+    const receipt = signReceipt(outcomeReceiptPayload(round, revealedAt));
+
+    // Update status to REVEALED and link the round into the log atomically
+    const updatedRound = await prisma.$transaction(async (tx) => {
+      const link = await appendToRoundLog(tx, { ...round, revealedAt });
+      return transitionRound(tx, id, 'STARTED', 'REVEALED', playerActor(player.id), {
+        revealedAt,
+        ...(receipt && { outcomeReceiptJson: JSON.parse(JSON.stringify(receipt)) }),
+        ...link,
+      });
     });
 
-    // Now we can reveal the server seed
+    // Server seed is only present if the seed pair has been rotated
     return NextResponse.json({
       roundId: updatedRound.id,
+      seedPairId: updatedRound.seedPairId,
+      serverSeedHash: round.seedPair?.serverSeedHash ?? null,
       serverSeed: updatedRound.serverSeed,
       nonce: updatedRound.nonce,
       clientSeed: updatedRound.clientSeed,
       commitHex: updatedRound.commitHex,
       combinedSeed: updatedRound.combinedSeed,
+      receipt,
+      log: {
+        logIndex: updatedRound.logIndex,
+        prevHash: updatedRound.prevHash,
+        entryHash: updatedRound.entryHash,
+      },
     });
   } catch (error) {
+    if (error instanceof IllegalRoundTransitionError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, status: error.from },
+        { status: 409 }
+      );
+    }
     console.error('Error revealing round:', error);
     return NextResponse.json(
       { error: 'Failed to reveal round' },
@@ -2,11 +2,16 @@
  * GET /api/rounds/[id]
  * 
  * Retrieves full details of a round.
- * Server seed is only included if the round has been revealed.
+ * Server seed is only included if the round has been revealed and its
+ * seed pair has been rotated. Other players' rounds are reported as missing;
+ * rounds from before accounts have no owner and are visible to everyone.
+ * `events` lists the round's status changes with their time and actor.
  */
 
 import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { toPublicSeedPair } from '@/lib/seed-pairs';
+import { canAccessRound, getSessionPlayer } from '@/lib/session';
 
 export async function GET(
   request: Request,
@@ -14,12 +19,17 @@ export async function GET(
 ) {
   try {
     const { id } = await params;
+    const player = await getSessionPlayer();
 
     const round = await prisma.round.findUnique({
       where: { id },
+      include: {
+        seedPair: { include: { chain: true } },
+        events: { orderBy: { createdAt: 'asc' } },
+      },
     });
 
-    if (!round) {
+    if (!round || !canAccessRound(round, player)) {
       return NextResponse.json({ error: 'Round not found' }, { status: 404 });
     }
 
@@ -29,9 +39,20 @@ export async function GET(
       id: round.id,
       createdAt: round.createdAt,
       status: round.status,
+      seedPairId: round.seedPairId,
+      serverSeedHash: round.seedPair?.serverSeedHash ?? null,
+      chain: round.seedPair ? toPublicSeedPair(round.seedPair).chain : null,
       nonce: round.nonce,
       commitHex: round.commitHex,
       rows: round.rows,
+      algorithmVersion: round.algorithmVersion,
+      commitReceipt: round.commitReceiptJson,
+      events: round.events.map((event) => ({
+        fromStatus: event.fromStatus,
+        toStatus: event.toStatus,
+        actor: event.actor,
+        createdAt: event.createdAt.toISOString(),
+      })),
     };
 
     // Include client seed and game data if started
@@ -39,11 +60,16 @@ export async function GET(
       response.clientSeed = round.clientSeed;
       response.dropColumn = round.dropColumn;
       response.binIndex = round.binIndex;
-      response.payoutMultiplier = round.payoutMultiplier;
+      response.binIndexes = round.binIndexesJson;
+      response.ballCount = round.ballCount;
+      response.risk = round.risk;
+      response.payoutMultiplierBps = round.payoutMultiplierBps;
+      response.currency = round.currency;
       response.betCents = round.betCents;
-      response.payout = round.betCents * round.payoutMultiplier;
+      response.payoutCents = round.totalPayoutCents;
       response.pegMapHash = round.pegMapHash;
       response.path = round.pathJson;
+      response.paths = round.pathsJson;
     }
 
     // Only reveal server seed if status is REVEALED
@@ -51,6 +77,12 @@ export async function GET(
       response.serverSeed = round.serverSeed;
       response.combinedSeed = round.combinedSeed;
       response.revealedAt = round.revealedAt;
+      response.outcomeReceipt = round.outcomeReceiptJson;
+      response.log = round.logIndex === null ? null : {
+        logIndex: round.logIndex,
+        prevHash: round.prevHash,
+        entryHash: round.entryHash,
+      };
     }
 
     return NextResponse.json(response);
@@ -1,15 +1,46 @@
 /**
  * POST /api/rounds/[id]/start
  * 
- * Starts a round with client seed, bet amount, and drop column.
+ * Starts a round with bet amount, drop column, and risk profile.
+ * Optional ballCount (1-100, default 1) drops several balls on the same peg
+ * map; betCents is the bet per ball, in minor units of the optional currency
+ * (default USD).
+ * The bet must be within the currency's limits (lib/limits.ts) and the round's
+ * maximum possible payout within its payout cap; otherwise 400 with a code of
+ * BET_BELOW_MIN, BET_ABOVE_MAX or PAYOUT_ABOVE_MAX and the limit that was hit.
+ * The client seed comes from the round's seed pair; a clientSeed in the body
+ * is optional and must match it (rotate the seed pair to change it).
  * Computes the outcome but does NOT reveal the server seed yet.
+ * Only the player who committed the round may start it. The stake
+ * (betCents * ballCount) is debited from their wallet in the round's currency
+ * and the payout credited in the same transaction that starts the round; 409
+ * if funds are insufficient.
+ * The round must be CREATED (409 with code ILLEGAL_TRANSITION otherwise). A
+ * round left unstarted past ROUND_EXPIRY_SECONDS, or whose seed pair has been
+ * rotated, is moved to EXPIRED instead and 409 is returned.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { generateCombinedSeed } from '@/lib/fairness';
-import { computePlinkoOutcome } from '@/lib/plinko-engine';
-import { getMultiplier } from '@/lib/payout';
+import {
+  computeRoundOutcome,
+  isValidDropColumn,
+  isValidBallCount,
+  MIN_BALLS,
+  MAX_BALLS,
+} from '@/lib/plinko-engine';
+import { calculateRoundPayout, isValidRisk, DEFAULT_RISK, RISK_LEVELS } from '@/lib/payout';
+import { getSessionPlayer } from '@/lib/session';
+import { CURRENCY_CODES, DEFAULT_CURRENCY, formatMoney, isValidCurrency } from '@/lib/currency';
+import { checkBetLimits, describeLimitViolation, getBetLimits } from '@/lib/limits';
+import { getOrCreateWallet, settleRoundWager } from '@/lib/wallet';
+import {
+  IllegalRoundTransitionError,
+  assertRoundTransition,
+  isRoundExpired,
+  playerActor,
+  transitionRound,
+} from '@/lib/round-state';
 
 export async function POST(
   request: NextRequest,
@@ -17,27 +48,53 @@ export async function POST(
 ) {
   try {
     const { id } = await params;
+    const player = await getSessionPlayer();
+    if (!player) {
+      return NextResponse.json({ error: 'Sign in to play' }, { status: 401 });
+    }
+
     const body = await request.json();
-    const { clientSeed, betCents, dropColumn } = body;
+    const {
+      clientSeed,
+      betCents,
+      dropColumn,
+      risk = DEFAULT_RISK,
+      ballCount = 1,
+      currency = DEFAULT_CURRENCY,
+    } = body;
 
     // Validate inputs
-    if (!clientSeed || typeof clientSeed !== 'string') {
+    if (clientSeed !== undefined && typeof clientSeed !== 'string') {
       return NextResponse.json(
-        { error: 'clientSeed is required and must be a string' },
+        { error: 'clientSeed must be a string' },
+        { status: 400 }
+      );
+    }
+
+    if (!isValidCurrency(currency)) {
+      return NextResponse.json(
+        { error: `currency must be one of: ${CURRENCY_CODES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (typeof betCents !== 'number' || !Number.isInteger(betCents) || betCents <= 0) {
+      return NextResponse.json(
+        { error: 'betCents must be a positive integer' },
         { status: 400 }
       );
     }
 
-    if (typeof betCents !== 'number' || betCents <= 0) {
+    if (!isValidRisk(risk)) {
       return NextResponse.json(
-        { error: 'betCents must be a positive number' },
+        { error: `risk must be one of: ${RISK_LEVELS.join(', ')}` },
         { status: 400 }
       );
     }
 
-    if (typeof dropColumn !== 'number' || dropColumn < 0 || dropColumn > 12) {
+    if (typeof ballCount !== 'number' || !isValidBallCount(ballCount)) {
       return NextResponse.json(
-        { error: 'dropColumn must be between 0 and 12' },
+        { error: `ballCount must be an integer between ${MIN_BALLS} and ${MAX_BALLS}` },
         { status: 400 }
       );
     }
@@ -45,59 +102,152 @@ export async function POST(
     // Get the round
     const round = await prisma.round.findUnique({
       where: { id },
+      include: { seedPair: true },
     });
 
-    if (!round) {
+    // Other players' rounds are reported as missing
+    if (!round || round.playerId !== player.id) {
       return NextResponse.json({ error: 'Round not found' }, { status: 404 });
     }
 
-    if (round.status !== 'CREATED') {
+    assertRoundTransition(round, 'STARTED');
+
+    // Once a seed pair is rotated its server seed is public, so no new
+    // round may be played under it
+    const seedPairRotated = round.seedPair !== null && round.seedPair.status !== 'ACTIVE';
+    if (seedPairRotated || isRoundExpired(round)) {
+      await prisma.$transaction((tx) => transitionRound(tx, id, 'CREATED', 'EXPIRED', 'system'));
+      return NextResponse.json(
+        {
+          error: seedPairRotated
+            ? 'Seed pair was rotated before this round started; commit a new round'
+            : 'Round expired before it was started; commit a new round',
+        },
+        { status: 409 }
+      );
+    }
+
+    // Checked against the board before the outcome is computed
+    const violation = checkBetLimits(getBetLimits(currency), betCents, ballCount, round.rows, risk);
+    if (violation) {
       return NextResponse.json(
-        { error: 'Round has already been started' },
+        {
+          error: describeLimitViolation(violation, currency),
+          code: violation.code,
+          limit: violation.limit,
+        },
         { status: 400 }
       );
     }
 
-    // Generate combined seed
-    const combinedSeed = generateCombinedSeed(
-      round.serverSeed!,
-      clientSeed,
-      round.nonce
+    // Drop column range depends on the board size chosen at commit time
+    if (typeof dropColumn !== 'number' || !isValidDropColumn(dropColumn, round.rows)) {
+      return NextResponse.json(
+        { error: `dropColumn must be between 0 and ${round.rows}` },
+        { status: 400 }
+      );
+    }
+
+    if (round.seedPair && clientSeed && clientSeed !== round.clientSeed) {
+      return NextResponse.json(
+        { error: 'clientSeed does not match the seed pair; rotate seeds to change it' },
+        { status: 400 }
+      );
+    }
+
+    // Rounds committed before seed pairs carry their own server seed and
+    // still take the client seed from the request
+    const serverSeed = round.seedPair?.serverSeed ?? round.serverSeed!;
+    const roundClientSeed = round.seedPair ? round.clientSeed : clientSeed;
+
+    if (!roundClientSeed) {
+      return NextResponse.json(
+        { error: 'clientSeed is required and must be a string' },
+        { status: 400 }
+      );
+    }
+
+    // Compute the combined seed and outcome with the algorithm version
+    // pinned at commit time
+    const outcome = computeRoundOutcome(
+      { serverSeed, clientSeed: roundClientSeed, nonce: round.nonce },
+      dropColumn,
+      round.rows,
+      round.algorithmVersion,
+      ballCount
     );
 
-    // Compute the outcome
-    const outcome = computePlinkoOutcome(combinedSeed, dropColumn);
+    // Integer minor units and basis points; the round multiplier is the balls' average
+    const { multipliersBps, totalPayoutCents, payoutMultiplierBps } = calculateRoundPayout(
+      betCents,
+      outcome.binIndexes,
+      round.rows,
+      risk,
+      round.algorithmVersion
+    );
 
-    // Get payout multiplier
-    const payoutMultiplier = getMultiplier(outcome.binIndex);
+    const stakeCents = betCents * ballCount;
 
-    // Update the round
-    const updatedRound = await prisma.round.update({
-      where: { id },
-      data: {
-        status: 'STARTED',
-        clientSeed,
-        combinedSeed,
+    // Settle the wager and start the round atomically
+    const wallet = await getOrCreateWallet(prisma, player.id, currency);
+    const result = await prisma.$transaction(async (tx) => {
+      const balanceCents = await settleRoundWager(tx, wallet.id, id, stakeCents, totalPayoutCents);
+      if (balanceCents === null) return null;
+
+      const round = await transitionRound(tx, id, 'CREATED', 'STARTED', playerActor(player.id), {
+        clientSeed: roundClientSeed,
+        combinedSeed: outcome.combinedSeed,
         pegMapHash: outcome.pegMapHash,
         dropColumn,
         binIndex: outcome.binIndex,
-        payoutMultiplier,
+        risk,
+        ballCount,
+        payoutMultiplierBps,
+        currency,
         betCents,
+        totalPayoutCents,
         pathJson: JSON.parse(JSON.stringify(outcome.path)),
-      },
+        pathsJson: JSON.parse(JSON.stringify(outcome.paths)),
+        binIndexesJson: outcome.binIndexes,
+      });
+      return { round, balanceCents };
     });
 
+    if (!result) {
+      return NextResponse.json(
+        { error: `Insufficient funds for a stake of ${formatMoney(stakeCents, currency)}` },
+        { status: 409 }
+      );
+    }
+    const updatedRound = result.round;
+
     // Return data WITHOUT revealing serverSeed
     return NextResponse.json({
       roundId: updatedRound.id,
+      clientSeed: updatedRound.clientSeed,
       pegMapHash: updatedRound.pegMapHash,
       rows: updatedRound.rows,
+      risk: updatedRound.risk,
+      algorithmVersion: updatedRound.algorithmVersion,
+      ballCount: updatedRound.ballCount,
       path: outcome.path,
       binIndex: outcome.binIndex,
-      payoutMultiplier: payoutMultiplier,
-      payout: betCents * payoutMultiplier,
+      paths: outcome.paths,
+      binIndexes: outcome.binIndexes,
+      multipliersBps,
+      payoutMultiplierBps,
+      currency: updatedRound.currency,
+      stakeCents,
+      payoutCents: totalPayoutCents,
+      balanceCents: result.balanceCents,
     });
   } catch (error) {
+    if (error instanceof IllegalRoundTransitionError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, status: error.from },
+        { status: 409 }
+      );
+    }
     console.error('Error starting round:', error);
     return NextResponse.json(
       { error: 'Failed to start round' },
@@ -0,0 +1,80 @@
+/**
+ * GET /api/rounds/[id]/verify
+ *
+ * Audits a revealed round against what the server stored for it.
+ * Checks commitHex (and the seed pair's serverSeedHash) against the revealed
+ * server seed, re-runs the engine with the round's algorithm version, and
+ * diffs combinedSeed, pegMapHash, binIndex, payoutMultiplierBps,
+ * totalPayoutCents and every entry of pathJson. Returns a pass/fail result per field plus an overall verdict.
+ */
+
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { verifyStoredRound } from '@/lib/round-verification';
+import { canAccessRound, getSessionPlayer } from '@/lib/session';
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const player = await getSessionPlayer();
+
+    const round = await prisma.round.findUnique({
+      where: { id },
+      include: { seedPair: true },
+    });
+
+    if (!round || !canAccessRound(round, player)) {
+      return NextResponse.json({ error: 'Round not found' }, { status: 404 });
+    }
+
+    // Rounds under a seed pair stay unverifiable until the pair is rotated
+    if (round.status !== 'REVEALED' || !round.serverSeed) {
+      return NextResponse.json(
+        { error: 'Round has not been revealed yet; rotate its seed pair first' },
+        { status: 409 }
+      );
+    }
+
+    const report = verifyStoredRound({
+      serverSeed: round.serverSeed,
+      serverSeedHash: round.seedPair?.serverSeedHash ?? null,
+      clientSeed: round.clientSeed,
+      nonce: round.nonce,
+      commitHex: round.commitHex,
+      combinedSeed: round.combinedSeed,
+      pegMapHash: round.pegMapHash,
+      rows: round.rows,
+      dropColumn: round.dropColumn,
+      binIndex: round.binIndex,
+      risk: round.risk,
+      algorithmVersion: round.algorithmVersion,
+      ballCount: round.ballCount,
+      betCents: round.betCents,
+      payoutMultiplierBps: round.payoutMultiplierBps,
+      totalPayoutCents: round.totalPayoutCents,
+      pathJson: round.pathJson,
+      pathsJson: round.pathsJson,
+      binIndexesJson: round.binIndexesJson,
+    });
+
+    return NextResponse.json({
+      roundId: round.id,
+      algorithmVersion: round.algorithmVersion,
+      ballCount: round.ballCount,
+      pass: report.pass,
+      failedFields: report.checks.filter((c) => !c.pass).map((c) => c.field),
+      checks: report.checks,
+      ...(report.error && { error: report.error }),
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error verifying stored round:', error);
+    return NextResponse.json(
+      { error: 'Failed to verify round' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,51 +1,103 @@
 /**
  * POST /api/rounds/commit
  * 
- * Creates a new round with server-generated seed and nonce.
- * Returns the commit hash (without revealing the server seed).
+ * Creates a new round for the signed-in player under their active seed pair,
+ * taking its next nonce. Returns 401 when signed out.
+ * Optional body: { rows } to pick the board size (8-16, default 12).
+ * The round is pinned to the current fairness algorithm version, and its
+ * creation is recorded as the first RoundEvent (lib/round-state.ts).
+ * Returns the commit hash (without revealing the server seed) and, when an
+ * operator signing key is configured, a signed commit receipt. Commitment
+ * windows that have closed since the last commit are sealed first
+ * (lib/commitment-batches.ts).
  */
 
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import {
-  generateSecureRandomHex,
-  generateNonce,
-  generateCommitHex,
-} from '@/lib/fairness';
-import { ROWS } from '@/lib/plinko-engine';
-
-export async function POST() {
+import { generateCommitHex } from '@/lib/fairness';
+import { reserveNonce, toPublicSeedPair } from '@/lib/seed-pairs';
+import { ROWS, MIN_ROWS, MAX_ROWS, isValidRowCount } from '@/lib/plinko-engine';
+import { CURRENT_ALGORITHM_VERSION } from '@/lib/algorithms';
+import { commitReceiptPayload } from '@/lib/receipts';
+import { signReceipt } from '@/lib/receipt-signing';
+import { getSessionPlayer } from '@/lib/session';
+import { playerActor, recordRoundCreated } from '@/lib/round-state';
+import { sealCommitmentBatches } from '@/lib/commitment-batches';
+
+export async function POST(request: NextRequest) {
   try {
-    // Generate server seed and nonce
-    const serverSeed = generateSecureRandomHex(32);
-    const nonce = generateNonce();
+    const player = await getSessionPlayer();
+    if (!player) {
+      return NextResponse.json({ error: 'Sign in to play' }, { status: 401 });
+    }
+
+    // Body is optional; an empty request keeps the default board size
+    const body = await request.json().catch(() => ({}));
+    const rows = body?.rows ?? ROWS;
+
+    if (typeof rows !== 'number' || !isValidRowCount(rows)) {
+      return NextResponse.json(
+        { error: `rows must be an integer between ${MIN_ROWS} and ${MAX_ROWS}` },
+        { status: 400 }
+      );
+    }
+
+    // Seal the windows that closed since the last commit before adding to the open one
+    await sealCommitmentBatches(prisma);
+
+    // Take the next nonce from the player's active seed pair
+    const { seedPair, nonce: nonceValue } = await reserveNonce(player.id);
+    const nonce = nonceValue.toString();
 
     // Generate commit hash (this is what we show to the client)
-    const commitHex = generateCommitHex(serverSeed, nonce);
+    const commitHex = generateCommitHex(seedPair.serverSeed, nonce);
 
     // Create the round in database with status CREATED
-    const round = await prisma.round.create({
-      data: {
-        status: 'CREATED',
-        nonce,
-        commitHex,
-        serverSeed, // Stored but not revealed yet
-        clientSeed: '', // Will be set when round starts
-        combinedSeed: '', // Will be computed when round starts
-        pegMapHash: '', // Will be computed when round starts
-        rows: ROWS,
-        dropColumn: 0, // Will be set when round starts
-        binIndex: 0, // Will be computed when round starts
-        payoutMultiplier: 0, // Will be computed when round starts
-        betCents: 0, // Will be set when round starts
-        pathJson: [], // Will be computed when round starts
-      },
+    const round = await prisma.$transaction(async (tx) => {
+      const created = await tx.round.create({
+        data: {
+          status: 'CREATED',
+          playerId: player.id,
+          seedPairId: seedPair.id,
+          nonce,
+          commitHex,
+          serverSeed: null, // Filled in when the seed pair is rotated
+          clientSeed: seedPair.clientSeed,
+          combinedSeed: '', // Will be computed when round starts
+          pegMapHash: '', // Will be computed when round starts
+          algorithmVersion: CURRENT_ALGORITHM_VERSION,
+          rows,
+          dropColumn: 0, // Will be set when round starts
+          binIndex: 0, // Will be computed when round starts
+          payoutMultiplierBps: 0, // Will be computed when round starts
+          betCents: 0, // Will be set when round starts
+          pathJson: [], // Will be computed when round starts
+        },
+      });
+      await recordRoundCreated(tx, created.id, playerActor(player.id));
+      return created;
     });
 
+    // The receipt covers the round id, so it is signed once the row exists
+    const receipt = signReceipt(commitReceiptPayload(round));
+    if (receipt) {
+      await prisma.round.update({
+        where: { id: round.id },
+        data: { commitReceiptJson: JSON.parse(JSON.stringify(receipt)) },
+      });
+    }
+
     return NextResponse.json({
       roundId: round.id,
       commitHex: round.commitHex,
       nonce: round.nonce,
+      rows: round.rows,
+      algorithmVersion: round.algorithmVersion,
+      seedPairId: seedPair.id,
+      serverSeedHash: seedPair.serverSeedHash,
+      clientSeed: round.clientSeed,
+      chain: toPublicSeedPair(seedPair).chain,
+      receipt,
     });
   } catch (error) {
     console.error('Error creating round:', error);
@@ -0,0 +1,31 @@
+/**
+ * POST /api/rounds/expire
+ *
+ * Operator only: moves every round committed more than ROUND_EXPIRY_SECONDS
+ * ago and never started to EXPIRED. Stale rounds are also expired one at a
+ * time when a player tries to start them. Returns { expired }.
+ * Requires `Authorization: Bearer <OPERATOR_API_KEY>`.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { isOperator } from '@/lib/operator';
+import { expireStaleRounds } from '@/lib/round-state';
+
+export async function POST(request: NextRequest) {
+  try {
+    if (!isOperator(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const expired = await expireStaleRounds(prisma, 'operator');
+
+    return NextResponse.json({ expired });
+  } catch (error) {
+    console.error('Error expiring rounds:', error);
+    return NextResponse.json(
+      { error: 'Failed to expire rounds' },
+      { status: 500 }
+    );
+  }
+}
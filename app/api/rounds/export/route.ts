@@ -1,11 +1,19 @@
 /**
- * GET /api/rounds/export?limit=100&status=REVEALED
+ * GET /api/rounds/export?limit=100&status=REVEALED&locale=en-US
  *
- * Returns a CSV file containing recent rounds. Default: revealed rounds, limit 100.
+ * Returns a CSV file containing the signed-in player's recent rounds.
+ * Default: revealed rounds, limit 100; status=ALL or any round status
+ * (lib/round-state.ts) picks others. 401 when signed out.
+ * Amounts are integers: betCents and totalPayoutCents in the round currency's
+ * minor units, and payoutMultiplierBps. The bet and totalPayout columns repeat
+ * them formatted for display, in the given locale or else the currency's own.
  */
 
 import { NextRequest } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { getSessionPlayer } from '@/lib/session';
+import { CurrencyCode, formatMoney, isValidLocale } from '@/lib/currency';
+import { ROUND_STATUSES, isRoundStatus } from '@/lib/round-state';
 
 function escapeCsv(value: any) {
   if (value === null || value === undefined) return '';
@@ -19,12 +27,24 @@ function escapeCsv(value: any) {
 
 export async function GET(request: NextRequest) {
   try {
+    const player = await getSessionPlayer();
+    if (!player) {
+      return new Response('Sign in to export your rounds', { status: 401 });
+    }
+
     const url = request.nextUrl;
     const limitStr = url.searchParams.get('limit') || '100';
     const status = url.searchParams.get('status') || 'REVEALED';
     const limit = Math.min(Math.max(parseInt(limitStr, 10) || 100, 1), 1000);
+    if (status !== 'ALL' && !isRoundStatus(status)) {
+      return new Response(`status must be ALL or one of: ${ROUND_STATUSES.join(', ')}`, { status: 400 });
+    }
+    const locale = url.searchParams.get('locale') ?? undefined;
+    if (locale !== undefined && !isValidLocale(locale)) {
+      return new Response('locale must be a BCP 47 language tag, e.g. en-US', { status: 400 });
+    }
 
-    const where: any = {};
+    const where: any = { playerId: player.id };
     if (status !== 'ALL') {
       where.status = status;
     }
@@ -35,17 +55,24 @@ export async function GET(request: NextRequest) {
       take: limit,
       select: {
         id: true,
+        seedPairId: true,
         commitHex: true,
         nonce: true,
         clientSeed: true,
         serverSeed: true,
         combinedSeed: true,
         pegMapHash: true,
+        algorithmVersion: true,
         rows: true,
         dropColumn: true,
         binIndex: true,
-        payoutMultiplier: true,
+        binIndexesJson: true,
+        ballCount: true,
+        risk: true,
+        payoutMultiplierBps: true,
+        currency: true,
         betCents: true,
+        totalPayoutCents: true,
         pathJson: true,
         status: true,
         createdAt: true,
@@ -55,6 +82,7 @@ export async function GET(request: NextRequest) {
 
     const headers = [
       'roundId',
+      'seedPairId',
       'status',
       'commitHex',
       'nonce',
@@ -62,11 +90,19 @@ export async function GET(request: NextRequest) {
       'clientSeed',
       'combinedSeed',
       'pegMapHash',
+      'algorithmVersion',
       'rows',
       'dropColumn',
       'binIndex',
-      'payoutMultiplier',
+      'ballCount',
+      'binIndexes',
+      'risk',
+      'payoutMultiplierBps',
+      'currency',
       'betCents',
+      'totalPayoutCents',
+      'bet',
+      'totalPayout',
       'createdAt',
       'revealedAt',
     ];
@@ -74,8 +110,10 @@ export async function GET(request: NextRequest) {
     const rows = [headers.join(',')];
 
     for (const r of rounds) {
+      const currency = r.currency as CurrencyCode;
       const row = [
         escapeCsv(r.id),
+        escapeCsv(r.seedPairId),
         escapeCsv(r.status),
         escapeCsv(r.commitHex),
         escapeCsv(r.nonce),
@@ -83,11 +121,19 @@ export async function GET(request: NextRequest) {
         escapeCsv(r.clientSeed),
         escapeCsv(r.combinedSeed),
         escapeCsv(r.pegMapHash),
+        escapeCsv(r.algorithmVersion),
         escapeCsv(r.rows),
         escapeCsv(r.dropColumn),
         escapeCsv(r.binIndex),
-        escapeCsv(r.payoutMultiplier),
+        escapeCsv(r.ballCount),
+        escapeCsv(JSON.stringify(r.binIndexesJson)),
+        escapeCsv(r.risk),
+        escapeCsv(r.payoutMultiplierBps),
+        escapeCsv(r.currency),
         escapeCsv(r.betCents),
+        escapeCsv(r.totalPayoutCents),
+        escapeCsv(formatMoney(r.betCents, currency, locale)),
+        escapeCsv(formatMoney(r.totalPayoutCents, currency, locale)),
         escapeCsv(r.createdAt?.toISOString()),
         escapeCsv(r.revealedAt?.toISOString()),
       ];
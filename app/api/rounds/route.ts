@@ -1,15 +1,21 @@
 /**
  * GET /api/rounds?limit=20
  * 
- * Returns recent rounds for session history/log.
- * Only returns revealed rounds with complete data.
+ * Returns the signed-in player's recent rounds for session history/log.
+ * Only returns revealed rounds with complete data. 401 when signed out.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { getSessionPlayer } from '@/lib/session';
 
 export async function GET(request: NextRequest) {
   try {
+    const player = await getSessionPlayer();
+    if (!player) {
+      return NextResponse.json({ error: 'Sign in to see your rounds' }, { status: 401 });
+    }
+
     const searchParams = request.nextUrl.searchParams;
     const limitStr = searchParams.get('limit');
     const limit = limitStr ? parseInt(limitStr, 10) : 20;
@@ -22,9 +28,10 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Fetch recent revealed rounds
+    // Fetch the player's recent revealed rounds
     const rounds = await prisma.round.findMany({
       where: {
+        playerId: player.id,
         status: 'REVEALED',
       },
       orderBy: {
@@ -33,18 +40,29 @@ export async function GET(request: NextRequest) {
       take: limit,
       select: {
         id: true,
+        seedPairId: true,
+        seedPair: {
+          select: { chainIndex: true, chain: { select: { terminalHash: true } } },
+        },
         commitHex: true,
         nonce: true,
         clientSeed: true,
         serverSeed: true,
         combinedSeed: true,
         pegMapHash: true,
+        algorithmVersion: true,
         rows: true,
         dropColumn: true,
         binIndex: true,
-        payoutMultiplier: true,
+        binIndexesJson: true,
+        ballCount: true,
+        risk: true,
+        payoutMultiplierBps: true,
+        currency: true,
         betCents: true,
+        totalPayoutCents: true,
         pathJson: true,
+        pathsJson: true,
         status: true,
         createdAt: true,
         revealedAt: true,
@@ -52,26 +70,51 @@ export async function GET(request: NextRequest) {
     });
 
     return NextResponse.json({
-      rounds: rounds.map((round) => ({
-        roundId: round.id,
-        commitHex: round.commitHex,
-        nonce: round.nonce,
-        clientSeed: round.clientSeed,
-        serverSeed: round.serverSeed,
-        combinedSeed: round.combinedSeed,
-        pegMapHash: round.pegMapHash,
-        rows: round.rows,
-        dropColumn: round.dropColumn,
-        binIndex: round.binIndex,
-        payoutMultiplier: round.payoutMultiplier,
-        betCents: round.betCents,
-        path: round.pathJson,
-        status: round.status,
-        createdAt: round.createdAt.toISOString(),
-        revealedAt: round.revealedAt?.toISOString(),
-        // Generate verifier link
-        verifyLink: `/verify?serverSeed=${encodeURIComponent(round.serverSeed!)}&clientSeed=${encodeURIComponent(round.clientSeed)}&nonce=${encodeURIComponent(round.nonce)}&dropColumn=${round.dropColumn}`,
-      })),
+      rounds: rounds.map((round) => {
+        const verifyParams = new URLSearchParams({
+          serverSeed: round.serverSeed ?? '',
+          clientSeed: round.clientSeed,
+          nonce: round.nonce,
+          dropColumn: round.dropColumn.toString(),
+          rows: round.rows.toString(),
+          algorithm: round.algorithmVersion,
+          ballCount: round.ballCount.toString(),
+        });
+        if (round.seedPair?.chain && round.seedPair.chainIndex !== null) {
+          verifyParams.set('chainIndex', round.seedPair.chainIndex.toString());
+          verifyParams.set('terminalHash', round.seedPair.chain.terminalHash);
+        }
+
+        return {
+          roundId: round.id,
+          seedPairId: round.seedPairId,
+          commitHex: round.commitHex,
+          nonce: round.nonce,
+          clientSeed: round.clientSeed,
+          serverSeed: round.serverSeed,
+          combinedSeed: round.combinedSeed,
+          pegMapHash: round.pegMapHash,
+          algorithmVersion: round.algorithmVersion,
+          rows: round.rows,
+          dropColumn: round.dropColumn,
+          binIndex: round.binIndex,
+          binIndexes: round.binIndexesJson,
+          ballCount: round.ballCount,
+          risk: round.risk,
+          payoutMultiplierBps: round.payoutMultiplierBps,
+          currency: round.currency,
+          betCents: round.betCents,
+          totalPayoutCents: round.totalPayoutCents,
+          path: round.pathJson,
+          paths: round.pathsJson,
+          status: round.status,
+          createdAt: round.createdAt.toISOString(),
+          revealedAt: round.revealedAt?.toISOString(),
+          chainIndex: round.seedPair?.chainIndex ?? null,
+          // Generate verifier link (once the seed pair has been rotated)
+          verifyLink: round.serverSeed ? `/verify?${verifyParams}` : null,
+        };
+      }),
       count: rounds.length,
       limit,
     });
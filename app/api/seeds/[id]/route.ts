@@ -0,0 +1,82 @@
+/**
+ * GET /api/seeds/[id]
+ *
+ * Returns a seed pair and the rounds played under it that the session player
+ * may see (their own and unowned ones), ordered by nonce. Another player's
+ * pair is 404.
+ * Once the pair is rotated the server seed is included so every round can be
+ * re-verified.
+ */
+
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { toPublicSeedPair } from '@/lib/seed-pairs';
+import { accessibleRoundsWhere, getSessionPlayer } from '@/lib/session';
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const player = await getSessionPlayer();
+
+    const seedPair = await prisma.seedPair.findUnique({
+      where: { id },
+      include: {
+        chain: true,
+        rounds: {
+          where: { status: { in: ['STARTED', 'REVEALED'] }, ...accessibleRoundsWhere(player) },
+          select: {
+            id: true,
+            status: true,
+            nonce: true,
+            commitHex: true,
+            combinedSeed: true,
+            pegMapHash: true,
+            algorithmVersion: true,
+            rows: true,
+            dropColumn: true,
+            binIndex: true,
+            binIndexesJson: true,
+            ballCount: true,
+            risk: true,
+            payoutMultiplierBps: true,
+          },
+        },
+      },
+    });
+
+    if (!seedPair || (seedPair.playerId !== null && seedPair.playerId !== player?.id)) {
+      return NextResponse.json({ error: 'Seed pair not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      ...toPublicSeedPair(seedPair),
+      rounds: seedPair.rounds
+        .map((round) => ({
+          roundId: round.id,
+          status: round.status,
+          nonce: round.nonce,
+          commitHex: round.commitHex,
+          combinedSeed: round.combinedSeed,
+          pegMapHash: round.pegMapHash,
+          algorithmVersion: round.algorithmVersion,
+          rows: round.rows,
+          dropColumn: round.dropColumn,
+          binIndex: round.binIndex,
+          binIndexes: round.binIndexesJson,
+          ballCount: round.ballCount,
+          risk: round.risk,
+          payoutMultiplierBps: round.payoutMultiplierBps,
+        }))
+        .sort((a, b) => Number(a.nonce) - Number(b.nonce)),
+    });
+  } catch (error) {
+    console.error('Error fetching seed pair:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch seed pair' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * POST /api/seeds/rotate
+ *
+ * Reveals the signed-in player's active server seed and activates their
+ * upcoming pair, whose server seed hash GET /api/seeds already published.
+ * Optional body: { clientSeed } for the activated pair (random if omitted).
+ * Every round played under the previous pair becomes verifiable. Returns 401
+ * when signed out and 409 when no upcoming pair was committed yet or another
+ * rotation got there first.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { rotateSeedPair, toPublicSeedPair, SeedPairRotationError } from '@/lib/seed-pairs';
+import { getSessionPlayer } from '@/lib/session';
+
+export async function POST(request: NextRequest) {
+  try {
+    const player = await getSessionPlayer();
+    if (!player) {
+      return NextResponse.json({ error: 'Sign in to rotate your seed pair' }, { status: 401 });
+    }
+
+    // Body is optional; an empty request generates a random client seed
+    const body = await request.json().catch(() => ({}));
+    const clientSeed = body?.clientSeed;
+
+    if (clientSeed !== undefined && (typeof clientSeed !== 'string' || !clientSeed)) {
+      return NextResponse.json(
+        { error: 'clientSeed must be a non-empty string' },
+        { status: 400 }
+      );
+    }
+
+    const { previous, next, upcoming } = await rotateSeedPair(player.id, clientSeed);
+
+    return NextResponse.json({
+      previous: toPublicSeedPair(previous),
+      next: toPublicSeedPair(next),
+      upcomingServerSeedHash: upcoming.serverSeedHash,
+    });
+  } catch (error) {
+    if (error instanceof SeedPairRotationError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: 409 }
+      );
+    }
+    console.error('Error rotating seed pair:', error);
+    return NextResponse.json(
+      { error: 'Failed to rotate seed pair' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * GET /api/seeds
+ *
+ * Returns the signed-in player's active seed pair: its published server seed
+ * hash, client seed and the nonce the next round will use. The server seed
+ * stays hidden. Also returns `upcomingServerSeedHash`, the hash of the server
+ * seed the next rotation activates, so it is committed before the player
+ * picks a client seed for it. Returns 401 when signed out.
+ */
+
+import { NextResponse } from 'next/server';
+import { getPlayerSeedPairs, toPublicSeedPair } from '@/lib/seed-pairs';
+import { getSessionPlayer } from '@/lib/session';
+
+export async function GET() {
+  try {
+    const player = await getSessionPlayer();
+    if (!player) {
+      return NextResponse.json({ error: 'Sign in to see your seed pair' }, { status: 401 });
+    }
+
+    const { active, upcoming } = await getPlayerSeedPairs(player.id);
+
+    return NextResponse.json({
+      ...toPublicSeedPair(active),
+      upcomingServerSeedHash: upcoming.serverSeedHash,
+    });
+  } catch (error) {
+    console.error('Error fetching seed pair:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch seed pair' },
+      { status: 500 }
+    );
+  }
+}
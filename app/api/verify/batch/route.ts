@@ -0,0 +1,61 @@
+/**
+ * POST /api/verify/batch
+ *
+ * Re-verifies up to 5000 rounds in one request. The body is either the CSV
+ * produced by GET /api/rounds/export (Content-Type: text/csv) or JSON: an array
+ * of records with the same column names, or { rounds: [...] }. Each round's
+ * commitHex, combinedSeed, pegMapHash and binIndex (plus binIndexes when
+ * present) are recomputed from its seeds; the response reports pass, fail
+ * (with the mismatched fields) or error per row.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { generateCommitHex } from '@/lib/fairness';
+import { computeRoundOutcome } from '@/lib/plinko-engine';
+import {
+  MAX_BATCH_ROUNDS,
+  parseRoundRecords,
+  verifyRoundRecords,
+} from '@/lib/batch-verify';
+
+export async function POST(request: NextRequest) {
+  try {
+    let records: unknown[];
+    try {
+      records = parseRoundRecords(await request.text());
+    } catch (parseError) {
+      return NextResponse.json(
+        {
+          error: `Body must be export CSV or a JSON array of rounds: ${
+            parseError instanceof Error ? parseError.message : String(parseError)
+          }`,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (records.length === 0) {
+      return NextResponse.json({ error: 'No rounds to verify' }, { status: 400 });
+    }
+
+    if (records.length > MAX_BATCH_ROUNDS) {
+      return NextResponse.json(
+        { error: `At most ${MAX_BATCH_ROUNDS} rounds can be verified at once` },
+        { status: 400 }
+      );
+    }
+
+    const report = await verifyRoundRecords(records, { generateCommitHex, computeRoundOutcome });
+
+    return NextResponse.json({
+      ...report,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error batch verifying rounds:', error);
+    return NextResponse.json(
+      { error: 'Failed to verify rounds' },
+      { status: 500 }
+    );
+  }
+}
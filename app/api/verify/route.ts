@@ -2,15 +2,41 @@
  * GET /api/verify
  * 
  * Public verifier endpoint that recomputes outcomes from seeds.
+ * Optional `rows` query parameter selects the board size (default 12).
+ * Optional `chainIndex` and `terminalHash` check where the server seed sits in
+ * a published hash chain.
+ * Optional `algorithm` selects the fairness algorithm version the round was
+ * played with; links that predate versioning default to the original one.
+ * Optional `ballCount` (default 1) replays every ball of a multi-ball round.
+ * Optional `explain=1` adds the full computation trace (hashed strings, PRNG
+ * seeding, every PRNG output and drop step) for independent re-implementation.
  * This allows anyone to verify the fairness of a round.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import {
+  generateServerSeedHash,
   generateCommitHex,
-  generateCombinedSeed,
+  verifyChainPosition,
+  MAX_CHAIN_LENGTH,
 } from '@/lib/fairness';
-import { computePlinkoOutcome } from '@/lib/plinko-engine';
+import {
+  computeRoundOutcome,
+  explainRound,
+  ROWS,
+  MIN_ROWS,
+  MAX_ROWS,
+  isValidRowCount,
+  isValidDropColumn,
+  isValidBallCount,
+  MIN_BALLS,
+  MAX_BALLS,
+} from '@/lib/plinko-engine';
+import {
+  ALGORITHMS,
+  LEGACY_ALGORITHM_VERSION,
+  isKnownAlgorithmVersion,
+} from '@/lib/algorithms';
 
 export async function GET(request: NextRequest) {
   try {
@@ -19,6 +45,12 @@ export async function GET(request: NextRequest) {
     const clientSeed = searchParams.get('clientSeed');
     const nonce = searchParams.get('nonce');
     const dropColumnStr = searchParams.get('dropColumn');
+    const rowsStr = searchParams.get('rows');
+    const ballCountStr = searchParams.get('ballCount');
+    const chainIndexStr = searchParams.get('chainIndex');
+    const terminalHash = searchParams.get('terminalHash');
+    const algorithmVersion = searchParams.get('algorithm') ?? LEGACY_ALGORITHM_VERSION;
+    const explain = searchParams.get('explain') === '1' || searchParams.get('explain') === 'true';
 
     // Validate inputs
     if (!serverSeed || !clientSeed || !nonce || !dropColumnStr) {
@@ -31,18 +63,67 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    const rows = rowsStr ? parseInt(rowsStr, 10) : ROWS;
+    if (!isValidRowCount(rows)) {
+      return NextResponse.json(
+        { error: `rows must be a number between ${MIN_ROWS} and ${MAX_ROWS}` },
+        { status: 400 }
+      );
+    }
+
     const dropColumn = parseInt(dropColumnStr, 10);
-    if (isNaN(dropColumn) || dropColumn < 0 || dropColumn > 12) {
+    if (!isValidDropColumn(dropColumn, rows)) {
+      return NextResponse.json(
+        { error: `dropColumn must be a number between 0 and ${rows}` },
+        { status: 400 }
+      );
+    }
+
+    const ballCount = ballCountStr ? parseInt(ballCountStr, 10) : 1;
+    if (!isValidBallCount(ballCount)) {
       return NextResponse.json(
-        { error: 'dropColumn must be a number between 0 and 12' },
+        { error: `ballCount must be a number between ${MIN_BALLS} and ${MAX_BALLS}` },
+        { status: 400 }
+      );
+    }
+
+    if (!isKnownAlgorithmVersion(algorithmVersion)) {
+      return NextResponse.json(
+        { error: `algorithm must be one of: ${Object.keys(ALGORITHMS).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const chainIndex = chainIndexStr ? parseInt(chainIndexStr, 10) : null;
+    if (
+      chainIndex !== null &&
+      (isNaN(chainIndex) || chainIndex < 0 || chainIndex >= MAX_CHAIN_LENGTH || !terminalHash)
+    ) {
+      return NextResponse.json(
+        { error: `chainIndex must be a number between 0 and ${MAX_CHAIN_LENGTH - 1} and requires terminalHash` },
         { status: 400 }
       );
     }
 
     // Recompute all values
     const commitHex = generateCommitHex(serverSeed, nonce);
-    const combinedSeed = generateCombinedSeed(serverSeed, clientSeed, nonce);
-    const outcome = computePlinkoOutcome(combinedSeed, dropColumn);
+    const outcome = computeRoundOutcome(
+      { serverSeed, clientSeed, nonce },
+      dropColumn,
+      rows,
+      algorithmVersion,
+      ballCount
+    );
+    const serverSeedHash = generateServerSeedHash(serverSeed);
+    const trace = explain
+      ? await explainRound(
+          { serverSeed, clientSeed, nonce },
+          dropColumn,
+          rows,
+          algorithmVersion,
+          ballCount
+        )
+      : undefined;
 
     // Return verification data
     return NextResponse.json({
@@ -51,14 +132,33 @@ export async function GET(request: NextRequest) {
         clientSeed,
         nonce,
         dropColumn,
+        rows,
+        algorithmVersion,
+        ballCount,
+        chainIndex,
+        terminalHash,
       },
       computed: {
+        serverSeedHash,
         commitHex,
-        combinedSeed,
+        combinedSeed: outcome.combinedSeed,
         pegMapHash: outcome.pegMapHash,
         binIndex: outcome.binIndex,
         path: outcome.path,
+        binIndexes: outcome.binIndexes,
+        paths: outcome.paths,
+        // Predecessor link is SHA256(serverSeed); hashing index + 1 times reaches the terminal hash
+        chain:
+          chainIndex !== null && terminalHash
+            ? {
+                index: chainIndex,
+                predecessor: serverSeedHash,
+                terminalHash,
+                positionValid: verifyChainPosition(serverSeed, chainIndex, terminalHash),
+              }
+            : null,
       },
+      ...(trace && { explain: trace }),
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
@@ -0,0 +1,47 @@
+/**
+ * GET /api/wallet/reconcile?currency=USD
+ *
+ * Reconciles the signed-in player's wallet in a currency (default USD): the
+ * stored balance must equal the sum of its WALLET ledger entries, and every
+ * transaction's entries must sum to zero. Returns { balanced, balanceCents,
+ * ledgerBalanceCents, entryCount, unbalancedTransactions }. 401 when signed
+ * out; 400 for an unsupported currency.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getSessionPlayer } from '@/lib/session';
+import { CURRENCY_CODES, DEFAULT_CURRENCY, isValidCurrency } from '@/lib/currency';
+import { reconcileWallet } from '@/lib/wallet';
+
+export async function GET(request: NextRequest) {
+  try {
+    const player = await getSessionPlayer();
+    if (!player) {
+      return NextResponse.json({ error: 'Sign in to see your wallet' }, { status: 401 });
+    }
+
+    const currency = request.nextUrl.searchParams.get('currency') ?? DEFAULT_CURRENCY;
+    if (!isValidCurrency(currency)) {
+      return NextResponse.json(
+        { error: `currency must be one of: ${CURRENCY_CODES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const wallet = await prisma.wallet.findUnique({
+      where: { playerId_currency: { playerId: player.id, currency } },
+    });
+    if (!wallet) {
+      return NextResponse.json({ error: 'Wallet not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(await reconcileWallet(prisma, wallet));
+  } catch (error) {
+    console.error('Error reconciling wallet:', error);
+    return NextResponse.json(
+      { error: 'Failed to reconcile wallet' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * GET /api/wallet?currency=USD
+ *
+ * Returns the signed-in player's wallet balance in a currency (default USD),
+ * opening the wallet with its starting grant on first use. 401 when signed
+ * out; 400 for an unsupported currency.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getSessionPlayer } from '@/lib/session';
+import { CURRENCY_CODES, DEFAULT_CURRENCY, isValidCurrency } from '@/lib/currency';
+import { getOrCreateWallet, toPublicWallet } from '@/lib/wallet';
+
+export async function GET(request: NextRequest) {
+  try {
+    const player = await getSessionPlayer();
+    if (!player) {
+      return NextResponse.json({ error: 'Sign in to see your wallet' }, { status: 401 });
+    }
+
+    const currency = request.nextUrl.searchParams.get('currency') ?? DEFAULT_CURRENCY;
+    if (!isValidCurrency(currency)) {
+      return NextResponse.json(
+        { error: `currency must be one of: ${CURRENCY_CODES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const wallet = await getOrCreateWallet(prisma, player.id, currency);
+
+    return NextResponse.json(toPublicWallet(wallet));
+  } catch (error) {
+    console.error('Error fetching wallet:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch wallet' },
+      { status: 500 }
+    );
+  }
+}
@@ -5,7 +5,7 @@
 
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import Link from 'next/link';
 import PlinkoBoard from '@/components/PlinkoBoard';
 import GameControls from '@/components/GameControls';
@@ -14,12 +14,29 @@ import RoundInfo from '@/components/RoundInfo';
 import MuteToggle from '@/components/MuteToggle';
 import ThemeToggle from '@/components/ThemeToggle';
 import Confetti from '@/components/Confetti';
+import AccountPanel from '@/components/AccountPanel';
 import { PathDecision } from '@/lib/plinko-engine';
+import { ROWS } from '@/lib/board';
+import { BPS_PER_MULTIPLIER, DEFAULT_RISK, RiskLevel } from '@/lib/payout';
+import { CurrencyCode, DEFAULT_CURRENCY } from '@/lib/currency';
+import type { BetLimits } from '@/lib/limits';
+import type { RoundReceipt } from '@/lib/receipts';
+import type { PublicPlayer } from '@/lib/session';
 import { useSoundEffects } from '@/lib/useSoundEffects';
 import { useReducedMotion } from '@/lib/useReducedMotion';
 
+interface ActiveSeedPair {
+  seedPairId: string;
+  serverSeedHash: string;
+  clientSeed: string;
+  upcomingServerSeedHash?: string; // Server seed the next rotation activates, committed up front
+}
+
 interface RoundData {
   roundId: string;
+  seedPairId?: string;
+  serverSeedHash?: string;
+  chain?: { chainIndex: number; terminalHash: string } | null;
   commitHex: string;
   nonce: string;
   clientSeed: string;
@@ -27,17 +44,35 @@ interface RoundData {
   pegMapHash: string;
   path: PathDecision[];
   binIndex: number;
-  payoutMultiplier: number;
-  payout: number;
+  paths: PathDecision[][];
+  binIndexes: number[];
+  ballCount: number;
+  payoutMultiplierBps: number;
+  payoutCents: number;
+  currency: CurrencyCode;
   status: string;
   dropColumn: number;
+  rows: number;
+  risk: RiskLevel;
+  algorithmVersion: string;
+  commitReceipt: RoundReceipt | null;
+  outcomeReceipt?: RoundReceipt | null;
 }
 
 export default function Home() {
   const [isPlaying, setIsPlaying] = useState(false);
+  const [rows, setRows] = useState(ROWS);
+  const [risk, setRisk] = useState<RiskLevel>(DEFAULT_RISK);
+  const [currency, setCurrency] = useState<CurrencyCode>(DEFAULT_CURRENCY);
+  const [betCents, setBetCents] = useState(100); // $1.00
   const [currentRound, setCurrentRound] = useState<RoundData | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [showConfetti, setShowConfetti] = useState(false);
+  const [seedPair, setSeedPair] = useState<ActiveSeedPair | null>(null);
+  const [lastRotatedSeedPairId, setLastRotatedSeedPairId] = useState<string | null>(null);
+  const [player, setPlayer] = useState<PublicPlayer | null>(null);
+  const [balanceCents, setBalanceCents] = useState<number | null>(null);
+  const [betLimits, setBetLimits] = useState<Record<CurrencyCode, BetLimits> | null>(null);
   
   // Sound effects hook
   const { isMuted, toggleMute, playPegSound, playLandingSound, playWinSound } = useSoundEffects();
@@ -45,7 +80,92 @@ export default function Home() {
   // Accessibility: Detect reduced motion preference
   const prefersReducedMotion = useReducedMotion();
 
-  const handleDrop = async (dropColumn: number, betCents: number, clientSeed: string) => {
+  // Load the player's active seed pair so we know its client seed, published
+  // hash and the upcoming server seed hash a new client seed is paired with
+  useEffect(() => {
+    if (!player) {
+      setSeedPair(null);
+      return;
+    }
+    fetch('/api/seeds')
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => data && setSeedPair(data))
+      .catch((err) => console.error('Failed to load seed pair:', err));
+  }, [player]);
+
+  // Bet bounds and quick bets come from the limits the server enforces
+  useEffect(() => {
+    fetch('/api/config/limits')
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => data && setBetLimits(data.limits))
+      .catch((err) => console.error('Failed to load bet limits:', err));
+  }, []);
+
+  // Rounds belong to the signed-in player; restore their session on load
+  useEffect(() => {
+    fetch('/api/auth/me')
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => data && setPlayer(data.player))
+      .catch((err) => console.error('Failed to load session:', err));
+  }, []);
+
+  // Bets are debited from the player's wallet in the selected currency; show its balance
+  useEffect(() => {
+    if (!player) return;
+    fetch(`/api/wallet?currency=${currency}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => data && setBalanceCents(data.balanceCents))
+      .catch((err) => console.error('Failed to load wallet:', err));
+  }, [player, currency]);
+
+  const handlePlayerChange = useCallback((next: PublicPlayer | null) => {
+    setPlayer(next);
+    setBalanceCents(null);
+  }, []);
+
+  // Keep the bet inside the new currency's limits
+  const handleCurrencyChange = useCallback((next: CurrencyCode) => {
+    setCurrency(next);
+    setBalanceCents(null);
+    const limits = betLimits?.[next];
+    if (limits) {
+      setBetCents((bet) => Math.min(Math.max(bet, limits.minBet), limits.maxBet));
+    }
+  }, [betLimits]);
+
+  /**
+   * Reveal the active server seed and commit a new one.
+   * Rounds played under the old pair become verifiable.
+   */
+  const rotateSeeds = useCallback(async (clientSeed?: string) => {
+    const res = await fetch('/api/seeds/rotate', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(clientSeed ? { clientSeed } : {}),
+    });
+
+    if (!res.ok) {
+      throw new Error('Failed to rotate seeds');
+    }
+
+    const { previous, next, upcomingServerSeedHash } = await res.json();
+    setSeedPair({ ...next, upcomingServerSeedHash });
+    setLastRotatedSeedPairId(previous.seedPairId);
+
+    // The current round's server seed is now public
+    setCurrentRound((prev) =>
+      prev && prev.seedPairId === previous.seedPairId
+        ? { ...prev, serverSeed: previous.serverSeed }
+        : prev
+    );
+  }, []);
+
+  const handleDrop = async (
+    dropColumn: number,
+    betCents: number,
+    clientSeed: string,
+    ballCount: number
+  ) => {
     // Prevent concurrent drops
     if (isPlaying) {
       console.log('🚫 Drop ignored - animation already in progress');
@@ -54,44 +174,76 @@ export default function Home() {
     
     setError(null);
 
+    if (!player) {
+      setError('Sign in to play');
+      return;
+    }
+
     try {
+      // Changing the client seed means starting a new seed pair
+      if (clientSeed && clientSeed !== seedPair?.clientSeed) {
+        await rotateSeeds(clientSeed);
+      }
+
       // Step 1: Commit
       const commitRes = await fetch('/api/rounds/commit', {
         method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rows }),
       });
       
       if (!commitRes.ok) {
         throw new Error('Failed to create round');
       }
 
-      const { roundId, commitHex, nonce } = await commitRes.json();
+      const commitData = await commitRes.json();
+      const { roundId, commitHex, nonce } = commitData;
+      setSeedPair((prev) => ({
+        seedPairId: commitData.seedPairId,
+        serverSeedHash: commitData.serverSeedHash,
+        clientSeed: commitData.clientSeed,
+        upcomingServerSeedHash: prev?.upcomingServerSeedHash,
+      }));
 
       // Step 2: Start round
       const startRes = await fetch(`/api/rounds/${roundId}/start`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ clientSeed, betCents, dropColumn }),
+        body: JSON.stringify({ betCents, dropColumn, risk, ballCount, currency }),
       });
 
+      const startData = await startRes.json();
+
       if (!startRes.ok) {
-        throw new Error('Failed to start round');
+        throw new Error(startData.error || 'Failed to start round');
       }
 
-      const startData = await startRes.json();
+      setBalanceCents(startData.balanceCents);
 
       // Update state with round data (without server seed yet)
       setCurrentRound({
         roundId,
+        seedPairId: commitData.seedPairId,
+        serverSeedHash: commitData.serverSeedHash,
+        chain: commitData.chain,
         commitHex,
         nonce,
-        clientSeed,
+        clientSeed: startData.clientSeed,
         pegMapHash: startData.pegMapHash,
         path: startData.path,
         binIndex: startData.binIndex,
-        payoutMultiplier: startData.payoutMultiplier,
-        payout: startData.payout,
+        paths: startData.paths,
+        binIndexes: startData.binIndexes,
+        ballCount: startData.ballCount,
+        payoutMultiplierBps: startData.payoutMultiplierBps,
+        payoutCents: startData.payoutCents,
+        currency: startData.currency,
         status: 'STARTED',
         dropColumn,
+        rows,
+        risk,
+        algorithmVersion: startData.algorithmVersion,
+        commitReceipt: commitData.receipt ?? null,
       });
       
       // Start animation only after we have the round data
@@ -108,7 +260,8 @@ export default function Home() {
           const revealData = await revealRes.json();
           setCurrentRound((prev) => prev ? {
             ...prev,
-            serverSeed: revealData.serverSeed,
+            serverSeed: revealData.serverSeed ?? prev.serverSeed,
+            outcomeReceipt: revealData.receipt ?? null,
             status: 'REVEALED',
           } : null);
         }
@@ -172,13 +325,38 @@ export default function Home() {
                   console.error(err);
                 }
               }}
-              className="px-3 py-2 bg-indigo-600 hover:bg-indigo-500 text-white rounded-full text-sm shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-400"
-              aria-label="Download recent rounds CSV"
-              title="Download recent rounds CSV"
+              disabled={!player}
+              className="px-3 py-2 bg-indigo-600 hover:bg-indigo-500 text-white rounded-full text-sm shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-400 disabled:opacity-50 disabled:cursor-not-allowed"
+              aria-label="Download your recent rounds CSV"
+              title={player ? 'Download your recent rounds CSV' : 'Sign in to export your rounds'}
             >
               ⤓ Download CSV
             </button>
 
+            <button
+              onClick={() => {
+                setError(null);
+                rotateSeeds().catch((err) =>
+                  setError(err instanceof Error ? err.message : 'An error occurred')
+                );
+              }}
+              disabled={isPlaying}
+              className="px-3 py-2 bg-purple-600 hover:bg-purple-500 text-white rounded-full text-sm shadow-sm focus:outline-none focus:ring-2 focus:ring-purple-400 disabled:opacity-50 disabled:cursor-not-allowed"
+              aria-label="Rotate seeds and reveal the current server seed"
+              title="Reveal the current server seed and start a new seed pair"
+            >
+              🔄 Rotate Seeds
+            </button>
+
+            {lastRotatedSeedPairId && (
+              <Link
+                href={`/verify?seedPairId=${encodeURIComponent(lastRotatedSeedPairId)}`}
+                className="px-3 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-full text-sm shadow-sm"
+              >
+                Verify Previous Seeds →
+              </Link>
+            )}
+
             {prefersReducedMotion && (
               <div 
                 className="px-3 py-1 bg-blue-900/50 border border-blue-500 rounded-full text-xs text-blue-300"
@@ -207,30 +385,63 @@ export default function Home() {
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 sm:gap-6">
           {/* Left Column: Controls & Info */}
           <div className="space-y-4 sm:space-y-6 order-2 lg:order-1">
+            <AccountPanel
+              player={player}
+              balanceCents={balanceCents}
+              currency={currency}
+              onPlayerChange={handlePlayerChange}
+              disabled={isPlaying}
+            />
+
             <GameControls
               onDrop={handleDrop}
               isPlaying={isPlaying}
+              rows={rows}
+              onRowsChange={setRows}
+              risk={risk}
+              onRiskChange={setRisk}
+              currency={currency}
+              onCurrencyChange={handleCurrencyChange}
+              betCents={betCents}
+              onBetCentsChange={setBetCents}
+              limits={betLimits?.[currency]}
+              activeClientSeed={seedPair?.clientSeed}
+              upcomingServerSeedHash={seedPair?.upcomingServerSeedHash}
+              disabled={!player}
             />
             
             <RoundInfo
               roundId={currentRound?.roundId}
+              serverSeedHash={currentRound?.serverSeedHash}
+              chainIndex={currentRound?.chain?.chainIndex}
+              chainTerminalHash={currentRound?.chain?.terminalHash}
               commitHex={currentRound?.commitHex}
               nonce={currentRound?.nonce}
               clientSeed={currentRound?.clientSeed}
               serverSeed={currentRound?.serverSeed}
               binIndex={currentRound?.binIndex}
-              payout={currentRound?.payout}
-              payoutMultiplier={currentRound?.payoutMultiplier}
+              binIndexes={currentRound?.binIndexes}
+              ballCount={currentRound?.ballCount}
+              payoutCents={currentRound?.payoutCents}
+              payoutMultiplierBps={currentRound?.payoutMultiplierBps}
+              currency={currentRound?.currency}
               status={currentRound?.status}
               dropColumn={currentRound?.dropColumn}
+              rows={currentRound?.rows}
+              risk={currentRound?.risk}
+              algorithmVersion={currentRound?.algorithmVersion}
+              commitReceipt={currentRound?.commitReceipt}
+              outcomeReceipt={currentRound?.outcomeReceipt}
             />
           </div>
 
           {/* Center Column: Game Board */}
           <div className="lg:col-span-2 order-1 lg:order-2">
             <PlinkoBoard
-              path={currentRound?.path}
-              binIndex={currentRound?.binIndex}
+              rows={rows}
+              risk={risk}
+              paths={currentRound?.rows === rows ? currentRound.paths : undefined}
+              binIndexes={currentRound?.rows === rows ? currentRound.binIndexes : undefined}
               isAnimating={isPlaying}
               onPegHit={playPegSound}
               onAnimationComplete={() => {
@@ -238,22 +449,23 @@ export default function Home() {
                 setIsPlaying(false);
                 
                 // Play landing sound and trigger confetti for big wins
-                if (currentRound?.payoutMultiplier) {
-                  if (currentRound.payoutMultiplier >= 2) {
+                if (currentRound?.payoutMultiplierBps) {
+                  const multiplier = currentRound.payoutMultiplierBps / BPS_PER_MULTIPLIER;
+                  if (multiplier >= 2) {
                     playWinSound(); // Big win!
                     setShowConfetti(true); // Trigger confetti
-                  } else if (currentRound.payoutMultiplier >= 1.4) {
-                    playLandingSound(currentRound.payoutMultiplier);
+                  } else if (multiplier >= 1.4) {
+                    playLandingSound(multiplier);
                     setShowConfetti(true); // Smaller confetti for medium wins
                   } else {
-                    playLandingSound(currentRound.payoutMultiplier);
+                    playLandingSound(multiplier);
                   }
                 }
               }}
             />
             
             <div className="mt-4 sm:mt-6">
-              <PaytableDisplay />
+              <PaytableDisplay rows={rows} risk={risk} betCents={betCents} currency={currency} />
             </div>
           </div>
         </div>
@@ -276,7 +488,7 @@ export default function Home() {
       {/* Confetti effect for wins */}
       <Confetti
         active={showConfetti}
-        multiplier={currentRound?.payoutMultiplier}
+        multiplier={currentRound ? currentRound.payoutMultiplierBps / BPS_PER_MULTIPLIER : undefined}
         onComplete={() => setShowConfetti(false)}
       />
     </div>
@@ -2,7 +2,13 @@
  * Verifier Page - Public Fairness Verification
  * 
  * Allows anyone to verify the fairness of a round by providing
- * the server seed, client seed, nonce, and drop column.
+ * the server seed, client seed, nonce, drop column, board row count,
+ * fairness algorithm version, and ball count.
+ *
+ * The round is recomputed in the browser with WebCrypto (lib/fairness-web.ts),
+ * so the result never depends on the server being audited. The server's own
+ * answer from GET /api/verify is fetched afterwards and any difference flagged.
+ * Explain mode adds the full computation trace for auditors.
  */
 
 'use client';
@@ -10,7 +16,34 @@
 import { useState, useEffect, useCallback, Suspense } from 'react';
 import Link from 'next/link';
 import { useSearchParams } from 'next/navigation';
-import { PathDecision } from '@/lib/plinko-engine';
+import type { PathDecision } from '@/lib/plinko-engine';
+import {
+  ROWS,
+  MIN_ROWS,
+  MAX_ROWS,
+  MIN_BALLS,
+  MAX_BALLS,
+  isValidRowCount,
+  isValidDropColumn,
+  isValidBallCount,
+} from '@/lib/board';
+import { ALGORITHMS, LEGACY_ALGORITHM_VERSION, isKnownAlgorithmVersion } from '@/lib/algorithms';
+import {
+  computeRoundOutcome,
+  explainRound,
+  generateCommitHex,
+  generateServerSeedHash,
+  verifyChainPosition,
+} from '@/lib/fairness-web';
+import SeedPairVerifier from '@/components/SeedPairVerifier';
+import PathReplay from '@/components/PathReplay';
+import ComputationTrace from '@/components/ComputationTrace';
+import BatchVerifier from '@/components/BatchVerifier';
+import BundleImporter from '@/components/BundleImporter';
+import ReceiptVerifier from '@/components/ReceiptVerifier';
+import CommitmentProofVerifier from '@/components/CommitmentProofVerifier';
+import type { BundleRound } from '@/lib/bundle';
+import type { RoundTrace } from '@/lib/explain';
 
 interface VerificationResult {
   inputs: {
@@ -18,24 +51,84 @@ interface VerificationResult {
     clientSeed: string;
     nonce: string;
     dropColumn: number;
+    rows: number;
+    algorithmVersion: string;
+    ballCount: number;
+    chainIndex: number | null;
+    terminalHash: string | null;
   };
   computed: {
+    serverSeedHash: string;
     commitHex: string;
     combinedSeed: string;
     pegMapHash: string;
     binIndex: number;
     path: PathDecision[];
+    binIndexes: number[];
+    paths: PathDecision[][];
+    chain: {
+      index: number;
+      predecessor: string;
+      terminalHash: string;
+      positionValid: boolean;
+    } | null;
   };
   timestamp: string;
 }
 
+/**
+ * Outcome of comparing the local result with the server's /api/verify answer
+ */
+interface ServerCrossCheck {
+  status: 'pending' | 'match' | 'mismatch' | 'unavailable';
+  mismatches: string[]; // Fields whose server value differs from the local one
+  error?: string;
+}
+
+/**
+ * Fields of the local result that the server's answer must reproduce exactly
+ */
+function diffServerAnswer(
+  local: VerificationResult['computed'],
+  server: VerificationResult['computed']
+): string[] {
+  const fields: (keyof VerificationResult['computed'])[] = [
+    'serverSeedHash',
+    'commitHex',
+    'combinedSeed',
+    'pegMapHash',
+    'binIndex',
+    'path',
+    'binIndexes',
+    'paths',
+  ];
+  const mismatches: string[] = fields.filter(
+    (field) => JSON.stringify(local[field]) !== JSON.stringify(server[field])
+  );
+  if (local.chain?.positionValid !== server.chain?.positionValid) {
+    mismatches.push('chain.positionValid');
+  }
+  return mismatches;
+}
+
+const algorithms = Object.values(ALGORITHMS);
+
 function VerifyPageContent() {
   const searchParams = useSearchParams();
   const [serverSeed, setServerSeed] = useState('');
   const [clientSeed, setClientSeed] = useState('');
   const [nonce, setNonce] = useState('');
   const [dropColumn, setDropColumn] = useState('6');
+  const [rows, setRows] = useState(String(ROWS));
+  const [ballCount, setBallCount] = useState(String(MIN_BALLS));
+  // Links that predate versioning were played with the original algorithm
+  const [algorithm, setAlgorithm] = useState(LEGACY_ALGORITHM_VERSION);
+  const [chainIndex, setChainIndex] = useState('');
+  const [terminalHash, setTerminalHash] = useState('');
   const [result, setResult] = useState<VerificationResult | null>(null);
+  const [serverCheck, setServerCheck] = useState<ServerCrossCheck | null>(null);
+  const [explain, setExplain] = useState(false);
+  const [trace, setTrace] = useState<RoundTrace | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [autoVerified, setAutoVerified] = useState(false);
@@ -46,11 +139,23 @@ function VerifyPageContent() {
     const urlClientSeed = searchParams.get('clientSeed');
     const urlNonce = searchParams.get('nonce');
     const urlDropColumn = searchParams.get('dropColumn');
+    const urlRows = searchParams.get('rows');
+    const urlAlgorithm = searchParams.get('algorithm');
+    const urlBallCount = searchParams.get('ballCount');
+    const urlChainIndex = searchParams.get('chainIndex');
+    const urlTerminalHash = searchParams.get('terminalHash');
+    const urlExplain = searchParams.get('explain');
 
     if (urlServerSeed) setServerSeed(urlServerSeed);
     if (urlClientSeed) setClientSeed(urlClientSeed);
     if (urlNonce) setNonce(urlNonce);
     if (urlDropColumn) setDropColumn(urlDropColumn);
+    if (urlRows) setRows(urlRows);
+    if (urlAlgorithm) setAlgorithm(urlAlgorithm);
+    if (urlBallCount) setBallCount(urlBallCount);
+    if (urlChainIndex) setChainIndex(urlChainIndex);
+    if (urlTerminalHash) setTerminalHash(urlTerminalHash);
+    if (urlExplain === '1' || urlExplain === 'true') setExplain(true);
   }, [searchParams]);
 
   const performVerification = useCallback(async () => {
@@ -58,31 +163,111 @@ function VerifyPageContent() {
     
     setError(null);
     setResult(null);
+    setServerCheck(null);
+    setTrace(null);
     setIsLoading(true);
 
+    let local: VerificationResult;
+    try {
+      const rowCount = parseInt(rows, 10);
+      const column = parseInt(dropColumn, 10);
+      const balls = parseInt(ballCount, 10);
+      const index = chainIndex && terminalHash ? parseInt(chainIndex, 10) : null;
+
+      if (!isValidRowCount(rowCount)) {
+        throw new Error(`rows must be a number between ${MIN_ROWS} and ${MAX_ROWS}`);
+      }
+      if (!isValidDropColumn(column, rowCount)) {
+        throw new Error(`dropColumn must be a number between 0 and ${rowCount}`);
+      }
+      if (!isValidBallCount(balls)) {
+        throw new Error(`ballCount must be a number between ${MIN_BALLS} and ${MAX_BALLS}`);
+      }
+      if (!isKnownAlgorithmVersion(algorithm)) {
+        throw new Error(`algorithm must be one of: ${Object.keys(ALGORITHMS).join(', ')}`);
+      }
+
+      // Recompute everything locally; nothing here talks to the server
+      const seeds = { serverSeed, clientSeed, nonce };
+      const outcome = await computeRoundOutcome(seeds, column, rowCount, algorithm, balls);
+      const serverSeedHash = await generateServerSeedHash(serverSeed);
+
+      local = {
+        inputs: {
+          ...seeds,
+          dropColumn: column,
+          rows: rowCount,
+          algorithmVersion: algorithm,
+          ballCount: balls,
+          chainIndex: index,
+          terminalHash: index !== null ? terminalHash : null,
+        },
+        computed: {
+          serverSeedHash,
+          commitHex: await generateCommitHex(serverSeed, nonce),
+          combinedSeed: outcome.combinedSeed,
+          pegMapHash: outcome.pegMapHash,
+          binIndex: outcome.binIndex,
+          path: outcome.path,
+          binIndexes: outcome.binIndexes,
+          paths: outcome.paths,
+          chain:
+            index !== null
+              ? {
+                  index,
+                  predecessor: serverSeedHash,
+                  terminalHash,
+                  positionValid: await verifyChainPosition(serverSeed, index, terminalHash),
+                }
+              : null,
+        },
+        timestamp: new Date().toISOString(),
+      };
+      setResult(local);
+
+      if (explain) {
+        setTrace(await explainRound(seeds, column, rowCount, algorithm, balls));
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Verification failed');
+      return;
+    } finally {
+      setIsLoading(false);
+    }
+
+    // Cross-check against the server's answer for the same inputs
+    setServerCheck({ status: 'pending', mismatches: [] });
     try {
       const params = new URLSearchParams({
         serverSeed,
         clientSeed,
         nonce,
-        dropColumn,
+        dropColumn: String(local.inputs.dropColumn),
+        rows: String(local.inputs.rows),
+        ballCount: String(local.inputs.ballCount),
+        algorithm: local.inputs.algorithmVersion,
       });
+      if (local.inputs.chainIndex !== null && local.inputs.terminalHash) {
+        params.set('chainIndex', String(local.inputs.chainIndex));
+        params.set('terminalHash', local.inputs.terminalHash);
+      }
 
       const res = await fetch(`/api/verify?${params}`);
-      
+      const data = await res.json();
       if (!res.ok) {
-        const errorData = await res.json();
-        throw new Error(errorData.error || 'Verification failed');
+        throw new Error(data.error || 'Server verification failed');
       }
 
-      const data = await res.json();
-      setResult(data);
+      const mismatches = diffServerAnswer(local.computed, data.computed);
+      setServerCheck({ status: mismatches.length ? 'mismatch' : 'match', mismatches });
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Verification failed');
-    } finally {
-      setIsLoading(false);
+      setServerCheck({
+        status: 'unavailable',
+        mismatches: [],
+        error: err instanceof Error ? err.message : 'Server verification failed',
+      });
     }
-  }, [serverSeed, clientSeed, nonce, dropColumn]);
+  }, [serverSeed, clientSeed, nonce, dropColumn, rows, ballCount, algorithm, chainIndex, terminalHash, explain]);
 
   // Auto-verify when all fields are populated from URL
   useEffect(() => {
@@ -114,6 +299,24 @@ function VerifyPageContent() {
     setClientSeed('candidate-hello');
     setNonce('42');
     setDropColumn('6');
+    setRows(String(ROWS));
+    setBallCount(String(MIN_BALLS));
+    setAlgorithm(LEGACY_ALGORITHM_VERSION);
+    setChainIndex('');
+    setTerminalHash('');
+  };
+
+  const loadBundleRound = (round: BundleRound) => {
+    setServerSeed(round.serverSeed);
+    setClientSeed(round.clientSeed);
+    setNonce(round.nonce);
+    setDropColumn(String(round.dropColumn));
+    setRows(String(round.rows));
+    setBallCount(String(round.ballCount));
+    setAlgorithm(round.algorithmVersion);
+    setChainIndex('');
+    setTerminalHash('');
+    window.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
   return (
@@ -184,12 +387,62 @@ function VerifyPageContent() {
 
             <div>
               <label className="block text-sm font-medium text-gray-300 mb-2">
-                Drop Column (0-12)
+                Rows ({MIN_ROWS}-{MAX_ROWS})
+              </label>
+              <input
+                type="number"
+                min={MIN_ROWS}
+                max={MAX_ROWS}
+                value={rows}
+                onChange={(e) => setRows(e.target.value)}
+                required
+                className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white font-mono text-sm focus:outline-none focus:ring-2 focus:ring-green-500"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                Ball Count ({MIN_BALLS}-{MAX_BALLS})
+              </label>
+              <input
+                type="number"
+                min={MIN_BALLS}
+                max={MAX_BALLS}
+                value={ballCount}
+                onChange={(e) => setBallCount(e.target.value)}
+                required
+                className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white font-mono text-sm focus:outline-none focus:ring-2 focus:ring-green-500"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                Algorithm Version
+              </label>
+              <select
+                value={algorithm}
+                onChange={(e) => setAlgorithm(e.target.value)}
+                className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white font-mono text-sm focus:outline-none focus:ring-2 focus:ring-green-500"
+              >
+                {algorithm && !algorithms.some((a) => a.version === algorithm) && (
+                  <option value={algorithm}>{algorithm}</option>
+                )}
+                {algorithms.map((a) => (
+                  <option key={a.version} value={a.version}>
+                    {a.version} — {a.description}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                Drop Column (0-{rows})
               </label>
               <input
                 type="number"
                 min="0"
-                max="12"
+                max={rows}
                 value={dropColumn}
                 onChange={(e) => setDropColumn(e.target.value)}
                 required
@@ -197,6 +450,44 @@ function VerifyPageContent() {
               />
             </div>
 
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">
+                  Chain Index (optional)
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  value={chainIndex}
+                  onChange={(e) => setChainIndex(e.target.value)}
+                  placeholder="Position in hash chain"
+                  className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white font-mono text-sm focus:outline-none focus:ring-2 focus:ring-green-500"
+                />
+              </div>
+              <div className="sm:col-span-2">
+                <label className="block text-sm font-medium text-gray-300 mb-2">
+                  Chain Terminal Hash (optional)
+                </label>
+                <input
+                  type="text"
+                  value={terminalHash}
+                  onChange={(e) => setTerminalHash(e.target.value)}
+                  placeholder="Published SHA256(seeds[0])"
+                  className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white font-mono text-sm focus:outline-none focus:ring-2 focus:ring-green-500"
+                />
+              </div>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm text-gray-300">
+              <input
+                type="checkbox"
+                checked={explain}
+                onChange={(e) => setExplain(e.target.checked)}
+                className="accent-green-500"
+              />
+              Explain mode: show every hashed string, PRNG output and drop step
+            </label>
+
             <div className="flex gap-3">
               <button
                 type="submit"
@@ -238,6 +529,50 @@ function VerifyPageContent() {
               </div>
             </div>
 
+            {/* Where the result came from */}
+            <div className="p-3 bg-green-900/30 border border-green-700 rounded-lg text-sm">
+              <p className="font-bold text-green-400">🔒 Computed locally in your browser</p>
+              <p className="text-gray-300 mt-1">
+                Every value below was recomputed with WebCrypto on this device. The server was not asked for
+                any of it, so you do not have to trust the operator you are auditing.
+              </p>
+            </div>
+
+            {serverCheck && (
+              <div
+                className={`p-3 rounded-lg text-sm border ${
+                  serverCheck.status === 'mismatch'
+                    ? 'bg-red-900/50 border-red-500 text-red-200'
+                    : 'bg-gray-900 border-gray-700 text-gray-300'
+                }`}
+              >
+                {serverCheck.status === 'pending' && <p>Comparing with the server&apos;s answer…</p>}
+                {serverCheck.status === 'match' && (
+                  <p>
+                    <span className="text-green-400 font-bold">✓ Server agrees:</span> GET /api/verify returned
+                    the same values.
+                  </p>
+                )}
+                {serverCheck.status === 'mismatch' && (
+                  <>
+                    <p className="font-bold">⚠ Server answer differs from the local result</p>
+                    <p className="mt-1">
+                      Mismatched fields:{' '}
+                      <span className="font-mono">{serverCheck.mismatches.join(', ')}</span>
+                    </p>
+                    <p className="mt-1 text-xs">
+                      The local result above is what the published algorithm produces for these inputs.
+                    </p>
+                  </>
+                )}
+                {serverCheck.status === 'unavailable' && (
+                  <p>
+                    Server answer unavailable ({serverCheck.error}); the local result stands on its own.
+                  </p>
+                )}
+              </div>
+            )}
+
             {/* Computed Values */}
             <div className="border-t border-gray-700 pt-4 space-y-3">
               <h4 className="font-bold text-lg">Computed Values</h4>
@@ -265,7 +600,9 @@ function VerifyPageContent() {
 
               <div className="grid grid-cols-2 gap-4 pt-2">
                 <div className="bg-gray-900 p-4 rounded">
-                  <span className="text-gray-400 text-sm">Landing Bin</span>
+                  <span className="text-gray-400 text-sm">
+                    {result.computed.binIndexes.length > 1 ? 'Landing Bin (ball 1)' : 'Landing Bin'}
+                  </span>
                   <p className="text-3xl font-bold text-green-500 mt-1">
                     {result.computed.binIndex}
                   </p>
@@ -278,11 +615,63 @@ function VerifyPageContent() {
                   </p>
                 </div>
               </div>
+
+              {result.computed.binIndexes.length > 1 && (
+                <div>
+                  <span className="text-gray-400 text-sm">
+                    Landing Bins ({result.computed.binIndexes.length} balls, in drop order):
+                  </span>
+                  <p className="text-white font-mono text-sm break-all mt-1 bg-gray-900 p-2 rounded">
+                    {result.computed.binIndexes.join(', ')}
+                  </p>
+                </div>
+              )}
+            </div>
+
+            {/* Hash Chain Position */}
+            {result.computed.chain && (
+              <div className="border-t border-gray-700 pt-4 space-y-3">
+                <h4 className="font-bold text-lg">Hash Chain Position</h4>
+                <p className={result.computed.chain.positionValid ? 'text-green-500 font-bold' : 'text-red-400 font-bold'}>
+                  {result.computed.chain.positionValid
+                    ? `✓ Server seed is link #${result.computed.chain.index} of the published chain`
+                    : `✗ Server seed does not sit at index ${result.computed.chain.index} of this chain`}
+                </p>
+                <div>
+                  <span className="text-gray-400 text-sm">Predecessor Link (SHA256 of server seed):</span>
+                  <p className="text-white font-mono text-sm break-all mt-1 bg-gray-900 p-2 rounded">
+                    {result.computed.chain.predecessor}
+                  </p>
+                </div>
+                <div>
+                  <span className="text-gray-400 text-sm">Terminal Hash:</span>
+                  <p className="text-white font-mono text-sm break-all mt-1 bg-gray-900 p-2 rounded">
+                    {result.computed.chain.terminalHash}
+                  </p>
+                </div>
+                <p className="text-gray-500 text-xs">
+                  Hashing the server seed {result.computed.chain.index + 1} time(s) must reach the terminal hash
+                  published before the chain was used.
+                </p>
+              </div>
+            )}
+
+            {/* Animated Replay */}
+            <div className="border-t border-gray-700 pt-4">
+              <h4 className="font-bold text-lg mb-3">Replay</h4>
+              <PathReplay
+                key={result.timestamp}
+                rows={result.inputs.rows}
+                paths={result.computed.paths}
+                binIndexes={result.computed.binIndexes}
+              />
             </div>
 
             {/* Path Visualization */}
             <div className="border-t border-gray-700 pt-4">
-              <h4 className="font-bold text-lg mb-3">Deterministic Path</h4>
+              <h4 className="font-bold text-lg mb-3">
+                Deterministic Path{result.computed.paths.length > 1 && ' (ball 1)'}
+              </h4>
               <div className="bg-gray-900 p-4 rounded space-y-2 max-h-64 overflow-y-auto">
                 {result.computed.path.map((decision, idx) => (
                   <div key={idx} className="flex items-center gap-3 text-sm">
@@ -300,12 +689,46 @@ function VerifyPageContent() {
               </div>
             </div>
 
+            {/* Explain Mode */}
+            {trace && (
+              <div className="border-t border-gray-700 pt-4">
+                <h4 className="font-bold text-lg mb-3">Computation Trace</h4>
+                <ComputationTrace trace={trace} />
+              </div>
+            )}
+
             <div className="text-xs text-gray-500 text-center">
-              Verified at: {new Date(result.timestamp).toLocaleString()}
+              Algorithm: <span className="font-mono">{result.inputs.algorithmVersion}</span> ·
+              Verified locally at: {new Date(result.timestamp).toLocaleString()}
             </div>
           </div>
         )}
 
+        {/* Batch Verification */}
+        <div className="mt-8">
+          <BatchVerifier />
+        </div>
+
+        {/* Round Bundle Import */}
+        <div className="mt-8">
+          <BundleImporter onLoadRound={loadBundleRound} />
+        </div>
+
+        {/* Signed Receipts */}
+        <div className="mt-8">
+          <ReceiptVerifier />
+        </div>
+
+        {/* Commitment Inclusion */}
+        <div className="mt-8">
+          <CommitmentProofVerifier />
+        </div>
+
+        {/* Seed Pair Verification */}
+        <div className="mt-8">
+          <SeedPairVerifier initialSeedPairId={searchParams.get('seedPairId') ?? undefined} />
+        </div>
+
         {/* How It Works */}
         <div className="mt-8 bg-gray-800 rounded-lg p-6">
           <h3 className="text-lg font-bold mb-3">How Provably Fair Works</h3>
@@ -313,8 +736,9 @@ function VerifyPageContent() {
             <div>
               <p className="font-bold text-white mb-1">1. Commit Phase</p>
               <p>
-                Server generates a random server seed and nonce, then publishes only the 
-                SHA-256 hash: <code className="bg-gray-900 px-1 py-0.5 rounded">commitHex = SHA256(serverSeed:nonce)</code>
+                Server generates a random server seed for a seed pair and publishes its hash{' '}
+                <code className="bg-gray-900 px-1 py-0.5 rounded">SHA256(serverSeed)</code>. Each round takes the
+                pair&apos;s next nonce (0, 1, 2, ...) and publishes <code className="bg-gray-900 px-1 py-0.5 rounded">commitHex = SHA256(serverSeed:nonce)</code>
               </p>
             </div>
 
@@ -331,20 +755,58 @@ function VerifyPageContent() {
               <p>
                 A combined seed is generated: <code className="bg-gray-900 px-1 py-0.5 rounded">SHA256(serverSeed:clientSeed:nonce)</code>
                 <br />
-                This seed drives a deterministic PRNG (xorshift32) that produces the entire game outcome.
+                The round&apos;s algorithm version picks the deterministic PRNG that produces the entire game
+                outcome: xorshift32 seeded from this combined seed (xorshift32-v1), or HMAC-SHA256 blocks keyed by
+                the server seed over <code className="bg-gray-900 px-1 py-0.5 rounded">clientSeed:nonce:cursor</code>{' '}
+                (hmac-sha256-v2 and v3, which differ only in the drop column adjustment). Every round stores its
+                version, so old rounds stay verifiable.
+              </p>
+            </div>
+
+            <div>
+              <p className="font-bold text-white mb-1">Hash Chain</p>
+              <p>
+                Server seeds can come from a chain published in advance, where each seed is the SHA-256 of the
+                next. Only <code className="bg-gray-900 px-1 py-0.5 rounded">SHA256(seeds[0])</code> is published up
+                front, so the operator cannot choose a seed after seeing who is playing.
               </p>
             </div>
 
             <div>
               <p className="font-bold text-white mb-1">4. Reveal & Verify</p>
               <p>
-                After the round, the server reveals the server seed. You can verify that:
+                When you rotate seeds, the server reveals the server seed for every round in the pair. You can verify that:
                 <br />
                 • The commit hash matches SHA256(serverSeed:nonce)
                 <br />
                 • The outcome can be reproduced from the seeds
               </p>
             </div>
+
+            <div>
+              <p className="font-bold text-white mb-1">Verified On Your Device</p>
+              <p>
+                This page runs the same engine code in your browser, hashing with WebCrypto, so the server you
+                are auditing never computes your result. Its own answer is fetched only as a cross-check.
+              </p>
+            </div>
+
+            <div>
+              <p className="font-bold text-white mb-1">Signed Receipts</p>
+              <p>
+                The operator signs the commitment when a round is created and the outcome when it is revealed.
+                Each Ed25519 signature covers the round ID, commit hash, client seed, drop column, bet, landing
+                bin and multiplier, so the operator cannot later deny what it promised.
+              </p>
+            </div>
+
+            <div>
+              <p className="font-bold text-white mb-1">Published Commitments</p>
+              <p>
+                Every hour&apos;s commit hashes are sealed into a Merkle tree and its root is published. An inclusion
+                proof shows your commit is in that set, so the operator cannot swap commitments afterwards.
+              </p>
+            </div>
           </div>
         </div>
       </div>
@@ -0,0 +1,158 @@
+/**
+ * Account Panel Component
+ *
+ * Sign in, register, or sign out. Sessions live in an HTTP-only cookie, so
+ * the panel only ever sees the public player returned by the auth routes.
+ * Signed-in players see their wallet balance in the selected currency.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import type { PublicPlayer } from '@/lib/session';
+import { CurrencyCode, formatMoney } from '@/lib/currency';
+
+interface AccountPanelProps {
+  player: PublicPlayer | null;
+  balanceCents: number | null; // null until the wallet has loaded
+  currency: CurrencyCode;
+  onPlayerChange: (player: PublicPlayer | null) => void;
+  disabled?: boolean;
+}
+
+export default function AccountPanel({
+  player,
+  balanceCents,
+  currency,
+  onPlayerChange,
+  disabled = false,
+}: AccountPanelProps) {
+  const [mode, setMode] = useState<'login' | 'register'>('login');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setIsLoading(true);
+
+    try {
+      const res = await fetch(`/api/auth/${mode}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username: username.trim(), password }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to sign in');
+      }
+
+      setPassword('');
+      onPlayerChange(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sign in');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleLogout = async () => {
+    setError(null);
+    try {
+      const res = await fetch('/api/auth/logout', { method: 'POST' });
+      if (!res.ok) throw new Error('Failed to sign out');
+      onPlayerChange(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sign out');
+    }
+  };
+
+  return (
+    <div
+      className="rounded-lg p-4 sm:p-6 space-y-3 transition-colors duration-300"
+      style={{
+        backgroundColor: 'var(--background-secondary)',
+        borderColor: 'var(--border)',
+        borderWidth: '1px',
+        borderStyle: 'solid',
+      }}
+      role="region"
+      aria-label="Account"
+    >
+      {player ? (
+        <div className="flex justify-between items-center gap-2">
+          <div className="text-sm text-gray-300">
+            <p>
+              Signed in as <span className="font-bold text-white">{player.username}</span>
+            </p>
+            {balanceCents !== null && (
+              <p>
+                Balance: <span className="font-bold text-green-400">{formatMoney(balanceCents, currency)}</span>
+              </p>
+            )}
+          </div>
+          <button
+            onClick={handleLogout}
+            disabled={disabled}
+            className="px-3 py-1 bg-gray-700 hover:bg-gray-600 text-white rounded text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Sign Out
+          </button>
+        </div>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <h3 className="text-base sm:text-lg font-bold text-white">
+            {mode === 'login' ? 'Sign In to Play' : 'Create an Account'}
+          </h3>
+          <input
+            type="text"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            required
+            autoComplete="username"
+            placeholder="Username"
+            aria-label="Username"
+            className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            required
+            autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+            placeholder="Password"
+            aria-label="Password"
+            className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <div className="flex justify-between items-center gap-2">
+            <button
+              type="submit"
+              disabled={isLoading}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white font-bold rounded-lg text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isLoading ? 'Please wait...' : mode === 'login' ? 'Sign In' : 'Register'}
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setError(null);
+                setMode(mode === 'login' ? 'register' : 'login');
+              }}
+              className="text-sm text-gray-400 hover:text-white hover:underline"
+            >
+              {mode === 'login' ? 'New here? Register' : 'Have an account? Sign in'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {error && (
+        <div className="p-3 bg-red-900/50 border border-red-500 rounded-lg text-red-200 text-sm" role="alert">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,181 @@
+/**
+ * Batch Verifier Component
+ *
+ * Accepts a dropped (or picked) CSV from GET /api/rounds/export, or a JSON
+ * array of rounds, and re-verifies every round locally with WebCrypto.
+ * Shows a pass/fail table with the mismatched fields of each failing row.
+ * POST /api/verify/batch runs the same checks server-side for automation.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import {
+  BatchReport,
+  MAX_BATCH_ROUNDS,
+  parseRoundRecords,
+  verifyRoundRecords,
+} from '@/lib/batch-verify';
+import { computeRoundOutcome, generateCommitHex } from '@/lib/fairness-web';
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '(missing)';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+export default function BatchVerifier() {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [report, setReport] = useState<BatchReport | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [failuresOnly, setFailuresOnly] = useState(false);
+
+  const verifyFile = async (file: File) => {
+    setFileName(file.name);
+    setReport(null);
+    setError(null);
+
+    try {
+      const records = parseRoundRecords(await file.text());
+      if (records.length === 0) {
+        throw new Error('No rounds found in file');
+      }
+      if (records.length > MAX_BATCH_ROUNDS) {
+        throw new Error(`At most ${MAX_BATCH_ROUNDS} rounds can be verified at once`);
+      }
+
+      setProgress({ done: 0, total: records.length });
+      const result = await verifyRoundRecords(
+        records,
+        { generateCommitHex, computeRoundOutcome },
+        (done, total) => setProgress({ done, total })
+      );
+      setReport(result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read file');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const file = e.dataTransfer.files[0];
+    if (file) verifyFile(file);
+  };
+
+  const rows = report
+    ? failuresOnly
+      ? report.results.filter((r) => r.status !== 'pass')
+      : report.results
+    : [];
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-6">
+      <h2 className="text-xl font-bold mb-2">Batch Verification</h2>
+      <p className="text-gray-400 text-sm mb-4">
+        Drop a CSV from the round export (or a JSON array of rounds) to re-verify up to {MAX_BATCH_ROUNDS} rounds
+        in your browser: commit hash, combined seed, peg map hash and landing bin.
+      </p>
+
+      <label
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        className={`block border-2 border-dashed rounded-lg p-6 text-center cursor-pointer transition-colors ${
+          isDragging ? 'border-green-500 bg-green-900/20' : 'border-gray-600 hover:border-gray-500'
+        }`}
+      >
+        <input
+          type="file"
+          accept=".csv,.json,text/csv,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) verifyFile(file);
+            e.target.value = '';
+          }}
+        />
+        <p className="text-gray-300">
+          {fileName ? `📄 ${fileName}` : 'Drop a .csv or .json file here, or click to choose one'}
+        </p>
+        {progress && (
+          <p className="text-sm text-gray-400 mt-2">
+            Verifying {progress.done} / {progress.total}…
+          </p>
+        )}
+      </label>
+
+      {error && (
+        <div className="mt-4 p-4 bg-red-900/50 border border-red-500 rounded-lg text-red-200">
+          <p className="font-bold">❌ Batch Verification Failed</p>
+          <p>{error}</p>
+        </div>
+      )}
+
+      {report && (
+        <div className="mt-4 space-y-3">
+          <div className="flex flex-wrap items-center gap-4 text-sm">
+            <span className="text-gray-300">{report.total} rounds</span>
+            <span className="text-green-500 font-bold">✓ {report.passed} passed</span>
+            <span className={report.failed ? 'text-red-400 font-bold' : 'text-gray-500'}>
+              ✗ {report.failed} failed
+            </span>
+            <span className={report.errors ? 'text-yellow-400 font-bold' : 'text-gray-500'}>
+              ⚠ {report.errors} not verifiable
+            </span>
+            <label className="flex items-center gap-2 ml-auto text-gray-300">
+              <input
+                type="checkbox"
+                checked={failuresOnly}
+                onChange={(e) => setFailuresOnly(e.target.checked)}
+                className="accent-green-500"
+              />
+              Failures only
+            </label>
+          </div>
+
+          <div className="bg-gray-900 rounded max-h-96 overflow-auto">
+            <table className="w-full text-xs text-left">
+              <thead className="text-gray-500 sticky top-0 bg-gray-900">
+                <tr>
+                  <th className="p-2">#</th>
+                  <th className="p-2">Round</th>
+                  <th className="p-2">Result</th>
+                  <th className="p-2">Details</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((r) => (
+                  <tr key={r.index} className="border-t border-gray-800 align-top">
+                    <td className="p-2 text-gray-500">{r.index + 1}</td>
+                    <td className="p-2 font-mono">{r.roundId ?? '—'}</td>
+                    <td className="p-2">
+                      {r.status === 'pass' && <span className="text-green-500 font-bold">✓ Pass</span>}
+                      {r.status === 'fail' && <span className="text-red-400 font-bold">✗ Fail</span>}
+                      {r.status === 'error' && <span className="text-yellow-400 font-bold">⚠ Error</span>}
+                    </td>
+                    <td className="p-2 font-mono">
+                      {r.error && <span className="text-yellow-300">{r.error}</span>}
+                      {r.mismatches.map((m) => (
+                        <div key={m.field} className="break-all">
+                          <span className="text-red-300">{m.field}</span>: file {formatValue(m.expected)}, recomputed{' '}
+                          {formatValue(m.computed)}
+                        </div>
+                      ))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+/**
+ * Bundle Importer Component
+ *
+ * Imports a .plinko.json round bundle (from GET /api/rounds/[id]/bundle),
+ * re-verifies every round in it locally with verifyBundle(), and lists the
+ * failing fields of each round. Any round can be loaded into the verify form
+ * for the step-by-step replay.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import {
+  BundleReport,
+  BundleRound,
+  BUNDLE_FILE_EXTENSION,
+  parseBundle,
+  verifyBundle,
+} from '@/lib/bundle';
+
+interface BundleImporterProps {
+  onLoadRound: (round: BundleRound) => void;
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '(missing)';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+export default function BundleImporter({ onLoadRound }: BundleImporterProps) {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [rounds, setRounds] = useState<BundleRound[]>([]);
+  const [report, setReport] = useState<BundleReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  const importFile = async (file: File) => {
+    setFileName(file.name);
+    setRounds([]);
+    setReport(null);
+    setError(null);
+    setIsVerifying(true);
+
+    try {
+      const bundle = parseBundle(await file.text());
+      setRounds(bundle.rounds);
+      setReport(await verifyBundle(bundle));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read bundle');
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-6">
+      <h2 className="text-xl font-bold mb-2">Import Round Bundle</h2>
+      <p className="text-gray-400 text-sm mb-4">
+        Open a <span className="font-mono">{BUNDLE_FILE_EXTENSION}</span> bundle to re-verify its rounds in your
+        browser against the seeds, paytable and paths it contains.
+      </p>
+
+      <label className="block border-2 border-dashed rounded-lg p-6 text-center cursor-pointer transition-colors border-gray-600 hover:border-gray-500">
+        <input
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) importFile(file);
+            e.target.value = '';
+          }}
+        />
+        <p className="text-gray-300">
+          {fileName ? `📦 ${fileName}` : `Click to choose a ${BUNDLE_FILE_EXTENSION} file`}
+        </p>
+        {isVerifying && <p className="text-sm text-gray-400 mt-2">Verifying…</p>}
+      </label>
+
+      {error && (
+        <div className="mt-4 p-4 bg-red-900/50 border border-red-500 rounded-lg text-red-200">
+          <p className="font-bold">❌ Bundle Import Failed</p>
+          <p>{error}</p>
+        </div>
+      )}
+
+      {report && (
+        <div className="mt-4 space-y-3">
+          <p className={`font-bold ${report.pass ? 'text-green-500' : 'text-red-400'}`}>
+            {report.pass
+              ? `✓ All ${report.rounds.length} rounds verified`
+              : `✗ ${report.rounds.filter((r) => !r.pass).length} of ${report.rounds.length} rounds failed`}
+          </p>
+
+          <div className="bg-gray-900 rounded max-h-96 overflow-auto">
+            <table className="w-full text-xs text-left">
+              <thead className="text-gray-500 sticky top-0 bg-gray-900">
+                <tr>
+                  <th className="p-2">#</th>
+                  <th className="p-2">Round</th>
+                  <th className="p-2">Result</th>
+                  <th className="p-2">Details</th>
+                  <th className="p-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.rounds.map((r, index) => (
+                  <tr key={index} className="border-t border-gray-800 align-top">
+                    <td className="p-2 text-gray-500">{index + 1}</td>
+                    <td className="p-2 font-mono">{r.roundId ?? '—'}</td>
+                    <td className="p-2">
+                      {r.pass ? (
+                        <span className="text-green-500 font-bold">✓ Pass</span>
+                      ) : (
+                        <span className="text-red-400 font-bold">✗ Fail</span>
+                      )}
+                    </td>
+                    <td className="p-2 font-mono">
+                      {r.error && <span className="text-yellow-300">{r.error}</span>}
+                      {r.checks
+                        .filter((c) => !c.pass)
+                        .map((c) => (
+                          <div key={c.field} className="break-all">
+                            <span className="text-red-300">{c.field}</span>: bundle {formatValue(c.stored)},
+                            recomputed {formatValue(c.computed)}
+                          </div>
+                        ))}
+                    </td>
+                    <td className="p-2">
+                      {rounds[index] && (
+                        <button
+                          type="button"
+                          onClick={() => onLoadRound(rounds[index])}
+                          className="px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-xs whitespace-nowrap"
+                        >
+                          Load into form
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
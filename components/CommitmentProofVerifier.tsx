@@ -0,0 +1,151 @@
+/**
+ * Commitment Proof Verifier Component
+ *
+ * Loads a round's Merkle inclusion proof (GET /api/rounds/[id]/proof) and
+ * checks it in the browser with WebCrypto: the commit hash must hash up to
+ * the batch root, and that root must be the one in the public feed
+ * (GET /api/commitments/roots). The commit hash the player was shown can be
+ * entered so the proof is checked against it rather than the server's copy.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { sha256 } from '@/lib/fairness-web';
+import { verifyMerkleProof } from '@/lib/merkle';
+import type { InclusionProof, PublicCommitmentBatch } from '@/lib/commitment-batches';
+
+interface ProofCheck {
+  proof: InclusionProof;
+  commitHex: string;
+  commitMatches: boolean; // The commit checked is the one the server has for the round
+  proofValid: boolean;
+  publishedRoot: string | null; // null if the batch is not in the feed
+}
+
+export default function CommitmentProofVerifier() {
+  const [roundId, setRoundId] = useState('');
+  const [commitHex, setCommitHex] = useState('');
+  const [check, setCheck] = useState<ProofCheck | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setCheck(null);
+    setIsLoading(true);
+
+    try {
+      const proofRes = await fetch(`/api/rounds/${encodeURIComponent(roundId.trim())}/proof`);
+      const proofData = await proofRes.json();
+      if (!proofRes.ok) {
+        throw new Error(
+          proofData.sealsAt
+            ? `${proofData.error}; it seals at ${new Date(proofData.sealsAt).toLocaleString()}`
+            : proofData.error || 'Failed to load inclusion proof'
+        );
+      }
+      const proof: InclusionProof = proofData;
+
+      const rootsRes = await fetch('/api/commitments/roots?limit=500');
+      const roots: PublicCommitmentBatch[] = rootsRes.ok ? (await rootsRes.json()).roots : [];
+      const published = roots.find((batch) => batch.batchId === proof.batchId);
+
+      const checked = commitHex.trim().toLowerCase() || proof.commitHex;
+      setCheck({
+        proof,
+        commitHex: checked,
+        commitMatches: checked === proof.commitHex,
+        proofValid: await verifyMerkleProof(checked, proof.proof, proof.merkleRoot, sha256),
+        publishedRoot: published?.merkleRoot ?? null,
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Verification failed');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const rootPublished = check?.publishedRoot === check?.proof.merkleRoot;
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-6">
+      <h2 className="text-xl font-bold mb-2">Verify Commitment Inclusion</h2>
+      <p className="text-gray-400 text-sm mb-4">
+        Commits are published hourly as a Merkle root. Check that a round&apos;s commit is in the published batch.
+      </p>
+
+      <form onSubmit={handleVerify} className="space-y-3">
+        <input
+          type="text"
+          value={roundId}
+          onChange={(e) => setRoundId(e.target.value)}
+          required
+          placeholder="Round ID"
+          className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white font-mono text-sm focus:outline-none focus:ring-2 focus:ring-green-500"
+        />
+        <input
+          type="text"
+          value={commitHex}
+          onChange={(e) => setCommitHex(e.target.value)}
+          placeholder="Commit hash you were shown (optional)"
+          className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white font-mono text-sm focus:outline-none focus:ring-2 focus:ring-green-500"
+        />
+        <button
+          type="submit"
+          disabled={isLoading}
+          className="px-6 py-2 bg-green-600 hover:bg-green-500 text-white font-bold rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isLoading ? 'Verifying...' : 'Verify Inclusion'}
+        </button>
+      </form>
+
+      {error && (
+        <div className="mt-4 p-3 bg-red-900/50 border border-red-500 rounded-lg text-red-200 text-sm">
+          {error}
+        </div>
+      )}
+
+      {check && (
+        <div className="mt-4 space-y-3 text-sm">
+          <p className={check.commitMatches ? 'text-green-500 font-bold' : 'text-red-400 font-bold'}>
+            {check.commitMatches
+              ? '✓ Commit hash matches the round'
+              : '✗ The commit hash you entered is not the one stored for this round'}
+          </p>
+          <p className={check.proofValid ? 'text-green-500 font-bold' : 'text-red-400 font-bold'}>
+            {check.proofValid
+              ? `✓ Proof links the commit to the batch root (leaf ${check.proof.leafIndex + 1} of ${check.proof.size})`
+              : '✗ Proof does not hash to the batch root'}
+          </p>
+          <p className={rootPublished ? 'text-green-500 font-bold' : 'text-red-400 font-bold'}>
+            {rootPublished
+              ? '✓ Root matches the published feed'
+              : check.publishedRoot === null
+                ? '✗ Batch not found in the published roots feed'
+                : '✗ Root differs from the published feed'}
+          </p>
+
+          <div>
+            <span className="text-gray-400">
+              Batch {new Date(check.proof.windowStart).toLocaleString()} –{' '}
+              {new Date(check.proof.windowEnd).toLocaleTimeString()} root:
+            </span>
+            <p className="text-white font-mono break-all bg-gray-900 p-2 rounded mt-1">{check.proof.merkleRoot}</p>
+          </div>
+          <details>
+            <summary className="cursor-pointer text-gray-400">Proof ({check.proof.proof.length} steps)</summary>
+            <div className="bg-gray-900 rounded p-2 mt-2 font-mono text-xs space-y-1">
+              {check.proof.proof.map((step, i) => (
+                <p key={i} className="break-all">
+                  <span className="text-gray-500">{step.position.padEnd(5)}</span> {step.hash}
+                </p>
+              ))}
+            </div>
+          </details>
+        </div>
+      )}
+    </div>
+  );
+}
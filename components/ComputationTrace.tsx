@@ -0,0 +1,196 @@
+/**
+ * Computation Trace Component
+ *
+ * Renders an explain-mode trace (lib/explain.ts): the exact strings hashed,
+ * how the PRNG is seeded, every PRNG output the peg map consumes with its
+ * rounding, and every drop step. The raw trace can be downloaded as JSON.
+ */
+
+'use client';
+
+import type { RoundTrace } from '@/lib/explain';
+
+interface ComputationTraceProps {
+  trace: RoundTrace;
+}
+
+const codeClass = 'bg-gray-900 px-1 py-0.5 rounded font-mono break-all';
+const tableClass = 'w-full text-xs font-mono text-left';
+const scrollClass = 'bg-gray-900 rounded p-2 max-h-72 overflow-auto';
+
+export default function ComputationTrace({ trace }: ComputationTraceProps) {
+  const downloadTrace = () => {
+    const blob = new Blob([JSON.stringify(trace, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `plinko-trace-${trace.hashes.commitHex.sha256.slice(0, 12)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const hashRows: [string, RoundTrace['hashes'][keyof RoundTrace['hashes']]][] = [
+    ['serverSeedHash', trace.hashes.serverSeedHash],
+    ['commitHex', trace.hashes.commitHex],
+    ['combinedSeed', trace.hashes.combinedSeed],
+  ];
+
+  return (
+    <div className="space-y-5 text-sm text-gray-300">
+      <div className="flex items-center justify-between">
+        <p>
+          Algorithm <span className={codeClass}>{trace.algorithmVersion}</span>. All strings are UTF-8; all
+          numbers are IEEE-754 doubles printed in full.
+        </p>
+        <button
+          type="button"
+          onClick={downloadTrace}
+          className="px-3 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg text-sm font-medium transition-colors shrink-0 ml-3"
+        >
+          Download JSON
+        </button>
+      </div>
+
+      {/* 1. Hashes */}
+      <section className="space-y-2">
+        <h5 className="font-bold text-white">1. Hashes</h5>
+        {hashRows.map(([name, step]) => (
+          <div key={name}>
+            <p className="text-gray-400">{name} = SHA256(</p>
+            <p className={codeClass}>&quot;{step.input}&quot;</p>
+            <p className="text-gray-400">) =</p>
+            <p className={`${codeClass} text-green-400`}>{step.sha256}</p>
+          </div>
+        ))}
+      </section>
+
+      {/* 2. PRNG seeding */}
+      <section className="space-y-2">
+        <h5 className="font-bold text-white">2. PRNG</h5>
+        {trace.prng.kind === 'xorshift32' ? (
+          <p>
+            Xorshift32 takes the first 4 bytes of combinedSeed: <span className={codeClass}>{trace.prng.seedSlice}</span>{' '}
+            read big-endian = initial state <span className={codeClass}>{trace.prng.initialState}</span> (a zero state
+            becomes 1). Each output: <span className={codeClass}>x ^= x &lt;&lt; 13; x ^= x &gt;&gt;&gt; 17; x ^= x &lt;&lt; 5</span>{' '}
+            as uint32, divided by 2^32.
+          </p>
+        ) : (
+          <>
+            <p>
+              Block k = HMAC-SHA256(key = serverSeed, message = <span className={codeClass}>clientSeed:nonce:k</span>).
+              Each block gives 8 outputs: every 4 bytes as a big-endian uint32, divided by 2^32.
+            </p>
+            <div className={scrollClass}>
+              <table className={tableClass}>
+                <thead className="text-gray-500">
+                  <tr>
+                    <th className="pr-3">k</th>
+                    <th className="pr-3">message</th>
+                    <th>block (hex)</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {trace.prng.blocks.map((block) => (
+                    <tr key={block.cursor}>
+                      <td className="pr-3">{block.cursor}</td>
+                      <td className="pr-3 whitespace-nowrap">{block.message}</td>
+                      <td className="break-all">{block.hex}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </section>
+
+      {/* 3. Peg map */}
+      <section className="space-y-2">
+        <h5 className="font-bold text-white">3. Peg Map ({trace.pegMap.draws.length} outputs)</h5>
+        <p>
+          Row by row, peg by peg: leftBias = <span className={codeClass}>{trace.formulas.leftBias}</span>
+        </p>
+        <div className={scrollClass}>
+          <table className={tableClass}>
+            <thead className="text-gray-500">
+              <tr>
+                <th className="pr-3">#</th>
+                <th className="pr-3">row</th>
+                <th className="pr-3">peg</th>
+                <th className="pr-3">rand</th>
+                <th className="pr-3">unrounded</th>
+                <th>leftBias</th>
+              </tr>
+            </thead>
+            <tbody>
+              {trace.pegMap.draws.map((d) => (
+                <tr key={d.draw}>
+                  <td className="pr-3">{d.draw}</td>
+                  <td className="pr-3">{d.row}</td>
+                  <td className="pr-3">{d.peg}</td>
+                  <td className="pr-3">{d.rand}</td>
+                  <td className="pr-3">{d.unroundedLeftBias}</td>
+                  <td>{d.leftBias}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <details>
+          <summary className="cursor-pointer text-gray-400">pegMapHash = SHA256(JSON of the peg map)</summary>
+          <p className={`${codeClass} mt-2 block max-h-40 overflow-auto`}>{trace.pegMap.json}</p>
+        </details>
+        <p className={`${codeClass} text-green-400 block`}>{trace.pegMap.hash}</p>
+      </section>
+
+      {/* 4. Drops */}
+      <section className="space-y-2">
+        <h5 className="font-bold text-white">4. Drops</h5>
+        <p>
+          dropAdjustment = <span className={codeClass}>{trace.formulas.dropAdjustment}</span> ={' '}
+          <span className={codeClass}>{trace.drops[0]?.dropAdjustment}</span>. At row r the ball hits peg{' '}
+          <span className={codeClass}>min(rights so far, r)</span> and goes{' '}
+          <span className={codeClass}>{trace.formulas.decision}</span>. Balls drop one after another, each taking
+          the next {trace.drops[0]?.steps.length} outputs.
+        </p>
+        {trace.drops.map((drop) => (
+          <details key={drop.ball} open={drop.ball === 0}>
+            <summary className="cursor-pointer text-gray-400">
+              Ball {drop.ball + 1} → bin {drop.binIndex}
+            </summary>
+            <div className={`${scrollClass} mt-2`}>
+              <table className={tableClass}>
+                <thead className="text-gray-500">
+                  <tr>
+                    <th className="pr-3">#</th>
+                    <th className="pr-3">row</th>
+                    <th className="pr-3">peg</th>
+                    <th className="pr-3">leftBias</th>
+                    <th className="pr-3">adjustedBias</th>
+                    <th className="pr-3">randomValue</th>
+                    <th>decision</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {drop.steps.map((step) => (
+                    <tr key={step.draw}>
+                      <td className="pr-3">{step.draw}</td>
+                      <td className="pr-3">{step.row}</td>
+                      <td className="pr-3">{step.pegIndex}</td>
+                      <td className="pr-3">{step.leftBias}</td>
+                      <td className="pr-3">{step.adjustedBias}</td>
+                      <td className="pr-3">{step.randomValue}</td>
+                      <td className={step.decision === 'LEFT' ? 'text-blue-400' : 'text-orange-400'}>
+                        {step.decision}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </details>
+        ))}
+      </section>
+    </div>
+  );
+}
@@ -1,36 +1,74 @@
 /**
  * Game Controls Component
  * 
- * Handles user input for drop column selection, bet amount, and drop button.
+ * Handles user input for board size, risk, drop column selection, ball count, currency, bet amount, and drop button.
+ * The bet is entered in major units (e.g. dollars) and kept in the currency's minor units.
+ * Bet bounds and quick bets come from the server's limits (GET /api/config/limits).
  */
 
 'use client';
 
 import { useState } from 'react';
+import { MIN_ROWS, MAX_ROWS, MIN_BALLS, MAX_BALLS, getCenterColumn } from '@/lib/board';
+import { RISK_LEVELS, RiskLevel } from '@/lib/payout';
+import {
+  CURRENCY_CODES,
+  CurrencyCode,
+  formatMoney,
+  getCurrency,
+  toMajorUnits,
+  toMinorUnits,
+} from '@/lib/currency';
+import type { BetLimits } from '@/lib/limits';
 
 interface GameControlsProps {
-  onDrop: (dropColumn: number, betCents: number, clientSeed: string) => void;
+  onDrop: (dropColumn: number, betCents: number, clientSeed: string, ballCount: number) => void;
   isPlaying: boolean;
+  rows: number;
+  onRowsChange: (rows: number) => void;
+  risk: RiskLevel;
+  onRiskChange: (risk: RiskLevel) => void;
+  currency: CurrencyCode;
+  onCurrencyChange: (currency: CurrencyCode) => void;
+  betCents: number; // per ball, in the currency's minor units
+  onBetCentsChange: (betCents: number) => void;
+  limits?: BetLimits; // for the selected currency; undefined until loaded
+  activeClientSeed?: string; // Client seed of the active seed pair
+  upcomingServerSeedHash?: string; // Committed server seed a new client seed is paired with
   disabled?: boolean;
 }
 
 export default function GameControls({
   onDrop,
   isPlaying,
+  rows,
+  onRowsChange,
+  risk,
+  onRiskChange,
+  currency,
+  onCurrencyChange,
+  betCents,
+  onBetCentsChange,
+  limits,
+  activeClientSeed,
+  upcomingServerSeedHash,
   disabled = false,
 }: GameControlsProps) {
-  const [dropColumn, setDropColumn] = useState(6); // Center
-  const [betAmount, setBetAmount] = useState(100); // $1.00
+  const [dropColumn, setDropColumn] = useState(getCenterColumn(rows)); // Center
+  const [ballCount, setBallCount] = useState(MIN_BALLS);
   const [clientSeed, setClientSeed] = useState('');
 
   const handleDrop = () => {
     if (isPlaying || disabled) return;
     
-    // Generate client seed if not provided
-    const seed = clientSeed || `player-${Date.now()}-${Math.random()}`;
-    setClientSeed(seed);
-    
-    onDrop(dropColumn, betAmount, seed);
+    // Empty keeps the active seed pair's client seed; anything else rotates to it
+    onDrop(dropColumn, betCents, clientSeed.trim(), ballCount);
+  };
+
+  const handleRowsChange = (newRows: number) => {
+    onRowsChange(newRows);
+    // Re-center the drop column on the new board
+    setDropColumn(getCenterColumn(newRows));
   };
 
   const handleKeyPress = (e: React.KeyboardEvent) => {
@@ -38,7 +76,7 @@ export default function GameControls({
 
     if (e.key === 'ArrowLeft' && dropColumn > 0) {
       setDropColumn(dropColumn - 1);
-    } else if (e.key === 'ArrowRight' && dropColumn < 12) {
+    } else if (e.key === 'ArrowRight' && dropColumn < rows) {
       setDropColumn(dropColumn + 1);
     } else if (e.key === ' ' || e.key === 'Enter') {
       e.preventDefault();
@@ -60,6 +98,55 @@ export default function GameControls({
       role="region"
       aria-label="Game Controls"
     >
+      {/* Board Size Selector */}
+      <div className="space-y-2 sm:space-y-3">
+        <label htmlFor="board-rows" className="block text-sm font-medium text-gray-300">
+          Rows: <span className="text-xl font-bold text-white">{rows}</span>
+        </label>
+        <input
+          id="board-rows"
+          type="range"
+          min={MIN_ROWS}
+          max={MAX_ROWS}
+          value={rows}
+          onChange={(e) => handleRowsChange(Number(e.target.value))}
+          disabled={isPlaying || disabled}
+          className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500 touch-manipulation"
+          style={{ minHeight: '44px' }} // Touch target size
+          aria-label={`Board rows ${rows}`}
+          aria-valuemin={MIN_ROWS}
+          aria-valuemax={MAX_ROWS}
+          aria-valuenow={rows}
+        />
+        <div className="flex justify-between text-xs text-gray-500">
+          <span>{MIN_ROWS}</span>
+          <span>{MAX_ROWS}</span>
+        </div>
+      </div>
+
+      {/* Risk Selector */}
+      <div className="space-y-2 sm:space-y-3">
+        <span id="risk-label" className="block text-sm font-medium text-gray-300">
+          Risk
+        </span>
+        <div className="grid grid-cols-3 gap-2" role="radiogroup" aria-labelledby="risk-label">
+          {RISK_LEVELS.map((level) => (
+            <button
+              key={level}
+              onClick={() => onRiskChange(level)}
+              disabled={isPlaying || disabled}
+              role="radio"
+              aria-checked={risk === level}
+              className={`px-2 sm:px-3 py-2 text-xs sm:text-sm rounded text-white capitalize disabled:opacity-50 disabled:cursor-not-allowed transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 min-h-[44px] touch-manipulation ${
+                risk === level ? 'bg-blue-600 hover:bg-blue-500' : 'bg-gray-700 hover:bg-gray-600 active:bg-gray-500'
+              }`}
+            >
+              {level}
+            </button>
+          ))}
+        </div>
+      </div>
+
       {/* Drop Column Selector */}
       <div className="space-y-2 sm:space-y-3">
         <label htmlFor="drop-column" className="block text-sm font-medium text-gray-300">
@@ -69,7 +156,7 @@ export default function GameControls({
           id="drop-column"
           type="range"
           min="0"
-          max="12"
+          max={rows}
           value={dropColumn}
           onChange={(e) => setDropColumn(Number(e.target.value))}
           disabled={isPlaying || disabled}
@@ -77,50 +164,107 @@ export default function GameControls({
           style={{ minHeight: '44px' }} // Touch target size
           aria-label={`Drop column ${dropColumn}`}
           aria-valuemin={0}
-          aria-valuemax={12}
+          aria-valuemax={rows}
           aria-valuenow={dropColumn}
         />
         <div className="flex justify-between text-xs text-gray-500">
           <span>0 (Left)</span>
-          <span className="hidden sm:inline">6 (Center)</span>
-          <span className="sm:hidden">6</span>
-          <span>12 (Right)</span>
+          <span className="hidden sm:inline">{getCenterColumn(rows)} (Center)</span>
+          <span className="sm:hidden">{getCenterColumn(rows)}</span>
+          <span>{rows} (Right)</span>
+        </div>
+      </div>
+
+      {/* Ball Count */}
+      <div className="space-y-2 sm:space-y-3">
+        <label htmlFor="ball-count" className="block text-sm font-medium text-gray-300">
+          Balls: <span className="text-xl font-bold text-white">{ballCount}</span>
+        </label>
+        <input
+          id="ball-count"
+          type="range"
+          min={MIN_BALLS}
+          max={MAX_BALLS}
+          value={ballCount}
+          onChange={(e) => setBallCount(Number(e.target.value))}
+          disabled={isPlaying || disabled}
+          className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500 touch-manipulation"
+          style={{ minHeight: '44px' }} // Touch target size
+          aria-label={`Ball count ${ballCount}`}
+          aria-valuemin={MIN_BALLS}
+          aria-valuemax={MAX_BALLS}
+          aria-valuenow={ballCount}
+        />
+        <div className="flex justify-between text-xs text-gray-500">
+          <span>{MIN_BALLS}</span>
+          <span>{MAX_BALLS}</span>
+        </div>
+      </div>
+
+      {/* Currency Selector */}
+      <div className="space-y-2 sm:space-y-3">
+        <span id="currency-label" className="block text-sm font-medium text-gray-300">
+          Currency
+        </span>
+        <div className="grid grid-cols-4 gap-2" role="radiogroup" aria-labelledby="currency-label">
+          {CURRENCY_CODES.map((code) => (
+            <button
+              key={code}
+              onClick={() => onCurrencyChange(code)}
+              disabled={isPlaying || disabled}
+              role="radio"
+              aria-checked={currency === code}
+              aria-label={getCurrency(code).name}
+              className={`px-2 sm:px-3 py-2 text-xs sm:text-sm rounded text-white disabled:opacity-50 disabled:cursor-not-allowed transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 min-h-[44px] touch-manipulation ${
+                currency === code ? 'bg-blue-600 hover:bg-blue-500' : 'bg-gray-700 hover:bg-gray-600 active:bg-gray-500'
+              }`}
+            >
+              {code}
+            </button>
+          ))}
         </div>
       </div>
 
       {/* Bet Amount */}
       <div className="space-y-2 sm:space-y-3">
         <label htmlFor="bet-amount" className="block text-sm font-medium text-gray-300">
-          Bet Amount
+          Bet Amount{ballCount > 1 && <span className="text-xs text-gray-500 ml-2">per ball</span>}
         </label>
         <div className="flex gap-2">
           <input
             id="bet-amount"
             type="number"
-            min="1"
-            max="100000"
-            value={betAmount}
-            onChange={(e) => setBetAmount(Number(e.target.value))}
+            min={limits && toMajorUnits(limits.minBet, currency)}
+            max={limits && toMajorUnits(limits.maxBet, currency)}
+            step={toMajorUnits(1, currency)}
+            value={toMajorUnits(betCents, currency)}
+            onChange={(e) => onBetCentsChange(toMinorUnits(Number(e.target.value), currency))}
             disabled={isPlaying || disabled}
             className="flex-1 px-3 sm:px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500 text-base min-h-[44px] touch-manipulation"
-            aria-label="Bet amount in cents"
+            aria-label={`Bet amount in ${getCurrency(currency).name}`}
             aria-describedby="bet-amount-hint"
           />
-          <span id="bet-amount-hint" className="flex items-center text-gray-400 text-sm sm:text-base">cents</span>
+          <span id="bet-amount-hint" className="flex items-center text-gray-400 text-sm sm:text-base">{currency}</span>
         </div>
-        <div className="grid grid-cols-3 sm:flex sm:flex-row gap-2" role="group" aria-label="Quick bet amount selection">
-          {[10, 50, 100, 500, 1000].map((amount) => (
+        <div className="grid grid-cols-3 sm:flex sm:flex-row sm:flex-wrap gap-2" role="group" aria-label="Quick bet amount selection">
+          {limits?.quickBets.map((amount) => (
             <button
               key={amount}
-              onClick={() => setBetAmount(amount)}
+              onClick={() => onBetCentsChange(amount)}
               disabled={isPlaying || disabled}
               className="px-2 sm:px-3 py-2 text-xs sm:text-sm bg-gray-700 hover:bg-gray-600 active:bg-gray-500 rounded text-white disabled:opacity-50 disabled:cursor-not-allowed transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 min-h-[44px] touch-manipulation"
-              aria-label={`Set bet to ${amount >= 100 ? `$${(amount / 100).toFixed(2)}` : `${amount} cents`}`}
+              aria-label={`Set bet to ${formatMoney(amount, currency)}`}
             >
-              {amount >= 100 ? `$${(amount / 100).toFixed(2)}` : `${amount}¢`}
+              {formatMoney(amount, currency)}
             </button>
           ))}
         </div>
+        {limits && (
+          <p className="text-xs text-gray-500">
+            {formatMoney(limits.minBet, currency)} - {formatMoney(limits.maxBet, currency)} per ball • Max payout{' '}
+            {formatMoney(limits.maxPayout, currency)} per round
+          </p>
+        )}
       </div>
 
       {/* Client Seed (Optional) */}
@@ -135,14 +279,20 @@ export default function GameControls({
           value={clientSeed}
           onChange={(e) => setClientSeed(e.target.value)}
           disabled={isPlaying || disabled}
-          placeholder="Auto-generated if empty"
+          placeholder={activeClientSeed || 'Auto-generated if empty'}
           className="w-full px-3 sm:px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 min-h-[44px] touch-manipulation"
           aria-label="Client seed for provably fair verification"
           aria-describedby="client-seed-description"
         />
         <p id="client-seed-description" className="sr-only">
-          Optional seed value for verifying game fairness. If left empty, a random seed will be generated.
+          Optional seed value for verifying game fairness. If left empty, the active seed pair&apos;s client seed is used. Entering a new one rotates the seed pair.
         </p>
+        {upcomingServerSeedHash && (
+          <p className="text-xs text-gray-500 break-all">
+            A new client seed is paired with the already committed server seed hash{' '}
+            <span className="font-mono">{upcomingServerSeedHash}</span>
+          </p>
+        )}
       </div>
 
       {/* Drop Button */}
@@ -154,7 +304,7 @@ export default function GameControls({
         aria-live="polite"
         aria-busy={isPlaying}
       >
-        {isPlaying ? 'Dropping...' : 'Drop Ball'}
+        {isPlaying ? 'Dropping...' : ballCount > 1 ? `Drop ${ballCount} Balls` : 'Drop Ball'}
       </button>
 
       {/* Keyboard Hints */}
@@ -0,0 +1,169 @@
+/**
+ * Path Replay Component
+ *
+ * Replays a recomputed path on the Plinko board one row at a time, with play,
+ * pause, single-step and speed controls. Each step shows the peg that was hit
+ * and the exact leftBias, adjustedBias, randomValue and decision from the
+ * engine, so the animation is nothing but the verified data.
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import type { PathDecision } from '@/lib/plinko-engine';
+import PlinkoBoard from '@/components/PlinkoBoard';
+
+interface PathReplayProps {
+  rows: number;
+  paths: PathDecision[][]; // Every ball's recomputed path
+  binIndexes: number[]; // Every ball's recomputed landing bin
+}
+
+const SPEEDS = [0.25, 0.5, 1, 2, 4];
+const STEP_MS = 600; // Time per row at 1x
+
+export default function PathReplay({ rows, paths, binIndexes }: PathReplayProps) {
+  const [ball, setBall] = useState(0);
+  const [step, setStep] = useState(0); // Rows replayed so far (0..rows)
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  const path = paths[ball] ?? [];
+  const isFinished = step >= path.length;
+  const current = step > 0 ? path[step - 1] : null;
+  // Playback stops by itself once the ball lands
+  const isRunning = isPlaying && !isFinished;
+
+  // Advance one row per tick while playing
+  useEffect(() => {
+    if (!isRunning) return;
+
+    const timeoutId = setTimeout(() => setStep((s) => s + 1), STEP_MS / speed);
+    return () => clearTimeout(timeoutId);
+  }, [isRunning, step, speed]);
+
+  const selectBall = (next: number) => {
+    setBall(next);
+    setStep(0);
+    setIsPlaying(false);
+  };
+
+  const togglePlay = () => {
+    if (isRunning) {
+      setIsPlaying(false);
+      return;
+    }
+    // Playing a finished replay starts it over
+    if (isFinished) {
+      setStep(0);
+    }
+    setIsPlaying(true);
+  };
+
+  const stepBy = (delta: number) => {
+    setIsPlaying(false);
+    setStep((s) => Math.min(Math.max(s + delta, 0), path.length));
+  };
+
+  const buttonClass =
+    'px-3 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg text-sm font-medium transition-colors disabled:opacity-40 disabled:cursor-not-allowed';
+
+  return (
+    <div className="space-y-4">
+      <PlinkoBoard
+        rows={rows}
+        path={path}
+        binIndex={isFinished ? binIndexes[ball] : undefined}
+        replayStep={step}
+      />
+
+      {/* Controls */}
+      <div className="flex flex-wrap items-center gap-2">
+        <button type="button" onClick={() => stepBy(-path.length)} disabled={step === 0} className={buttonClass}>
+          ⏮ Reset
+        </button>
+        <button type="button" onClick={() => stepBy(-1)} disabled={step === 0} className={buttonClass}>
+          ◀ Step
+        </button>
+        <button
+          type="button"
+          onClick={togglePlay}
+          className="px-4 py-2 bg-green-600 hover:bg-green-500 rounded-lg text-sm font-bold transition-colors"
+        >
+          {isRunning ? '⏸ Pause' : isFinished && step > 0 ? '↻ Replay' : '▶ Play'}
+        </button>
+        <button type="button" onClick={() => stepBy(1)} disabled={isFinished} className={buttonClass}>
+          Step ▶
+        </button>
+
+        <label className="flex items-center gap-2 text-sm text-gray-300 ml-auto">
+          Speed
+          <select
+            value={speed}
+            onChange={(e) => setSpeed(Number(e.target.value))}
+            className="px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white"
+          >
+            {SPEEDS.map((s) => (
+              <option key={s} value={s}>
+                {s}x
+              </option>
+            ))}
+          </select>
+        </label>
+
+        {paths.length > 1 && (
+          <label className="flex items-center gap-2 text-sm text-gray-300">
+            Ball
+            <select
+              value={ball}
+              onChange={(e) => selectBall(Number(e.target.value))}
+              className="px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white"
+            >
+              {paths.map((_, b) => (
+                <option key={b} value={b}>
+                  {b + 1} (bin {binIndexes[b]})
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+      </div>
+
+      {/* Current step */}
+      <div className="bg-gray-900 p-4 rounded text-sm font-mono" aria-live="polite">
+        {current ? (
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+            <div>
+              <span className="text-gray-500">row</span> {current.row} / {path.length - 1}
+            </div>
+            <div>
+              <span className="text-gray-500">peg</span> {current.pegIndex}
+            </div>
+            <div>
+              <span className="text-gray-500">leftBias</span> {current.leftBias}
+            </div>
+            <div>
+              <span className="text-gray-500">adjustedBias</span> {current.adjustedBias}
+            </div>
+            <div>
+              <span className="text-gray-500">randomValue</span> {current.randomValue}
+            </div>
+            <div>
+              <span className="text-gray-500">decision</span>{' '}
+              <span className={current.decision === 'LEFT' ? 'text-blue-400 font-bold' : 'text-orange-400 font-bold'}>
+                {current.decision}
+              </span>
+            </div>
+            <div className="col-span-2 sm:col-span-3 text-gray-400">
+              {current.randomValue} {current.decision === 'LEFT' ? '<' : '≥'} {current.adjustedBias} →{' '}
+              {current.decision}
+              {isFinished && ` · landed in bin ${binIndexes[ball]}`}
+            </div>
+          </div>
+        ) : (
+          <p className="text-gray-400">Press Play or Step to drop the ball row by row.</p>
+        )}
+      </div>
+    </div>
+  );
+}
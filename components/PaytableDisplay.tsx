@@ -1,14 +1,31 @@
 /**
  * Paytable Display Component
  * 
- * Shows the payout multipliers for each bin.
+ * Shows the payout multipliers for each bin and, given a bet, what each bin
+ * pays out in the bet's currency.
  */
 
 'use client';
 
-import { PAYTABLE } from '@/lib/payout';
+import { getPaytable, applyMultiplier, DEFAULT_RISK, RiskLevel } from '@/lib/payout';
+import { ROWS } from '@/lib/board';
+import { CurrencyCode, DEFAULT_CURRENCY, formatMoney } from '@/lib/currency';
+
+interface PaytableDisplayProps {
+  rows?: number;
+  risk?: RiskLevel;
+  betCents?: number; // per ball, in minor units of currency
+  currency?: CurrencyCode;
+}
+
+export default function PaytableDisplay({
+  rows = ROWS,
+  risk = DEFAULT_RISK,
+  betCents,
+  currency = DEFAULT_CURRENCY,
+}: PaytableDisplayProps) {
+  const paytable = getPaytable(rows, risk);
 
-export default function PaytableDisplay() {
   return (
     <div 
       className="rounded-lg p-4 sm:p-6 transition-colors duration-300"
@@ -21,18 +38,30 @@ export default function PaytableDisplay() {
       role="region"
       aria-label="Payout Multipliers Table"
     >
-      <h3 className="text-base sm:text-lg font-bold text-white mb-3 sm:mb-4">Payout Multipliers</h3>
-      <div className="grid grid-cols-13 gap-0.5 sm:gap-1 overflow-x-auto">
-        {PAYTABLE.map((entry) => (
+      <h3 className="text-base sm:text-lg font-bold text-white mb-3 sm:mb-4">
+        Payout Multipliers <span className="text-sm font-normal text-gray-400 capitalize">({risk} risk, {rows} rows)</span>
+      </h3>
+      <div
+        className="grid gap-0.5 sm:gap-1 overflow-x-auto"
+        style={{ gridTemplateColumns: `repeat(${paytable.length}, minmax(0, 1fr))` }}
+      >
+        {paytable.map((entry) => (
           <div
             key={entry.bin}
             className="flex flex-col items-center justify-center p-1 sm:p-2 rounded min-w-0"
             style={{ backgroundColor: entry.color + '40' }}
             role="cell"
-            aria-label={`Bin ${entry.bin}: ${entry.multiplier}x multiplier`}
+            aria-label={`Bin ${entry.bin}: ${entry.multiplier}x multiplier${
+              betCents !== undefined ? `, pays ${formatMoney(applyMultiplier(betCents, entry.multiplierBps), currency)}` : ''
+            }`}
           >
             <div className="text-xs text-gray-400 leading-tight">{entry.bin}</div>
             <div className="text-xs sm:text-sm font-bold text-white leading-tight">{entry.multiplier}x</div>
+            {betCents !== undefined && (
+              <div className="hidden sm:block text-[10px] text-gray-300 leading-tight truncate max-w-full">
+                {formatMoney(applyMultiplier(betCents, entry.multiplierBps), currency)}
+              </div>
+            )}
           </div>
         ))}
       </div>
@@ -2,34 +2,50 @@
  * Plinko Board Component
  * 
  * Renders the Plinko board with pegs and bins using HTML Canvas.
- * Handles ball animation following the deterministic path.
+ * Handles ball animation following the deterministic paths; multi-ball rounds
+ * drop their balls one row apart on the same board. With replayStep set it
+ * instead draws a still frame of the first path for step-by-step replays.
  */
 
 'use client';
 
-import { useRef, useEffect, useState } from 'react';
+import { useRef, useEffect, useState, useMemo } from 'react';
 import { PathDecision } from '@/lib/plinko-engine';
-import { getBinColor } from '@/lib/payout';
+import { getBinColor, DEFAULT_RISK, RiskLevel } from '@/lib/payout';
+import { ROWS as DEFAULT_ROWS, getBinCount } from '@/lib/board';
 import { useReducedMotion } from '@/lib/useReducedMotion';
 
 interface PlinkoBoard {
-  path?: PathDecision[];
-  binIndex?: number;
+  rows?: number; // Board row count (8-16)
+  risk?: RiskLevel; // Selects the paytable used for bin colors
+  path?: PathDecision[]; // Single-ball shorthand for paths={[path]}
+  binIndex?: number; // Single-ball shorthand for binIndexes={[binIndex]}
+  paths?: PathDecision[][]; // Every ball's path, in drop order
+  binIndexes?: number[]; // Every ball's landing bin
   onAnimationComplete?: () => void;
   isAnimating?: boolean;
   onPegHit?: () => void; // Callback for peg collision sound
+  replayStep?: number; // Rows of the first path to show as a still frame (0..rows)
 }
 
-const ROWS = 12;
-const BINS = 13;
-
 export default function PlinkoBoard({
+  rows = DEFAULT_ROWS,
+  risk = DEFAULT_RISK,
   path,
   binIndex,
+  paths,
+  binIndexes,
   onAnimationComplete,
   isAnimating = false,
   onPegHit,
+  replayStep,
 }: PlinkoBoard) {
+  const bins = getBinCount(rows);
+  const ballPaths = useMemo(() => paths ?? (path ? [path] : undefined), [paths, path]);
+  const landingBins = useMemo(
+    () => [...new Set(binIndexes ?? (binIndex !== undefined ? [binIndex] : []))],
+    [binIndexes, binIndex]
+  );
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [dimensions, setDimensions] = useState({ width: 800, height: 900 });
   const [binPulse, setBinPulse] = useState(0); // Pulse animation value (0-1)
@@ -82,8 +98,8 @@ export default function PlinkoBoard({
     const topMargin = height * 0.05;
     const bottomMargin = binHeight + 20;
     const boardHeight = height - topMargin - bottomMargin;
-    const rowSpacing = boardHeight / (ROWS + 1);
-    const horizontalSpacing = width / (BINS + 1);
+    const rowSpacing = boardHeight / (rows + 1);
+    const horizontalSpacing = width / (bins + 1);
 
     // Clear canvas
     ctx.clearRect(0, 0, width, height);
@@ -91,7 +107,7 @@ export default function PlinkoBoard({
     // Draw pegs
     // First row has 3 pegs, each subsequent row adds 1 peg
     ctx.fillStyle = '#94a3b8';
-    for (let row = 0; row < ROWS; row++) {
+    for (let row = 0; row < rows; row++) {
       const pegCount = row + 3; // Start with 3 pegs in first row
       const y = topMargin + (row + 1) * rowSpacing;
       
@@ -106,11 +122,11 @@ export default function PlinkoBoard({
 
     // Draw bins
     const binY = height - binHeight;
-    const binWidth = width / BINS;
+    const binWidth = width / bins;
 
-    for (let i = 0; i < BINS; i++) {
+    for (let i = 0; i < bins; i++) {
       const x = i * binWidth;
-      const color = getBinColor(i);
+      const color = getBinColor(i, rows, risk);
       
       ctx.fillStyle = color + '40'; // Semi-transparent
       ctx.fillRect(x, binY, binWidth - 2, binHeight);
@@ -126,10 +142,10 @@ export default function PlinkoBoard({
       ctx.fillText(i.toString(), x + binWidth / 2, binY + binHeight / 2);
     }
 
-    // Highlight landing bin if provided with pulse effect
-    if (binIndex !== undefined) {
-      const x = binIndex * binWidth;
-      const color = getBinColor(binIndex);
+    // Highlight landing bins if provided with pulse effect
+    for (const landingBin of landingBins) {
+      const x = landingBin * binWidth;
+      const color = getBinColor(landingBin, rows, risk);
       
       // Calculate pulse effect (scale and opacity)
       const pulseScale = 1 + binPulse * 0.1; // Grow slightly during pulse
@@ -150,11 +166,51 @@ export default function PlinkoBoard({
       ctx.restore();
     }
 
-  }, [dimensions, binIndex, binPulse]);
+    // Replay frame: trail through the rows passed so far, the peg just hit and the ball
+    const replayPath = replayStep !== undefined ? ballPaths?.[0] : undefined;
+    if (replayPath && replayStep! > 0) {
+      let gap = 1; // Same gap bookkeeping as the drop animation
+      const points = replayPath.slice(0, replayStep).map((decision, row) => {
+        if (decision.decision === 'RIGHT') gap++;
+        return {
+          x: width / 2 - ((row + 3) * horizontalSpacing) / 2 + gap * horizontalSpacing,
+          y: topMargin + (row + 1) * rowSpacing,
+        };
+      });
+
+      ctx.strokeStyle = '#fbbf2480';
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      ctx.moveTo(width / 2, topMargin);
+      points.forEach(({ x, y }) => ctx.lineTo(x, y));
+      ctx.stroke();
+
+      // Engine peg i of row r is drawn as peg i + 1 (each drawn row has an extra outer peg per side)
+      const current = replayPath[replayStep! - 1];
+      const pegCount = current.row + 3;
+      const pegX = width / 2 - (pegCount - 1) * horizontalSpacing / 2 + (current.pegIndex + 1) * horizontalSpacing;
+      const pegY = topMargin + (current.row + 1) * rowSpacing;
+      ctx.strokeStyle = current.decision === 'LEFT' ? '#60a5fa' : '#fb923c';
+      ctx.lineWidth = 3;
+      ctx.beginPath();
+      ctx.arc(pegX, pegY, pegRadius * 3, 0, Math.PI * 2);
+      ctx.stroke();
+
+      const ball = points[points.length - 1];
+      ctx.fillStyle = '#fbbf24';
+      ctx.shadowBlur = 10;
+      ctx.shadowColor = '#fbbf24';
+      ctx.beginPath();
+      ctx.arc(ball.x, ball.y, width * 0.012, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.shadowBlur = 0;
+    }
+
+  }, [dimensions, landingBins, binPulse, rows, bins, risk, replayStep, ballPaths]);
 
-  // Bin pulse animation when ball lands
+  // Bin pulse animation when balls land
   useEffect(() => {
-    if (binIndex === undefined || isAnimating) return;
+    if (landingBins.length === 0 || isAnimating) return;
 
     // Trigger pulse animation
     let animationId: number;
@@ -186,11 +242,11 @@ export default function PlinkoBoard({
         cancelAnimationFrame(animationId);
       }
     };
-  }, [binIndex, isAnimating]);
+  }, [landingBins, isAnimating]);
 
-  // Animate ball following path
+  // Animate balls following their paths
   useEffect(() => {
-    if (!path || !isAnimating) {
+    if (!ballPaths || !isAnimating) {
       console.log('⏸️ Animation skipped - path or isAnimating is false');
       return;
     }
@@ -210,25 +266,36 @@ export default function PlinkoBoard({
     const binHeight = height * 0.08;
     const bottomMargin = binHeight + 20;
     const boardHeight = height - topMargin - bottomMargin;
-    const rowSpacing = boardHeight / (ROWS + 1);
-    const horizontalSpacing = width / (BINS + 1);
+    const rowSpacing = boardHeight / (rows + 1);
+    const horizontalSpacing = width / (bins + 1);
+
+    const ballStagger = 1; // Rows between consecutive balls entering the board
+    const totalSteps = ballPaths.reduce(
+      (steps, ballPath, ball) => Math.max(steps, ball * ballStagger + ballPath.length),
+      0
+    );
+    // Gap each ball is in after every row (starts in gap 1; 0 = leftmost gap)
+    const positions = ballPaths.map((ballPath) => {
+      let pos = 1;
+      return ballPath.map((decision) => (decision.decision === 'RIGHT' ? ++pos : pos));
+    });
 
-    let currentRow = 0;
-    let currentPos = 1; // Track which gap the ball is in (0 = leftmost gap)
+    let step = 0;
     let animationId: number;
     let timeoutId: NodeJS.Timeout | null = null;
     let isCancelled = false; // Flag to prevent animation after cleanup
 
     // Initial logging
     console.log('🎮 Starting Animation:', {
-      totalRows: path.length,
-      expectedBinIndex: binIndex,
-      startingPosition: currentPos,
+      totalRows: rows,
+      ballCount: ballPaths.length,
+      totalSteps,
+      expectedBinIndexes: landingBins,
       canvasDimensions: { width, height },
       rowSpacing,
       horizontalSpacing,
     });
-    console.log('📍 Full Path:', path.map(p => `Row ${p.row}: ${p.decision}`).join(' → '));
+    console.log('📍 First Path:', ballPaths[0].map(p => `Row ${p.row}: ${p.decision}`).join(' → '));
 
     // Helper function to redraw the entire board
     const redrawBoard = () => {
@@ -237,7 +304,7 @@ export default function PlinkoBoard({
 
       // Redraw pegs
       ctx.fillStyle = '#94a3b8';
-      for (let row = 0; row < ROWS; row++) {
+      for (let row = 0; row < rows; row++) {
         const pegCount = row + 3;
         const y = topMargin + (row + 1) * rowSpacing;
         
@@ -251,11 +318,11 @@ export default function PlinkoBoard({
 
       // Redraw bins
       const binY = height - binHeight;
-      const binWidth = width / BINS;
+      const binWidth = width / bins;
 
-      for (let i = 0; i < BINS; i++) {
+      for (let i = 0; i < bins; i++) {
         const x = i * binWidth;
-        const color = getBinColor(i);
+        const color = getBinColor(i, rows, risk);
         
         ctx.fillStyle = color + '40';
         ctx.fillRect(x, binY, binWidth - 2, binHeight);
@@ -270,10 +337,10 @@ export default function PlinkoBoard({
         ctx.fillText(i.toString(), x + binWidth / 2, binY + binHeight / 2);
       }
 
-      // Highlight landing bin if we know it
-      if (binIndex !== undefined) {
-        const x = binIndex * binWidth;
-        const color = getBinColor(binIndex);
+      // Highlight landing bins if we know them
+      for (const landingBin of landingBins) {
+        const x = landingBin * binWidth;
+        const color = getBinColor(landingBin, rows, risk);
         
         ctx.fillStyle = color + '80';
         ctx.fillRect(x, binY, binWidth - 2, binHeight);
@@ -290,7 +357,7 @@ export default function PlinkoBoard({
         ctx.lineWidth = 1;
         ctx.setLineDash([5, 5]);
         
-        for (let row = 0; row < ROWS; row++) {
+        for (let row = 0; row < rows; row++) {
           const pegCount = row + 3;
           const y = topMargin + (row + 1) * rowSpacing;
           
@@ -324,75 +391,64 @@ export default function PlinkoBoard({
         return;
       }
 
-      if (currentRow >= path.length) {
-        console.log('🎯 Animation Complete! Final position:', currentPos);
+      if (step >= totalSteps) {
+        console.log('🎯 Animation Complete! Final bins:', landingBins);
         onAnimationComplete?.();
         return;
       }
 
-      const decision = path[currentRow];
-      const posBeforeMove = currentPos;
-      
-      // Calculate target position (gap number after this row)
-      if (decision.decision === 'RIGHT') {
-        currentPos++;
-      }
-      // If LEFT, currentPos stays the same (same gap)
-
-      const endY = topMargin + (currentRow + 1) * rowSpacing;
-      
-      // Calculate X position: ball travels in GAPS between pegs
-      // For row with pegCount pegs (starting with 3), there are pegCount+1 gaps
-      const pegCount = currentRow + 3; // Visual peg count (3, 4, 5, ...)
-      const gapCount = pegCount + 1; // Number of gaps between/around pegs
-      
-      // Center the gaps around the board center
-      const totalGapWidth = (gapCount - 1) * horizontalSpacing;
-      const firstGapX = width / 2 - totalGapWidth / 2;
-      const currentX = firstGapX + currentPos * horizontalSpacing;
-
-      // Debug logging
-      console.log(`🏐 Row ${currentRow}:`, {
-        decision: decision.decision,
-        positionBefore: posBeforeMove,
-        positionAfter: currentPos,
-        pegCount,
-        gapCount,
-        xPosition: currentX.toFixed(2),
-        yPosition: endY.toFixed(2),
-        firstGapX: firstGapX.toFixed(2),
-        totalGapWidth: totalGapWidth.toFixed(2),
-      });
-
       // Clear canvas and redraw everything
       redrawBoard();
 
-      // Draw the ball at current position
-      ctx.fillStyle = '#fbbf24';
-      ctx.shadowBlur = 10;
-      ctx.shadowColor = '#fbbf24';
-      ctx.beginPath();
-      ctx.arc(currentX, endY, ballRadius, 0, Math.PI * 2);
-      ctx.fill();
-      ctx.shadowBlur = 0;
+      let activeBalls = 0;
+      ballPaths.forEach((ballPath, ball) => {
+        const row = step - ball * ballStagger;
+        if (row < 0 || row >= ballPath.length) return;
+        activeBalls++;
+
+        const decision = ballPath[row];
+        const endY = topMargin + (row + 1) * rowSpacing;
+
+        // Calculate X position: ball travels in GAPS between pegs
+        // For row with pegCount pegs (starting with 3), there are pegCount+1 gaps
+        const pegCount = row + 3; // Visual peg count (3, 4, 5, ...)
+        const gapCount = pegCount + 1; // Number of gaps between/around pegs
+
+        // Center the gaps around the board center
+        const totalGapWidth = (gapCount - 1) * horizontalSpacing;
+        const firstGapX = width / 2 - totalGapWidth / 2;
+        const currentX = firstGapX + positions[ball][row] * horizontalSpacing;
+
+        // Draw the ball at current position
+        ctx.fillStyle = '#fbbf24';
+        ctx.shadowBlur = 10;
+        ctx.shadowColor = '#fbbf24';
+        ctx.beginPath();
+        ctx.arc(currentX, endY, ballRadius, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.shadowBlur = 0;
 
-      // Debug mode: Show decision info
-      if (debugMode && decision) {
-        ctx.fillStyle = '#00ff00';
-        ctx.font = `${width * 0.014}px monospace`;
-        ctx.fillText(
-          `RNG: ${decision.randomValue.toFixed(4)} | Bias: ${decision.adjustedBias.toFixed(4)} | ${decision.decision}`,
-          currentX - 80,
-          endY - 15
-        );
-      }
+        // Debug mode: Show decision info for the leading ball
+        if (debugMode && activeBalls === 1) {
+          ctx.fillStyle = '#00ff00';
+          ctx.font = `${width * 0.014}px monospace`;
+          ctx.fillText(
+            `RNG: ${decision.randomValue.toFixed(4)} | Bias: ${decision.adjustedBias.toFixed(4)} | ${decision.decision}`,
+            currentX - 80,
+            endY - 15
+          );
+        }
+      });
+
+      // Debug logging
+      console.log(`🏐 Step ${step}:`, { activeBalls });
 
       // Play peg hit sound
       onPegHit?.();
 
-      currentRow++;
+      step++;
       
-      if (currentRow < path.length) {
+      if (step < totalSteps) {
         // Reduce animation time if user prefers reduced motion
         const delay = prefersReducedMotion ? 30 : 100; // Much faster for reduced motion
         timeoutId = setTimeout(() => {
@@ -419,7 +475,7 @@ export default function PlinkoBoard({
         clearTimeout(timeoutId);
       }
     };
-  }, [path, isAnimating, dimensions, onAnimationComplete, binIndex, onPegHit, prefersReducedMotion, debugMode]);
+  }, [ballPaths, isAnimating, dimensions, onAnimationComplete, landingBins, onPegHit, prefersReducedMotion, debugMode, rows, bins, risk]);
 
   return (
     <div 
@@ -0,0 +1,183 @@
+/**
+ * Receipt Verifier Component
+ *
+ * Checks operator-signed round receipts (lib/receipts.ts) in the browser with
+ * WebCrypto Ed25519. Receipts can be pasted (as copied from the game's round
+ * info) or loaded by round ID; the public key is prefilled from
+ * GET /api/receipts/public-key and can be replaced with one published elsewhere.
+ * Outcome receipts must sign every ball's bin, the payout and the currency;
+ * version 1 receipts, which predate those fields, are flagged as not covering them.
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import { LEGACY_RECEIPT_VERSION, type RoundReceipt } from '@/lib/receipts';
+import { verifyReceipt } from '@/lib/fairness-web';
+
+interface ReceiptCheck {
+  receipt: RoundReceipt;
+  valid: boolean;
+}
+
+function parseReceipts(text: string): RoundReceipt[] {
+  const data = JSON.parse(text);
+  const receipts = Array.isArray(data) ? data : [data];
+  if (receipts.some((receipt) => !receipt?.payload || typeof receipt.signature !== 'string')) {
+    throw new Error('Expected a receipt ({ algorithm, publicKey, payload, signature }) or an array of them');
+  }
+  return receipts;
+}
+
+export default function ReceiptVerifier() {
+  const [publicKey, setPublicKey] = useState('');
+  const [receiptText, setReceiptText] = useState('');
+  const [roundId, setRoundId] = useState('');
+  const [checks, setChecks] = useState<ReceiptCheck[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Prefill the operator's published key; unsigned deployments return 404
+  useEffect(() => {
+    fetch('/api/receipts/public-key')
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (data?.publicKey) setPublicKey((current) => current || data.publicKey);
+      })
+      .catch(() => {});
+  }, []);
+
+  const loadRound = async () => {
+    setError(null);
+    try {
+      const res = await fetch(`/api/rounds/${encodeURIComponent(roundId.trim())}`);
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to load round');
+      }
+      const receipts = [data.commitReceipt, data.outcomeReceipt].filter(Boolean);
+      if (receipts.length === 0) {
+        throw new Error('This round has no signed receipts');
+      }
+      setReceiptText(JSON.stringify(receipts, null, 2));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load round');
+    }
+  };
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setChecks([]);
+    setIsLoading(true);
+
+    try {
+      const key = publicKey.trim().toLowerCase();
+      const receipts = parseReceipts(receiptText);
+      setChecks(
+        await Promise.all(
+          receipts.map(async (receipt) => ({ receipt, valid: await verifyReceipt(receipt, key) }))
+        )
+      );
+    } catch (err) {
+      setError(
+        err instanceof Error && err.name === 'NotSupportedError'
+          ? 'This browser does not support Ed25519 in WebCrypto; use a current browser or the offline tools'
+          : err instanceof Error
+            ? err.message
+            : 'Verification failed'
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-6">
+      <h2 className="text-xl font-bold mb-2">Verify Signed Receipts</h2>
+      <p className="text-gray-400 text-sm mb-4">
+        The operator signs each round&apos;s commitment and outcome with its Ed25519 key. A valid receipt proves
+        the operator promised exactly these values.
+      </p>
+
+      <div className="flex gap-3 mb-4">
+        <input
+          type="text"
+          value={roundId}
+          onChange={(e) => setRoundId(e.target.value)}
+          placeholder="Round ID (optional)"
+          className="flex-1 px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white font-mono text-sm focus:outline-none focus:ring-2 focus:ring-green-500"
+        />
+        <button
+          type="button"
+          onClick={loadRound}
+          disabled={!roundId.trim()}
+          className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Load Receipts
+        </button>
+      </div>
+
+      <form onSubmit={handleVerify} className="space-y-3">
+        <textarea
+          value={receiptText}
+          onChange={(e) => setReceiptText(e.target.value)}
+          required
+          rows={5}
+          placeholder="Paste a receipt (or an array of receipts) as JSON"
+          className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white font-mono text-xs focus:outline-none focus:ring-2 focus:ring-green-500"
+        />
+        <div>
+          <label className="block text-sm font-medium mb-2">Operator Public Key (Ed25519, hex)</label>
+          <input
+            type="text"
+            value={publicKey}
+            onChange={(e) => setPublicKey(e.target.value)}
+            required
+            className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white font-mono text-sm focus:outline-none focus:ring-2 focus:ring-green-500"
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={isLoading}
+          className="px-6 py-2 bg-green-600 hover:bg-green-500 text-white font-bold rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isLoading ? 'Verifying...' : 'Verify Receipts'}
+        </button>
+      </form>
+
+      {error && (
+        <div className="mt-4 p-3 bg-red-900/50 border border-red-500 rounded-lg text-red-200 text-sm">
+          {error}
+        </div>
+      )}
+
+      {checks.length > 0 && (
+        <div className="mt-4 space-y-3 text-sm">
+          {checks.map(({ receipt, valid }, i) => (
+            <div key={i} className="bg-gray-900 rounded p-3">
+              <p className={valid ? 'text-green-500 font-bold' : 'text-red-400 font-bold'}>
+                {valid
+                  ? `✓ Valid ${receipt.payload.type} receipt`
+                  : `✗ Invalid ${receipt.payload?.type ?? ''} receipt: signature, signing key or signed fields do not match`}
+              </p>
+              {valid && receipt.payload.type === 'outcome' && receipt.payload.version === LEGACY_RECEIPT_VERSION && (
+                <p className="text-yellow-400 text-xs mt-1">
+                  Version 1 receipt: it does not sign the ball count, every ball&apos;s bin, the payout or the currency.
+                </p>
+              )}
+              <dl className="grid grid-cols-2 gap-x-4 gap-y-1 mt-2 text-xs font-mono">
+                {Object.entries(receipt.payload).map(([field, value]) => (
+                  <div key={field} className="contents">
+                    <dt className="text-gray-500">{field}</dt>
+                    <dd className="text-gray-300 break-all">{value === null ? '—' : String(value)}</dd>
+                  </div>
+                ))}
+              </dl>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
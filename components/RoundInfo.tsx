@@ -7,33 +7,59 @@
 'use client';
 
 import { useState } from 'react';
+import { formatMultiplier } from '@/lib/payout';
+import { CurrencyCode, DEFAULT_CURRENCY, formatMoney } from '@/lib/currency';
+import type { RoundReceipt } from '@/lib/receipts';
 
 interface RoundInfoProps {
   roundId?: string;
+  serverSeedHash?: string;
+  chainIndex?: number;
+  chainTerminalHash?: string;
   commitHex?: string;
   nonce?: string;
   clientSeed?: string;
   serverSeed?: string;
   binIndex?: number;
-  payout?: number;
-  payoutMultiplier?: number;
+  binIndexes?: number[];
+  ballCount?: number;
+  payoutCents?: number; // minor units of currency
+  payoutMultiplierBps?: number;
+  currency?: CurrencyCode;
   status?: string;
   dropColumn?: number;
+  rows?: number;
+  risk?: string;
+  algorithmVersion?: string;
+  commitReceipt?: RoundReceipt | null;
+  outcomeReceipt?: RoundReceipt | null;
 }
 
 export default function RoundInfo({
   roundId,
+  serverSeedHash,
+  chainIndex,
+  chainTerminalHash,
   commitHex,
   nonce,
   clientSeed,
   serverSeed,
   binIndex,
-  payout,
-  payoutMultiplier,
+  binIndexes,
+  ballCount,
+  payoutCents,
+  payoutMultiplierBps,
+  currency = DEFAULT_CURRENCY,
   status,
   dropColumn,
+  rows,
+  risk,
+  algorithmVersion,
+  commitReceipt,
+  outcomeReceipt,
 }: RoundInfoProps) {
   const [copied, setCopied] = useState(false);
+  const [copiedReceipt, setCopiedReceipt] = useState<string | null>(null);
 
   const generateVerifyLink = () => {
     if (!serverSeed || !clientSeed || !nonce || dropColumn === undefined) return '';
@@ -45,6 +71,19 @@ export default function RoundInfo({
       nonce,
       dropColumn: dropColumn.toString(),
     });
+    if (rows !== undefined) {
+      params.set('rows', rows.toString());
+    }
+    if (algorithmVersion) {
+      params.set('algorithm', algorithmVersion);
+    }
+    if (ballCount !== undefined && ballCount > 1) {
+      params.set('ballCount', ballCount.toString());
+    }
+    if (chainIndex !== undefined && chainTerminalHash) {
+      params.set('chainIndex', chainIndex.toString());
+      params.set('terminalHash', chainTerminalHash);
+    }
     
     return `${baseUrl}/verify?${params.toString()}`;
   };
@@ -61,6 +100,20 @@ export default function RoundInfo({
       console.error('Failed to copy:', err);
     }
   };
+  const copyReceipt = async (receipt: RoundReceipt) => {
+    try {
+      await navigator.clipboard.writeText(JSON.stringify(receipt));
+      setCopiedReceipt(receipt.payload.type);
+      setTimeout(() => setCopiedReceipt(null), 2000);
+    } catch (err) {
+      console.error('Failed to copy:', err);
+    }
+  };
+
+  const receipts = [commitReceipt, outcomeReceipt].filter(
+    (receipt): receipt is RoundReceipt => !!receipt
+  );
+
   if (!roundId) {
     return (
       <div 
@@ -105,6 +158,7 @@ export default function RoundInfo({
           <span className={`font-bold ${
             status === 'REVEALED' ? 'text-green-500' :
             status === 'STARTED' ? 'text-yellow-500' :
+            status === 'EXPIRED' || status === 'CANCELLED' ? 'text-gray-500' :
             'text-blue-500'
           }`} role="status" aria-live="polite">
             {status}
@@ -113,20 +167,50 @@ export default function RoundInfo({
 
         {binIndex !== undefined && (
           <>
-            <div className="flex justify-between">
-              <span className="text-gray-400">Landing Bin:</span>
-              <span className="text-white font-bold text-base sm:text-lg">{binIndex}</span>
-            </div>
+            {rows !== undefined && (
+              <div className="flex justify-between">
+                <span className="text-gray-400">Rows:</span>
+                <span className="text-white font-bold">{rows}</span>
+              </div>
+            )}
+
+            {risk && (
+              <div className="flex justify-between">
+                <span className="text-gray-400">Risk:</span>
+                <span className="text-white font-bold capitalize">{risk}</span>
+              </div>
+            )}
+
+            {algorithmVersion && (
+              <div className="flex justify-between">
+                <span className="text-gray-400">Algorithm:</span>
+                <span className="text-white font-mono text-sm">{algorithmVersion}</span>
+              </div>
+            )}
+
+            {ballCount !== undefined && ballCount > 1 && binIndexes ? (
+              <div className="flex justify-between gap-4">
+                <span className="text-gray-400 whitespace-nowrap">Landing Bins ({ballCount}):</span>
+                <span className="text-white font-mono text-sm text-right break-all">{binIndexes.join(', ')}</span>
+              </div>
+            ) : (
+              <div className="flex justify-between">
+                <span className="text-gray-400">Landing Bin:</span>
+                <span className="text-white font-bold text-base sm:text-lg">{binIndex}</span>
+              </div>
+            )}
             
             <div className="flex justify-between">
-              <span className="text-gray-400">Multiplier:</span>
-              <span className="text-white font-bold text-base sm:text-lg">{payoutMultiplier}x</span>
+              <span className="text-gray-400">{ballCount !== undefined && ballCount > 1 ? 'Avg. Multiplier:' : 'Multiplier:'}</span>
+              <span className="text-white font-bold text-base sm:text-lg">
+                {payoutMultiplierBps !== undefined && formatMultiplier(payoutMultiplierBps)}x
+              </span>
             </div>
             
             <div className="flex justify-between">
               <span className="text-gray-400">Payout:</span>
               <span className="text-green-500 font-bold text-base sm:text-lg">
-                ${((payout || 0) / 100).toFixed(2)}
+                {formatMoney(payoutCents || 0, currency)}
               </span>
             </div>
           </>
@@ -136,6 +220,24 @@ export default function RoundInfo({
           <p className="text-xs text-gray-500 mb-2">Fairness Proof:</p>
           
           <div className="space-y-1">
+            {serverSeedHash && (
+              <div>
+                <span className="text-gray-500 text-xs">Server Seed Hash (Seed Pair):</span>
+                <p className="text-gray-300 font-mono text-xs break-all">
+                  {serverSeedHash}
+                </p>
+              </div>
+            )}
+
+            {chainIndex !== undefined && chainTerminalHash && (
+              <div>
+                <span className="text-gray-500 text-xs">Hash Chain Link #{chainIndex} (Terminal Hash):</span>
+                <p className="text-gray-300 font-mono text-xs break-all">
+                  {chainTerminalHash}
+                </p>
+              </div>
+            )}
+
             <div>
               <span className="text-gray-500 text-xs">Commit Hash:</span>
               <p className="text-gray-300 font-mono text-xs break-all">
@@ -165,9 +267,47 @@ export default function RoundInfo({
                 </p>
               </div>
             )}
+
+            {!serverSeed && status === 'REVEALED' && (
+              <p className="text-xs text-gray-500">
+                Server seed is revealed when you rotate seeds.
+              </p>
+            )}
           </div>
         </div>
 
+        {receipts.length > 0 && (
+          <div className="border-t border-gray-700 pt-3 mt-3">
+            <p className="text-xs text-gray-500 mb-2">Signed Receipts ({receipts[0].algorithm}):</p>
+
+            <div className="space-y-2">
+              {receipts.map((receipt) => (
+                <div key={receipt.payload.type}>
+                  <div className="flex justify-between items-center gap-2">
+                    <span className="text-gray-500 text-xs capitalize">
+                      {receipt.payload.type} receipt
+                      {receipt.payload.type === 'outcome' &&
+                        ` (bin ${receipt.payload.binIndex}, ${receipt.payload.multiplier}x)`}
+                      :
+                    </span>
+                    <button
+                      onClick={() => copyReceipt(receipt)}
+                      className="text-xs text-blue-400 hover:underline focus:outline-none focus:ring-2 focus:ring-blue-400 rounded"
+                      aria-label={`Copy ${receipt.payload.type} receipt to clipboard`}
+                    >
+                      {copiedReceipt === receipt.payload.type ? '✓ Copied!' : '📋 Copy'}
+                    </button>
+                  </div>
+                  <p className="text-gray-300 font-mono text-xs break-all">{receipt.signature}</p>
+                </div>
+              ))}
+              <p className="text-xs text-gray-500">
+                Signed by operator key {receipts[0].publicKey.slice(0, 16)}…; check receipts on the verify page.
+              </p>
+            </div>
+          </div>
+        )}
+
         {status === 'REVEALED' && serverSeed && clientSeed && dropColumn !== undefined && (
           <div className="mt-4 space-y-2">
             <a
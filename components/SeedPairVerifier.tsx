@@ -0,0 +1,236 @@
+/**
+ * Seed Pair Verifier Component
+ *
+ * Loads a rotated seed pair and re-verifies every round played under it:
+ * the revealed server seed must hash to the published serverSeedHash, and each
+ * round's commit, combined seed, peg map hash and landing bin must recompute.
+ * Seeds drawn from a hash chain are also checked against the chain's terminal hash.
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+
+interface SeedPairRound {
+  roundId: string;
+  nonce: string;
+  commitHex: string;
+  combinedSeed: string;
+  pegMapHash: string;
+  algorithmVersion: string;
+  rows: number;
+  dropColumn: number;
+  binIndex: number;
+  binIndexes: number[];
+  ballCount: number;
+}
+
+interface SeedPairData {
+  seedPairId: string;
+  status: string;
+  serverSeedHash: string;
+  serverSeed: string | null;
+  clientSeed: string;
+  chain: {
+    chainId: string;
+    chainIndex: number;
+    terminalHash: string;
+    length: number;
+  } | null;
+  rounds: SeedPairRound[];
+}
+
+interface RoundCheck {
+  roundId: string;
+  nonce: string;
+  mismatches: string[];
+}
+
+interface SeedPairVerifierProps {
+  initialSeedPairId?: string;
+}
+
+export default function SeedPairVerifier({ initialSeedPairId = '' }: SeedPairVerifierProps) {
+  const [seedPairId, setSeedPairId] = useState(initialSeedPairId);
+  const [seedPair, setSeedPair] = useState<SeedPairData | null>(null);
+  const [hashMatches, setHashMatches] = useState<boolean | null>(null);
+  const [chainValid, setChainValid] = useState<boolean | null>(null);
+  const [checks, setChecks] = useState<RoundCheck[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const verifySeedPair = useCallback(async (id: string) => {
+    if (!id) return;
+
+    setError(null);
+    setSeedPair(null);
+    setHashMatches(null);
+    setChainValid(null);
+    setChecks([]);
+    setIsLoading(true);
+
+    try {
+      const res = await fetch(`/api/seeds/${encodeURIComponent(id)}`);
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(errorData.error || 'Failed to load seed pair');
+      }
+
+      const data: SeedPairData = await res.json();
+      setSeedPair(data);
+
+      if (!data.serverSeed) {
+        throw new Error('Seed pair is still active; rotate seeds to reveal its server seed');
+      }
+
+      const serverSeed = data.serverSeed;
+
+      // Recompute every round through the public verifier
+      const results = await Promise.all(
+        data.rounds.map(async (round) => {
+          const params = new URLSearchParams({
+            serverSeed,
+            clientSeed: data.clientSeed,
+            nonce: round.nonce,
+            dropColumn: round.dropColumn.toString(),
+            rows: round.rows.toString(),
+            algorithm: round.algorithmVersion,
+            ballCount: round.ballCount.toString(),
+          });
+          if (data.chain) {
+            params.set('chainIndex', data.chain.chainIndex.toString());
+            params.set('terminalHash', data.chain.terminalHash);
+          }
+          const verifyRes = await fetch(`/api/verify?${params}`);
+          const { computed } = await verifyRes.json();
+
+          const mismatches: string[] = [];
+          if (computed.commitHex !== round.commitHex) mismatches.push('commitHex');
+          if (computed.combinedSeed !== round.combinedSeed) mismatches.push('combinedSeed');
+          if (computed.pegMapHash !== round.pegMapHash) mismatches.push('pegMapHash');
+          if (computed.binIndex !== round.binIndex) mismatches.push('binIndex');
+          if (JSON.stringify(computed.binIndexes) !== JSON.stringify(round.binIndexes)) {
+            mismatches.push('binIndexes');
+          }
+
+          return {
+            roundId: round.roundId,
+            nonce: round.nonce,
+            mismatches,
+            serverSeedHash: computed.serverSeedHash,
+            chainValid: computed.chain?.positionValid ?? null,
+          };
+        })
+      );
+
+      if (results.length > 0) {
+        setHashMatches(results[0].serverSeedHash === data.serverSeedHash);
+        setChainValid(results[0].chainValid);
+      }
+      setChecks(results.map(({ roundId, nonce, mismatches }) => ({ roundId, nonce, mismatches })));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Verification failed');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Auto-verify when opened from a permalink
+  useEffect(() => {
+    if (initialSeedPairId) {
+      setSeedPairId(initialSeedPairId);
+      verifySeedPair(initialSeedPairId);
+    }
+  }, [initialSeedPairId, verifySeedPair]);
+
+  const failedCount = checks.filter((check) => check.mismatches.length > 0).length;
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-6 mb-6">
+      <h2 className="text-xl font-bold mb-2">Verify Seed Pair</h2>
+      <p className="text-gray-400 text-sm mb-4">
+        After rotating seeds, check every round played under the revealed server seed.
+      </p>
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          verifySeedPair(seedPairId.trim());
+        }}
+        className="flex gap-3"
+      >
+        <input
+          type="text"
+          value={seedPairId}
+          onChange={(e) => setSeedPairId(e.target.value)}
+          required
+          placeholder="Seed pair ID"
+          className="flex-1 px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white font-mono text-sm focus:outline-none focus:ring-2 focus:ring-green-500"
+        />
+        <button
+          type="submit"
+          disabled={isLoading}
+          className="px-6 py-2 bg-green-600 hover:bg-green-500 text-white font-bold rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isLoading ? 'Verifying...' : 'Verify Rounds'}
+        </button>
+      </form>
+
+      {error && (
+        <div className="mt-4 p-3 bg-red-900/50 border border-red-500 rounded-lg text-red-200 text-sm">
+          {error}
+        </div>
+      )}
+
+      {seedPair && seedPair.serverSeed && (
+        <div className="mt-4 space-y-3 text-sm">
+          <div>
+            <span className="text-gray-400">Server Seed Hash:</span>
+            <p className="text-white font-mono break-all bg-gray-900 p-2 rounded mt-1">{seedPair.serverSeedHash}</p>
+          </div>
+          <div>
+            <span className="text-gray-400">Revealed Server Seed:</span>
+            <p className="text-white font-mono break-all bg-gray-900 p-2 rounded mt-1">{seedPair.serverSeed}</p>
+          </div>
+
+          {hashMatches !== null && (
+            <p className={hashMatches ? 'text-green-500 font-bold' : 'text-red-400 font-bold'}>
+              {hashMatches ? '✓ SHA256(serverSeed) matches the published hash' : '✗ Server seed does not match the published hash'}
+            </p>
+          )}
+
+          {seedPair.chain && chainValid !== null && (
+            <p className={chainValid ? 'text-green-500 font-bold' : 'text-red-400 font-bold'}>
+              {chainValid
+                ? `✓ Server seed is link #${seedPair.chain.chainIndex} of ${seedPair.chain.length} in chain ${seedPair.chain.terminalHash.slice(0, 16)}…`
+                : `✗ Server seed does not sit at link #${seedPair.chain.chainIndex} of the published chain`}
+            </p>
+          )}
+
+          {checks.length > 0 ? (
+            <>
+              <p className={failedCount === 0 ? 'text-green-500' : 'text-red-400'}>
+                {checks.length - failedCount} of {checks.length} rounds verified
+              </p>
+              <div className="bg-gray-900 p-4 rounded space-y-1 max-h-64 overflow-y-auto">
+                {checks.map((check) => (
+                  <div key={check.roundId} className="flex items-center gap-3">
+                    <span className="text-gray-500 w-20">Nonce {check.nonce}</span>
+                    <span className="text-gray-400 font-mono text-xs flex-1 truncate">{check.roundId}</span>
+                    {check.mismatches.length === 0 ? (
+                      <span className="text-green-500">✓</span>
+                    ) : (
+                      <span className="text-red-400">✗ {check.mismatches.join(', ')}</span>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </>
+          ) : (
+            !isLoading && <p className="text-gray-400">No rounds were played under this seed pair.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
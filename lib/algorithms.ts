@@ -0,0 +1,139 @@
+/**
+ * Fairness Algorithm Registry
+ *
+ * Every round records the algorithm version that produced it. A version fixes
+ * the PRNG and the bias formulas the engine uses, so changing any of them means
+ * adding a new version here, never editing an existing one. Old rounds stay
+ * verifiable forever by dispatching on their stored version.
+ *
+ * The registry has no Node dependencies so the browser verifier can share it;
+ * callers supply the HMAC implementation.
+ */
+
+import { Prng, HmacSha256, Xorshift32, HmacStreamPrng } from './prng';
+
+export type { Prng, HmacSha256 } from './prng';
+
+/**
+ * Seeds a PRNG may draw from. Older verification paths only know the
+ * combined seed, so the raw seeds are optional here.
+ */
+export interface PrngSeeds {
+  combinedSeed: string;
+  serverSeed?: string;
+  clientSeed?: string;
+  nonce?: string;
+}
+
+export interface PlinkoAlgorithm {
+  version: string;
+  description: string;
+  /** Which PRNG createPrng builds, for computation traces */
+  prng: 'xorshift32' | 'hmac-sha256';
+  /** Human-readable formulas, for computation traces */
+  formulas: { leftBias: string; dropAdjustment: string };
+  /** Create the PRNG for a round from its seeds, drawing on `hmac` if needed */
+  createPrng(seeds: PrngSeeds, hmac: HmacSha256): Prng;
+  /** leftBias before rounding, for computation traces */
+  unroundedLeftBias(rand: number): number;
+  /** Map one PRNG draw to a peg's leftBias (rounded for stable hashing) */
+  pegLeftBias(rand: number): number;
+  /** Bias shift applied for the player's drop column */
+  dropAdjustment(dropColumn: number, rows: number): number;
+}
+
+/**
+ * Original algorithm: Xorshift32 seeded from the first 4 bytes of combinedSeed
+ * - leftBias = 0.5 + (rand() - 0.5) * 0.2, rounded to 6 decimals
+ * - adj = (dropColumn - floor(rows / 2)) * 0.01
+ */
+const v1LeftBias = (rand: number) => 0.5 + (rand - 0.5) * 0.2;
+
+const XORSHIFT32_V1: PlinkoAlgorithm = {
+  version: 'xorshift32-v1',
+  description: 'Xorshift32 seeded from the first 4 bytes of combinedSeed',
+  prng: 'xorshift32',
+  formulas: {
+    leftBias: 'round6(0.5 + (rand - 0.5) * 0.2)',
+    dropAdjustment: '(dropColumn - floor(rows / 2)) * 0.01',
+  },
+  createPrng: ({ combinedSeed }) => new Xorshift32(combinedSeed),
+  unroundedLeftBias: v1LeftBias,
+  pegLeftBias: (rand) => Number(v1LeftBias(rand).toFixed(6)),
+  dropAdjustment: (dropColumn, rows) => (dropColumn - Math.floor(rows / 2)) * 0.01,
+};
+
+/**
+ * Full-entropy algorithm: HMAC-SHA256(serverSeed, clientSeed:nonce:cursor) blocks
+ * Bias formulas are unchanged from xorshift32-v1; only the PRNG differs.
+ */
+const HMAC_SHA256_V2: PlinkoAlgorithm = {
+  version: 'hmac-sha256-v2',
+  description: 'HMAC-SHA256(serverSeed, clientSeed:nonce:cursor) byte stream',
+  prng: 'hmac-sha256',
+  formulas: XORSHIFT32_V1.formulas,
+  createPrng: ({ serverSeed, clientSeed, nonce }, hmac) => {
+    if (serverSeed === undefined || clientSeed === undefined || nonce === undefined) {
+      throw new Error('HMAC-SHA256 algorithms require serverSeed, clientSeed and nonce');
+    }
+    return new HmacStreamPrng(hmac, serverSeed, clientSeed, nonce);
+  },
+  unroundedLeftBias: XORSHIFT32_V1.unroundedLeftBias,
+  pegLeftBias: XORSHIFT32_V1.pegLeftBias,
+  dropAdjustment: XORSHIFT32_V1.dropAdjustment,
+};
+
+/**
+ * Symmetric, bounded drop column adjustment on the v2 PRNG
+ * v1 centers the adjustment on floor(rows / 2), so odd-row boards lean left
+ * (-0.07..+0.08 on 15 rows), and lets it grow with the board, which pushed
+ * edge columns of the 14-16 row tables to 109-185% RTP. v3 centers it on
+ * rows / 2 and scales it to at most ±0.005 at the edge columns of any board.
+ * - adj = (dropColumn - rows / 2) / rows * 0.01
+ */
+const HMAC_SHA256_V3: PlinkoAlgorithm = {
+  version: 'hmac-sha256-v3',
+  description: 'HMAC-SHA256 byte stream with a drop column adjustment symmetric about the board center',
+  prng: 'hmac-sha256',
+  formulas: {
+    leftBias: XORSHIFT32_V1.formulas.leftBias,
+    dropAdjustment: '(dropColumn - rows / 2) / rows * 0.01',
+  },
+  createPrng: HMAC_SHA256_V2.createPrng,
+  unroundedLeftBias: XORSHIFT32_V1.unroundedLeftBias,
+  pegLeftBias: XORSHIFT32_V1.pegLeftBias,
+  dropAdjustment: (dropColumn, rows) => ((dropColumn - rows / 2) / rows) * 0.01,
+};
+
+export const ALGORITHMS: Record<string, PlinkoAlgorithm> = {
+  [XORSHIFT32_V1.version]: XORSHIFT32_V1,
+  [HMAC_SHA256_V2.version]: HMAC_SHA256_V2,
+  [HMAC_SHA256_V3.version]: HMAC_SHA256_V3,
+};
+
+/**
+ * Version assumed for rounds and verifier links that predate the registry
+ */
+export const LEGACY_ALGORITHM_VERSION = XORSHIFT32_V1.version;
+
+/**
+ * Version used for new rounds
+ */
+export const CURRENT_ALGORITHM_VERSION = HMAC_SHA256_V3.version;
+
+/**
+ * Check that a version is registered
+ */
+export function isKnownAlgorithmVersion(version: string): boolean {
+  return Object.prototype.hasOwnProperty.call(ALGORITHMS, version);
+}
+
+/**
+ * Look up a registered algorithm version
+ */
+export function getAlgorithm(version: string): PlinkoAlgorithm {
+  if (!isKnownAlgorithmVersion(version)) {
+    throw new Error(`Unknown algorithm version: ${version}`);
+  }
+  return ALGORITHMS[version];
+}
@@ -0,0 +1,123 @@
+/**
+ * Player Authentication Primitives
+ *
+ * Passwords are hashed with scrypt (Node crypto) and a per-password salt,
+ * stored as "scrypt$N$r$p$salt$hash" so the cost can be raised later without
+ * invalidating existing hashes. Sessions are stateless tokens
+ * "playerId.expiresAt.signature", signed with HMAC-SHA256 under SESSION_SECRET
+ * and carried in an HTTP-only cookie (lib/session.ts).
+ */
+
+import crypto from 'crypto';
+
+export const MIN_USERNAME_LENGTH = 3;
+export const MAX_USERNAME_LENGTH = 32;
+export const MIN_PASSWORD_LENGTH = 8;
+export const MAX_PASSWORD_LENGTH = 128;
+export const SESSION_MAX_AGE_SECONDS = 7 * 24 * 60 * 60;
+
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 };
+const SCRYPT_KEY_LENGTH = 32;
+
+// Checked when a username does not exist, so every failed sign-in costs one
+// scrypt and response times do not reveal which usernames are taken. Its
+// password was random and discarded.
+const DUMMY_PASSWORD_HASH =
+  'scrypt$16384$8$1$eff82b98c9e5885e563e406f4e302eaf$a85ede6c5d3648f79b06c6558ee8469569af131cadf4cfdc4145ec4d04a4355b';
+
+// Without SESSION_SECRET (local development) sessions last until restart
+let fallbackSecret: string | null = null;
+
+export function isValidUsername(username: unknown): username is string {
+  return (
+    typeof username === 'string' &&
+    username.length >= MIN_USERNAME_LENGTH &&
+    username.length <= MAX_USERNAME_LENGTH &&
+    /^[A-Za-z0-9_-]+$/.test(username)
+  );
+}
+
+export function isValidPassword(password: unknown): password is string {
+  return (
+    typeof password === 'string' &&
+    password.length >= MIN_PASSWORD_LENGTH &&
+    password.length <= MAX_PASSWORD_LENGTH
+  );
+}
+
+function scrypt(password: string, salt: Buffer, params: typeof SCRYPT_PARAMS): Promise<Buffer> {
+  return new Promise((resolve, reject) =>
+    crypto.scrypt(password, salt, SCRYPT_KEY_LENGTH, params, (error, key) =>
+      error ? reject(error) : resolve(key)
+    )
+  );
+}
+
+/**
+ * Hash a password for storage
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(16);
+  const key = await scrypt(password, salt, SCRYPT_PARAMS);
+  const { N, r, p } = SCRYPT_PARAMS;
+  return `scrypt$${N}$${r}$${p}$${salt.toString('hex')}$${key.toString('hex')}`;
+}
+
+/**
+ * Check a password against a stored hash in constant time
+ */
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, N, r, p, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+
+  const expected = Buffer.from(hash, 'hex');
+  const key = await scrypt(password, Buffer.from(salt, 'hex'), {
+    N: Number(N),
+    r: Number(r),
+    p: Number(p),
+  });
+  return key.length === expected.length && crypto.timingSafeEqual(key, expected);
+}
+
+/**
+ * Check a sign-in attempt against a player's stored hash, or against a dummy
+ * hash when there is no such player; always false in that case
+ */
+export async function verifyLogin(password: string, stored: string | null): Promise<boolean> {
+  const matches = await verifyPassword(password, stored ?? DUMMY_PASSWORD_HASH);
+  return stored !== null && matches;
+}
+
+function getSessionSecret(): string {
+  if (process.env.SESSION_SECRET) return process.env.SESSION_SECRET;
+  fallbackSecret ??= crypto.randomBytes(32).toString('hex');
+  return fallbackSecret;
+}
+
+function signSession(payload: string): string {
+  return crypto.createHmac('sha256', getSessionSecret()).update(payload).digest('hex');
+}
+
+/**
+ * Issue a session token for a player
+ */
+export function createSessionToken(playerId: string, now: Date = new Date()): string {
+  const payload = `${playerId}.${now.getTime() + SESSION_MAX_AGE_SECONDS * 1000}`;
+  return `${payload}.${signSession(payload)}`;
+}
+
+/**
+ * The player ID of a validly signed, unexpired token, or null
+ */
+export function readSessionToken(token: string, now: Date = new Date()): string | null {
+  const [playerId, expiresAt, signature] = token.split('.');
+  if (!playerId || !expiresAt || !signature) return null;
+
+  const expected = Buffer.from(signSession(`${playerId}.${expiresAt}`), 'hex');
+  const actual = Buffer.from(signature, 'hex');
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+    return null;
+  }
+
+  return Number(expiresAt) > now.getTime() ? playerId : null;
+}
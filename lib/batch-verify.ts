@@ -0,0 +1,239 @@
+/**
+ * Batch Round Verification
+ *
+ * Re-verifies many rounds at once from the records GET /api/rounds/export
+ * produces (CSV, or JSON objects with the same column names). Each round's
+ * commitHex, combinedSeed, pegMapHash and landing bins are recomputed and
+ * compared. Free of Node dependencies: the caller supplies the hashing and
+ * engine (Node's on the server, WebCrypto's on the verify page).
+ */
+
+import { LEGACY_ALGORITHM_VERSION } from './algorithms';
+import { ROWS } from './board';
+import type { PlinkoResult, RoundSeeds } from './plinko-engine';
+
+export const MAX_BATCH_ROUNDS = 5000;
+
+/**
+ * Round record as uploaded; values may be strings (CSV) or typed (JSON)
+ */
+export type RawRoundRecord = Record<string, unknown>;
+
+export interface BatchVerifier {
+  generateCommitHex(serverSeed: string, nonce: string): string | Promise<string>;
+  computeRoundOutcome(
+    seeds: RoundSeeds,
+    dropColumn: number,
+    rows: number,
+    algorithmVersion: string,
+    ballCount: number
+  ): (PlinkoResult & { combinedSeed: string }) | Promise<PlinkoResult & { combinedSeed: string }>;
+}
+
+export interface BatchMismatch {
+  field: string;
+  expected: unknown; // Value in the uploaded record
+  computed: unknown;
+}
+
+export interface BatchRoundResult {
+  index: number; // Position in the upload (0-based, header excluded)
+  roundId: string | null;
+  status: 'pass' | 'fail' | 'error';
+  mismatches: BatchMismatch[];
+  error?: string; // Why the round could not be recomputed
+}
+
+export interface BatchReport {
+  total: number;
+  passed: number;
+  failed: number;
+  errors: number;
+  results: BatchRoundResult[];
+}
+
+/**
+ * Parse RFC 4180 CSV (quoted fields, doubled quotes, CRLF) into header-keyed rows
+ */
+export function parseCsv(text: string): Record<string, string>[] {
+  const table: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      table.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    table.push(row);
+  }
+
+  const [headers = [], ...records] = table.filter((r) => r.some((value) => value !== ''));
+  return records.map((values) =>
+    Object.fromEntries(headers.map((header, i) => [header.trim(), values[i] ?? '']))
+  );
+}
+
+/**
+ * Read an uploaded file: a JSON array, JSON `{ rounds: [...] }`, or export CSV
+ * JSON entries are returned as uploaded; verifyRoundRecords reports any that
+ * are not objects as per-round errors.
+ */
+export function parseRoundRecords(text: string): unknown[] {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    const data = JSON.parse(trimmed);
+    const rounds = Array.isArray(data) ? data : data?.rounds;
+    if (!Array.isArray(rounds)) {
+      throw new Error('JSON must be an array of rounds or { "rounds": [...] }');
+    }
+    return rounds;
+  }
+  return parseCsv(text);
+}
+
+function isRecord(value: unknown): value is RawRoundRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+function readString(record: RawRoundRecord, key: string): string | null {
+  const value = record[key];
+  return isBlank(value) ? null : String(value);
+}
+
+function readInt(record: RawRoundRecord, key: string): number | null {
+  const value = record[key];
+  return isBlank(value) ? null : Number(value);
+}
+
+/**
+ * binIndexes is a JSON array in the CSV export and a plain array in JSON uploads
+ */
+function readBins(record: RawRoundRecord): number[] | null {
+  const value = record.binIndexes;
+  if (isBlank(value)) return null;
+  const bins = typeof value === 'string' ? JSON.parse(value) : value;
+  if (!Array.isArray(bins)) {
+    throw new Error('binIndexes must be an array');
+  }
+  return bins.map(Number);
+}
+
+async function verifyRecord(
+  record: unknown,
+  index: number,
+  verifier: BatchVerifier
+): Promise<BatchRoundResult> {
+  if (!isRecord(record)) {
+    return { index, roundId: null, status: 'error', mismatches: [], error: 'Round record must be an object' };
+  }
+  const roundId = readString(record, 'roundId') ?? readString(record, 'id');
+
+  try {
+    const serverSeed = readString(record, 'serverSeed');
+    const clientSeed = readString(record, 'clientSeed');
+    const nonce = readString(record, 'nonce');
+    const dropColumn = readInt(record, 'dropColumn');
+    if (serverSeed === null || clientSeed === null || nonce === null || dropColumn === null) {
+      throw new Error(
+        serverSeed === null
+          ? 'serverSeed is not revealed yet'
+          : 'Missing clientSeed, nonce or dropColumn'
+      );
+    }
+
+    // Exports that predate these columns were single-ball, 12-row, legacy-algorithm rounds
+    const rows = readInt(record, 'rows') ?? ROWS;
+    const algorithmVersion = readString(record, 'algorithmVersion') ?? LEGACY_ALGORITHM_VERSION;
+    const storedBins = readBins(record);
+    const ballCount = readInt(record, 'ballCount') ?? storedBins?.length ?? 1;
+
+    const commitHex = await verifier.generateCommitHex(serverSeed, nonce);
+    const outcome = await verifier.computeRoundOutcome(
+      { serverSeed, clientSeed, nonce },
+      dropColumn,
+      rows,
+      algorithmVersion,
+      ballCount
+    );
+
+    const mismatches: BatchMismatch[] = [];
+    const compare = (field: string, expected: unknown, computed: unknown) => {
+      if (JSON.stringify(expected) !== JSON.stringify(computed)) {
+        mismatches.push({ field, expected, computed });
+      }
+    };
+    compare('commitHex', readString(record, 'commitHex'), commitHex);
+    compare('combinedSeed', readString(record, 'combinedSeed'), outcome.combinedSeed);
+    compare('pegMapHash', readString(record, 'pegMapHash'), outcome.pegMapHash);
+    compare('binIndex', readInt(record, 'binIndex'), outcome.binIndex);
+    if (storedBins !== null) {
+      compare('binIndexes', storedBins, outcome.binIndexes);
+    }
+
+    return { index, roundId, status: mismatches.length ? 'fail' : 'pass', mismatches };
+  } catch (error) {
+    return {
+      index,
+      roundId,
+      status: 'error',
+      mismatches: [],
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Re-verify every record, in order
+ */
+export async function verifyRoundRecords(
+  records: unknown[],
+  verifier: BatchVerifier,
+  onProgress?: (done: number, total: number) => void
+): Promise<BatchReport> {
+  if (records.length > MAX_BATCH_ROUNDS) {
+    throw new Error(`At most ${MAX_BATCH_ROUNDS} rounds can be verified at once`);
+  }
+
+  const results: BatchRoundResult[] = [];
+  for (let i = 0; i < records.length; i++) {
+    results.push(await verifyRecord(records[i], i, verifier));
+    onProgress?.(i + 1, records.length);
+  }
+
+  return {
+    total: results.length,
+    passed: results.filter((r) => r.status === 'pass').length,
+    failed: results.filter((r) => r.status === 'fail').length,
+    errors: results.filter((r) => r.status === 'error').length,
+    results,
+  };
+}
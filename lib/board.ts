@@ -0,0 +1,49 @@
+/**
+ * Board Geometry
+ *
+ * Supported board sizes and ball counts shared by the engine, payouts and UI.
+ * Kept free of Node dependencies so client components can import it.
+ */
+
+export const ROWS = 12; // Default row count
+export const BINS = 13; // Bins for the default row count
+export const MIN_ROWS = 8;
+export const MAX_ROWS = 16;
+export const MIN_BALLS = 1;
+export const MAX_BALLS = 100;
+
+/**
+ * Check that a row count is a supported board size (integer in 8-16)
+ */
+export function isValidRowCount(rows: number): boolean {
+  return Number.isInteger(rows) && rows >= MIN_ROWS && rows <= MAX_ROWS;
+}
+
+/**
+ * Number of landing bins for a board with the given row count
+ */
+export function getBinCount(rows: number): number {
+  return rows + 1;
+}
+
+/**
+ * Center drop column for a board with the given row count (6 for 12 rows)
+ * Odd-row boards have two middle columns; this is the left one.
+ */
+export function getCenterColumn(rows: number): number {
+  return Math.floor(rows / 2);
+}
+
+/**
+ * Check that a drop column lies on a board with the given row count (0..rows)
+ */
+export function isValidDropColumn(dropColumn: number, rows: number): boolean {
+  return Number.isInteger(dropColumn) && dropColumn >= 0 && dropColumn <= rows;
+}
+
+/**
+ * Check that a ball count is supported for one round (integer in 1-100)
+ */
+export function isValidBallCount(ballCount: number): boolean {
+  return Number.isInteger(ballCount) && ballCount >= MIN_BALLS && ballCount <= MAX_BALLS;
+}
@@ -0,0 +1,302 @@
+/**
+ * Round Bundles (.plinko.json)
+ *
+ * A self-contained, versioned proof of one or many rounds: seeds, nonce,
+ * board, paytable, stored paths and hashes, and the algorithm version. Anyone
+ * holding a bundle can re-verify it with verifyBundle(), which needs no
+ * database and no server. Hashing defaults to WebCrypto, so it runs in the
+ * browser and in Node 20+ alike; the offline CLI passes Node crypto instead.
+ *
+ * Format version 2 (see README "Round Bundles"):
+ * { format: "plinko-round-bundle", version: 2, createdAt, rounds: BundleRound[] }
+ * Version 2 carries integer basis-point multipliers and cent amounts in place
+ * of version 1's decimal paytable, payoutMultiplier and totalPayout. Version 1
+ * bundles are still read: parseBundle() converts their decimals the way the
+ * integer-payouts migration converted stored rounds.
+ */
+
+import * as webCrypto from './fairness-web';
+import { getPaytable, isValidRisk, settleRoundPayout, BPS_PER_MULTIPLIER } from './payout';
+import { isKnownAlgorithmVersion } from './algorithms';
+import { FieldCheck, checkField } from './field-check';
+import type { PathDecision } from './engine-core';
+import type { BatchVerifier } from './batch-verify';
+
+export const BUNDLE_FORMAT = 'plinko-round-bundle';
+export const BUNDLE_VERSION = 2;
+export const LEGACY_BUNDLE_VERSION = 1; // Still read, never written
+export const BUNDLE_FILE_EXTENSION = '.plinko.json';
+
+export interface BundleRound {
+  roundId: string | null;
+  algorithmVersion: string;
+  serverSeed: string;
+  serverSeedHash: string | null; // Seed pair hash published before play, if any
+  clientSeed: string;
+  nonce: string;
+  commitHex: string;
+  combinedSeed: string;
+  rows: number;
+  dropColumn: number;
+  ballCount: number;
+  risk: string;
+  paytableBps: number[]; // Multiplier per bin (0..rows), in basis points, when the round was played
+  betCents: number; // Per ball
+  payoutMultiplierBps: number; // Average of the balls' multipliers, rounded down
+  totalPayoutCents: number; // Rounded down once per round (lib/payout.ts)
+  pegMapHash: string;
+  binIndexes: number[]; // Every ball's landing bin, in drop order
+  paths: PathDecision[][]; // Every ball's stored path, in drop order
+}
+
+/**
+ * Version 1 round entry, with decimal multipliers and payout
+ */
+export interface BundleRoundV1
+  extends Omit<BundleRound, 'paytableBps' | 'payoutMultiplierBps' | 'totalPayoutCents'> {
+  paytable: number[]; // Multiplier per bin (0..rows) when the round was played
+  payoutMultiplier: number; // totalPayout / (betCents * ballCount)
+  totalPayout: number; // In cents, with fractions
+}
+
+export interface RoundBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  createdAt: string;
+  rounds: BundleRound[];
+}
+
+/**
+ * Hashing and engine a bundle is checked with (lib/fairness-web.ts or Node's)
+ */
+export interface BundleVerifier extends BatchVerifier {
+  generateServerSeedHash(serverSeed: string): string | Promise<string>;
+}
+
+export interface BundleRoundReport {
+  roundId: string | null;
+  pass: boolean;
+  checks: FieldCheck[];
+  error?: string; // Why the round could not be recomputed
+}
+
+export interface BundleReport {
+  pass: boolean; // True only if every round passes
+  rounds: BundleRoundReport[];
+}
+
+/**
+ * Round fields a bundle is built from, as stored in the database
+ */
+export interface BundleSourceRound {
+  id: string;
+  algorithmVersion: string;
+  serverSeed: string;
+  clientSeed: string;
+  nonce: string;
+  commitHex: string;
+  combinedSeed: string;
+  rows: number;
+  dropColumn: number;
+  ballCount: number;
+  risk: string;
+  betCents: number;
+  payoutMultiplierBps: number;
+  totalPayoutCents: number;
+  pegMapHash: string;
+  binIndexesJson: unknown;
+  pathsJson: unknown;
+}
+
+/**
+ * Convert a revealed round into its bundle entry, pinning the paytable it used
+ * Throws if the stored risk is unknown, rather than bundling another table.
+ */
+export function toBundleRound(round: BundleSourceRound, serverSeedHash: string | null): BundleRound {
+  const risk = round.risk;
+  if (!isValidRisk(risk)) {
+    throw new Error(`Round ${round.id} has an unknown risk: ${risk}`);
+  }
+
+  return {
+    roundId: round.id,
+    algorithmVersion: round.algorithmVersion,
+    serverSeed: round.serverSeed,
+    serverSeedHash,
+    clientSeed: round.clientSeed,
+    nonce: round.nonce,
+    commitHex: round.commitHex,
+    combinedSeed: round.combinedSeed,
+    rows: round.rows,
+    dropColumn: round.dropColumn,
+    ballCount: round.ballCount,
+    risk,
+    paytableBps: getPaytable(round.rows, risk, round.algorithmVersion).map((entry) => entry.multiplierBps),
+    betCents: round.betCents,
+    payoutMultiplierBps: round.payoutMultiplierBps,
+    totalPayoutCents: round.totalPayoutCents,
+    pegMapHash: round.pegMapHash,
+    binIndexes: round.binIndexesJson as number[],
+    paths: round.pathsJson as PathDecision[][],
+  };
+}
+
+export function createBundle(rounds: BundleRound[], createdAt: Date = new Date()): RoundBundle {
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    createdAt: createdAt.toISOString(),
+    rounds,
+  };
+}
+
+/**
+ * Whole units from a decimal amount, as the integer-payouts migration
+ * computed them: rounded to 6 decimals to absorb float error, then down
+ */
+function toWholeUnits(value: number): number {
+  return Math.floor(Math.round(value * 1e6) / 1e6);
+}
+
+/**
+ * Convert a version 1 round entry to the current fields
+ */
+export function upgradeBundleRoundV1(round: BundleRoundV1): BundleRound {
+  const { paytable, payoutMultiplier, totalPayout, ...rest } = round;
+
+  return {
+    ...rest,
+    paytableBps: paytable.map((multiplier) => toWholeUnits(multiplier * BPS_PER_MULTIPLIER)),
+    payoutMultiplierBps: toWholeUnits(payoutMultiplier * BPS_PER_MULTIPLIER),
+    totalPayoutCents: toWholeUnits(totalPayout),
+  };
+}
+
+/**
+ * Check a parsed (or raw JSON text) bundle's envelope and return it typed,
+ * with version 1 rounds converted to the current fields
+ */
+export function parseBundle(input: unknown): RoundBundle {
+  const data = typeof input === 'string' ? JSON.parse(input) : input;
+
+  if (!data || typeof data !== 'object' || data.format !== BUNDLE_FORMAT) {
+    throw new Error(`Not a round bundle: format must be "${BUNDLE_FORMAT}"`);
+  }
+  if (data.version !== BUNDLE_VERSION && data.version !== LEGACY_BUNDLE_VERSION) {
+    throw new Error(`Unsupported bundle version: ${data.version}`);
+  }
+  if (!Array.isArray(data.rounds) || data.rounds.length === 0) {
+    throw new Error('Bundle has no rounds');
+  }
+
+  if (data.version === LEGACY_BUNDLE_VERSION) {
+    return { ...data, rounds: (data.rounds as BundleRoundV1[]).map(upgradeBundleRoundV1) };
+  }
+  return data as RoundBundle;
+}
+
+async function verifyBundleRound(
+  round: BundleRound,
+  verifier: BundleVerifier
+): Promise<BundleRoundReport> {
+  const roundId = round.roundId ?? null;
+
+  try {
+    const checks: FieldCheck[] = [
+      checkField('commitHex', round.commitHex, await verifier.generateCommitHex(round.serverSeed, round.nonce)),
+    ];
+    if (round.serverSeedHash) {
+      checks.push(
+        checkField('serverSeedHash', round.serverSeedHash, await verifier.generateServerSeedHash(round.serverSeed))
+      );
+    }
+
+    // A round of an unknown algorithm cannot be replayed or priced
+    if (!isKnownAlgorithmVersion(round.algorithmVersion)) {
+      checks.push(checkField('algorithmVersion', round.algorithmVersion, null));
+      return { roundId, pass: false, checks };
+    }
+
+    const outcome = await verifier.computeRoundOutcome(
+      { serverSeed: round.serverSeed, clientSeed: round.clientSeed, nonce: round.nonce },
+      round.dropColumn,
+      round.rows,
+      round.algorithmVersion,
+      round.ballCount
+    );
+
+    checks.push(
+      checkField('combinedSeed', round.combinedSeed, outcome.combinedSeed),
+      checkField('pegMapHash', round.pegMapHash, outcome.pegMapHash),
+      checkField('binIndexes', round.binIndexes, outcome.binIndexes)
+    );
+
+    if (!isValidRisk(round.risk)) {
+      // No table to price the round from
+      checks.push(checkField('risk', round.risk, null));
+    } else {
+      // The bundled paytable must be the one the registry pins to the round's
+      // algorithm version, so a bundle cannot vouch for its own inflated table
+      checks.push(
+        checkField(
+          'paytableBps',
+          round.paytableBps,
+          getPaytable(round.rows, round.risk, round.algorithmVersion).map((entry) => entry.multiplierBps)
+        )
+      );
+
+      // Payouts are checked against the bundled paytable, not today's
+      const payout = settleRoundPayout(
+        round.betCents,
+        outcome.binIndexes.map((bin) => round.paytableBps[bin])
+      );
+      checks.push(
+        checkField('totalPayoutCents', round.totalPayoutCents, payout.totalPayoutCents),
+        checkField('payoutMultiplierBps', round.payoutMultiplierBps, payout.payoutMultiplierBps)
+      );
+    }
+
+    // Every stored path entry, so a report points at the exact row that differs
+    const storedPaths = Array.isArray(round.paths) ? round.paths : [];
+    outcome.paths.forEach((path, ball) => {
+      const storedPath = Array.isArray(storedPaths[ball]) ? storedPaths[ball] : [];
+      const rowCount = Math.max(storedPath.length, path.length);
+      for (let row = 0; row < rowCount; row++) {
+        checks.push(
+          checkField(`paths[${ball}][${row}]`, storedPath[row] ?? null, path[row] ?? null)
+        );
+      }
+    });
+    if (storedPaths.length > outcome.paths.length) {
+      checks.push(checkField('paths.length', storedPaths.length, outcome.paths.length));
+    }
+
+    return { roundId, pass: checks.every((c) => c.pass), checks };
+  } catch (error) {
+    return {
+      roundId,
+      pass: false,
+      checks: [],
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Re-verify every round in a bundle from its own contents
+ * Throws if the input is not a supported bundle; per-round problems are
+ * reported, not thrown.
+ */
+export async function verifyBundle(
+  input: unknown,
+  verifier: BundleVerifier = webCrypto
+): Promise<BundleReport> {
+  const bundle = parseBundle(input);
+
+  const rounds: BundleRoundReport[] = [];
+  for (const round of bundle.rounds) {
+    rounds.push(await verifyBundleRound(round, verifier));
+  }
+
+  return { pass: rounds.every((r) => r.pass), rounds };
+}
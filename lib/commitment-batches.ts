@@ -0,0 +1,178 @@
+/**
+ * Commitment Batches
+ *
+ * Commits are grouped into fixed UTC windows (one hour) by the time their
+ * round was created. Once a window has closed no commit can join it, so it is
+ * sealed: a Merkle tree (lib/merkle.ts) is built over its commitHex values,
+ * ordered by createdAt then round id, and the root is published through
+ * GET /api/commitments/roots. Each round can then prove its commit is in the
+ * published set with an inclusion proof.
+ *
+ * A window is sealed as soon as possible after it closes: by the next commit
+ * (POST /api/rounds/commit seals before creating its round), by the
+ * operator's scheduled POST /api/commitments/seal, or by reading roots or
+ * proofs. It can only be sealed until COMMITMENT_SEAL_DEADLINE_MS after it
+ * closes. A window that misses the deadline is never sealed, so neither the
+ * first seal nor a late one can sweep old rounds into a batch whose root was
+ * made long after they were played; those rounds have no proof.
+ *
+ * Concurrent callers may try to seal the same window. windowStart is unique,
+ * so one transaction wins; the other rolls back and seals whatever is left.
+ */
+
+import { CommitmentBatch, Prisma, PrismaClient } from '@prisma/client';
+import { sha256 } from './fairness';
+import { MerkleProofStep, buildMerkleProof, computeMerkleRoot } from './merkle';
+
+export const COMMITMENT_BATCH_WINDOW_MS = 60 * 60 * 1000;
+export const COMMITMENT_SEAL_DEADLINE_MS = COMMITMENT_BATCH_WINDOW_MS; // sealed before the next window closes
+
+/**
+ * Public view of a sealed batch
+ */
+export interface PublicCommitmentBatch {
+  batchId: string;
+  windowStart: string;
+  windowEnd: string;
+  size: number;
+  merkleRoot: string;
+  sealedAt: string;
+}
+
+export interface InclusionProof {
+  roundId: string;
+  commitHex: string;
+  batchId: string;
+  windowStart: string;
+  windowEnd: string;
+  merkleRoot: string;
+  size: number;
+  leafIndex: number;
+  proof: MerkleProofStep[];
+}
+
+export function toPublicCommitmentBatch(batch: CommitmentBatch): PublicCommitmentBatch {
+  return {
+    batchId: batch.id,
+    windowStart: batch.windowStart.toISOString(),
+    windowEnd: batch.windowEnd.toISOString(),
+    size: batch.size,
+    merkleRoot: batch.merkleRoot,
+    sealedAt: batch.createdAt.toISOString(),
+  };
+}
+
+export function commitmentWindowStart(date: Date): Date {
+  return new Date(Math.floor(date.getTime() / COMMITMENT_BATCH_WINDOW_MS) * COMMITMENT_BATCH_WINDOW_MS);
+}
+
+/**
+ * Whether the window a commit falls in is still open, closed and due to be
+ * sealed, or closed past its sealing deadline
+ */
+export function commitmentWindowStatus(createdAt: Date, now: Date = new Date()): 'open' | 'sealable' | 'missed' {
+  const windowEnd = commitmentWindowStart(createdAt).getTime() + COMMITMENT_BATCH_WINDOW_MS;
+  if (now.getTime() < windowEnd) return 'open';
+  return now.getTime() < windowEnd + COMMITMENT_SEAL_DEADLINE_MS ? 'sealable' : 'missed';
+}
+
+const SEAL_ATTEMPTS = 3;
+
+/**
+ * Seal every closed window, still within its deadline, that has unbatched
+ * commits. Returns the number of batches sealed by this call.
+ */
+export async function sealCommitmentBatches(db: PrismaClient, now: Date = new Date()): Promise<number> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await sealClosedWindows(db, now);
+    } catch (error) {
+      // Another call sealed one of these windows first; retry with what is left
+      const conflict = error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+      if (!conflict || attempt === SEAL_ATTEMPTS) throw error;
+    }
+  }
+}
+
+async function sealClosedWindows(db: PrismaClient, now: Date): Promise<number> {
+  const openedAt = commitmentWindowStart(now).getTime();
+
+  return db.$transaction(async (tx) => {
+    const pending = await tx.round.findMany({
+      where: {
+        commitmentBatchId: null,
+        // Closed windows whose deadline has not passed
+        createdAt: { gte: new Date(openedAt - COMMITMENT_SEAL_DEADLINE_MS), lt: new Date(openedAt) },
+      },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      select: { id: true, commitHex: true, createdAt: true },
+    });
+
+    const windows = new Map<number, typeof pending>();
+    for (const round of pending) {
+      const start = commitmentWindowStart(round.createdAt).getTime();
+      windows.set(start, [...(windows.get(start) ?? []), round]);
+    }
+
+    for (const [start, rounds] of windows) {
+      const batch = await tx.commitmentBatch.create({
+        data: {
+          windowStart: new Date(start),
+          windowEnd: new Date(start + COMMITMENT_BATCH_WINDOW_MS),
+          size: rounds.length,
+          merkleRoot: await computeMerkleRoot(
+            rounds.map((r) => r.commitHex),
+            sha256
+          ),
+        },
+      });
+
+      for (let i = 0; i < rounds.length; i++) {
+        await tx.round.update({
+          where: { id: rounds[i].id },
+          data: { commitmentBatchId: batch.id, commitmentIndex: i },
+        });
+      }
+    }
+
+    return windows.size;
+  });
+}
+
+/**
+ * Inclusion proof of a round's commit in its sealed batch
+ * Returns null while the round's window is still open, or if it missed its
+ * sealing deadline.
+ */
+export async function getInclusionProof(db: PrismaClient, roundId: string): Promise<InclusionProof | null> {
+  await sealCommitmentBatches(db);
+
+  const round = await db.round.findUnique({
+    where: { id: roundId },
+    include: { commitmentBatch: true },
+  });
+  if (!round?.commitmentBatch || round.commitmentIndex === null) return null;
+
+  const leaves = await db.round.findMany({
+    where: { commitmentBatchId: round.commitmentBatch.id },
+    orderBy: { commitmentIndex: 'asc' },
+    select: { commitHex: true },
+  });
+  const batch = toPublicCommitmentBatch(round.commitmentBatch);
+
+  return {
+    roundId: round.id,
+    commitHex: round.commitHex,
+    batchId: batch.batchId,
+    windowStart: batch.windowStart,
+    windowEnd: batch.windowEnd,
+    merkleRoot: batch.merkleRoot,
+    size: batch.size,
+    leafIndex: round.commitmentIndex,
+    proof: await buildMerkleProof(
+      leaves.map((leaf) => leaf.commitHex),
+      round.commitmentIndex,
+      sha256
+    ),
+  };
+}
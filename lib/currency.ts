@@ -0,0 +1,124 @@
+/**
+ * Currencies
+ *
+ * Registry of the currencies a table can be played in. Every amount in the
+ * game (betCents, totalPayoutCents, balanceCents, amountCents) is an integer
+ * in the currency's minor unit: cents for USD, EUR and GBP, whole yen for JPY
+ * (exponent 0). The bet limits here are defaults; lib/limits.ts applies
+ * any overrides.
+ * Kept free of Node dependencies so client components can import it.
+ */
+
+export const CURRENCY_CODES = ['USD', 'EUR', 'GBP', 'JPY'] as const;
+export type CurrencyCode = (typeof CURRENCY_CODES)[number];
+
+export const DEFAULT_CURRENCY: CurrencyCode = 'USD';
+
+export interface CurrencyConfig {
+  code: CurrencyCode;
+  name: string;
+  exponent: number; // minor units per major unit = 10^exponent
+  locale: string; // default locale for formatting amounts
+  minBet: number; // default, minor units per ball
+  maxBet: number; // default, minor units per ball
+  maxPayout: number; // default, minor units per round
+  initialBalance: number; // minor units granted when a wallet is opened
+}
+
+const CURRENCIES: Record<CurrencyCode, CurrencyConfig> = {
+  USD: {
+    code: 'USD',
+    name: 'US Dollar',
+    exponent: 2,
+    locale: 'en-US',
+    minBet: 1, // $0.01
+    maxBet: 100_000, // $1,000.00
+    maxPayout: 10_000_000, // $100,000.00
+    initialBalance: 100_000, // $1,000.00 of play money
+  },
+  EUR: {
+    code: 'EUR',
+    name: 'Euro',
+    exponent: 2,
+    locale: 'de-DE',
+    minBet: 1, // 0,01 €
+    maxBet: 100_000, // 1.000,00 €
+    maxPayout: 10_000_000, // 100.000,00 €
+    initialBalance: 100_000,
+  },
+  GBP: {
+    code: 'GBP',
+    name: 'Pound Sterling',
+    exponent: 2,
+    locale: 'en-GB',
+    minBet: 1, // £0.01
+    maxBet: 100_000, // £1,000.00
+    maxPayout: 10_000_000, // £100,000.00
+    initialBalance: 100_000,
+  },
+  JPY: {
+    code: 'JPY',
+    name: 'Japanese Yen',
+    exponent: 0,
+    locale: 'ja-JP',
+    minBet: 1, // ¥1
+    maxBet: 150_000, // ¥150,000
+    maxPayout: 15_000_000, // ¥15,000,000
+    initialBalance: 150_000,
+  },
+};
+
+/**
+ * Check that a value is a supported currency code
+ */
+export function isValidCurrency(code: unknown): code is CurrencyCode {
+  return typeof code === 'string' && (CURRENCY_CODES as readonly string[]).includes(code);
+}
+
+/**
+ * Registry entry for a currency
+ */
+export function getCurrency(code: CurrencyCode): CurrencyConfig {
+  return CURRENCIES[code];
+}
+
+/**
+ * Amount in major units for input fields, e.g. 150 USD cents -> 1.5
+ */
+export function toMajorUnits(minorUnits: number, code: CurrencyCode): number {
+  return minorUnits / 10 ** getCurrency(code).exponent;
+}
+
+/**
+ * Amount in whole minor units from major units, e.g. 1.5 USD -> 150
+ */
+export function toMinorUnits(majorUnits: number, code: CurrencyCode): number {
+  return Math.round(majorUnits * 10 ** getCurrency(code).exponent);
+}
+
+/**
+ * Check that a value is a well-formed BCP 47 locale tag, e.g. "en-US"
+ */
+export function isValidLocale(locale: unknown): locale is string {
+  if (typeof locale !== 'string' || locale === '') return false;
+  try {
+    Intl.getCanonicalLocales(locale);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Format an amount in minor units for display, e.g. 123456 EUR -> "1.234,56 €"
+ * Uses the currency's own locale unless another is given.
+ */
+export function formatMoney(minorUnits: number, code: CurrencyCode, locale?: string): string {
+  const { exponent, locale: currencyLocale } = getCurrency(code);
+  return new Intl.NumberFormat(locale ?? currencyLocale, {
+    style: 'currency',
+    currency: code,
+    minimumFractionDigits: exponent,
+    maximumFractionDigits: exponent,
+  }).format(toMajorUnits(minorUnits, code));
+}
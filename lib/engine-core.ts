@@ -0,0 +1,179 @@
+/**
+ * Plinko Engine Core
+ *
+ * Peg map generation and ball drops, given a PRNG and an algorithm version.
+ * Free of Node dependencies so the browser verifier runs exactly the same
+ * code; hashing and seeding live in lib/plinko-engine.ts (server) and
+ * lib/fairness-web.ts (WebCrypto).
+ */
+
+import { Prng, PlinkoAlgorithm, LEGACY_ALGORITHM_VERSION, getAlgorithm } from './algorithms';
+import {
+  ROWS,
+  MIN_ROWS,
+  MAX_ROWS,
+  MIN_BALLS,
+  MAX_BALLS,
+  isValidRowCount,
+  isValidBallCount,
+  isValidDropColumn,
+} from './board';
+
+export interface Peg {
+  leftBias: number; // Probability of going left, rounded to 6 decimals
+}
+
+export interface PegMap {
+  rows: Peg[][]; // rows[r] contains r+1 pegs
+}
+
+export interface PathDecision {
+  row: number;
+  pegIndex: number;
+  leftBias: number;
+  adjustedBias: number;
+  randomValue: number;
+  decision: 'LEFT' | 'RIGHT';
+}
+
+/**
+ * Generate the peg map for the board
+ * Each peg gets a leftBias from the algorithm's bias formula
+ * (v1: 0.5 + (rand() - 0.5) * 0.2, a range of [0.4, 0.6] centered at 0.5)
+ */
+export function generatePegMap(
+  prng: Prng,
+  rowCount: number = ROWS,
+  algorithm: PlinkoAlgorithm = getAlgorithm(LEGACY_ALGORITHM_VERSION)
+): PegMap {
+  if (!isValidRowCount(rowCount)) {
+    throw new Error(`Invalid rows: ${rowCount}. Must be ${MIN_ROWS}-${MAX_ROWS}`);
+  }
+
+  const rows: Peg[][] = [];
+
+  for (let r = 0; r < rowCount; r++) {
+    const pegCount = r + 1;
+    const pegRow: Peg[] = [];
+
+    for (let p = 0; p < pegCount; p++) {
+      const rand = prng.next();
+      // Bias formula rounds to 6 decimals for stable hashing
+      pegRow.push({ leftBias: algorithm.pegLeftBias(rand) });
+    }
+
+    rows.push(pegRow);
+  }
+
+  return { rows };
+}
+
+/**
+ * Clamp a value between min and max
+ */
+export function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+/**
+ * Simulate the ball drop through the peg map
+ * 
+ * @param pegMap - The generated peg map (its length sets the row count)
+ * @param dropColumn - Player's chosen drop column (0..rows)
+ * @param prng - PRNG instance (already used for peg generation)
+ * @param algorithm - Algorithm version supplying the drop column adjustment
+ * @returns Path decisions and final bin
+ */
+export function simulateDrop(
+  pegMap: PegMap,
+  dropColumn: number,
+  prng: Prng,
+  algorithm: PlinkoAlgorithm = getAlgorithm(LEGACY_ALGORITHM_VERSION)
+): { path: PathDecision[]; binIndex: number } {
+  const path: PathDecision[] = [];
+  const rowCount = pegMap.rows.length;
+  let pos = 0; // Number of RIGHT moves so far
+
+  // Calculate drop column adjustment (v1: (dropColumn - 6) * 0.01 for 12 rows)
+  const adj = algorithm.dropAdjustment(dropColumn, rowCount);
+
+  for (let r = 0; r < rowCount; r++) {
+    // Get the peg at the current path position
+    const pegIndex = Math.min(pos, r);
+    const peg = pegMap.rows[r][pegIndex];
+
+    // Apply drop column bias adjustment
+    const adjustedBias = clamp(peg.leftBias + adj, 0, 1);
+
+    // Get random value from PRNG
+    const randomValue = prng.next();
+
+    // Make decision
+    const decision = randomValue < adjustedBias ? 'LEFT' : 'RIGHT';
+
+    // Record the decision
+    path.push({
+      row: r,
+      pegIndex,
+      leftBias: peg.leftBias,
+      adjustedBias,
+      randomValue,
+      decision,
+    });
+
+    // Update position
+    if (decision === 'RIGHT') {
+      pos += 1;
+    }
+  }
+
+  // Final bin is the number of RIGHT moves
+  const binIndex = pos;
+
+  return { path, binIndex };
+}
+
+/**
+ * PRNG draws a round consumes: one per peg, then one per row for every ball
+ */
+export function countRoundDraws(rows: number, ballCount: number): number {
+  return (rows * (rows + 1)) / 2 + rows * ballCount;
+}
+
+/**
+ * Generate the peg map and drop every ball of a round, in PRNG order
+ * Validates the board inputs; the caller hashes the peg map.
+ */
+export function playRound(
+  prng: Prng,
+  algorithm: PlinkoAlgorithm,
+  rows: number,
+  dropColumn: number,
+  ballCount: number
+): { pegMap: PegMap; paths: PathDecision[][]; binIndexes: number[] } {
+  if (!isValidRowCount(rows)) {
+    throw new Error(`Invalid rows: ${rows}. Must be ${MIN_ROWS}-${MAX_ROWS}`);
+  }
+
+  if (!isValidDropColumn(dropColumn, rows)) {
+    throw new Error(`Invalid dropColumn: ${dropColumn}. Must be 0-${rows}`);
+  }
+
+  if (!isValidBallCount(ballCount)) {
+    throw new Error(`Invalid ballCount: ${ballCount}. Must be ${MIN_BALLS}-${MAX_BALLS}`);
+  }
+
+  // Generate peg map (uses PRNG first)
+  const pegMap = generatePegMap(prng, rows, algorithm);
+
+  // Simulate drops (use PRNG second, one ball after another in order)
+  const paths: PathDecision[][] = [];
+  const binIndexes: number[] = [];
+  for (let ball = 0; ball < ballCount; ball++) {
+    const { path, binIndex } = simulateDrop(pegMap, dropColumn, prng, algorithm);
+    paths.push(path);
+    binIndexes.push(binIndex);
+  }
+
+  return { pegMap, paths, binIndexes };
+}
@@ -0,0 +1,157 @@
+/**
+ * Computation Trace ("explain mode")
+ *
+ * Replays a round while recording every intermediate value: the exact strings
+ * hashed, how the PRNG is seeded, each PRNG output in the order the engine
+ * consumes it, and every drop step. Meant for auditors re-implementing the
+ * algorithm in another language. Free of Node dependencies; the caller passes
+ * in SHA-256 and HMAC (see explainRound in lib/plinko-engine.ts and
+ * lib/fairness-web.ts).
+ */
+
+import { Prng, HmacSha256 } from './prng';
+import { getAlgorithm } from './algorithms';
+import { playRound, PathDecision } from './engine-core';
+
+export interface TracePrimitives {
+  sha256(input: string): string | Promise<string>;
+  hmac: HmacSha256;
+}
+
+export interface HashStep {
+  input: string; // Exact UTF-8 string hashed
+  sha256: string;
+}
+
+export interface PegDraw {
+  draw: number; // Position in the PRNG output sequence (0-based)
+  row: number;
+  peg: number;
+  rand: number;
+  unroundedLeftBias: number;
+  leftBias: number; // Rounded to 6 decimals
+}
+
+export interface DropStep extends PathDecision {
+  draw: number; // Position in the PRNG output sequence (0-based)
+}
+
+export interface RoundTrace {
+  algorithmVersion: string;
+  formulas: { leftBias: string; dropAdjustment: string; decision: string };
+  hashes: {
+    serverSeedHash: HashStep;
+    commitHex: HashStep;
+    combinedSeed: HashStep;
+  };
+  prng:
+    | { kind: 'xorshift32'; seedSlice: string; initialState: number }
+    | {
+        kind: 'hmac-sha256';
+        key: string;
+        // Every block read, in order; each yields 8 uint32 BE / 2^32 outputs
+        blocks: { cursor: number; message: string; hex: string }[];
+      };
+  pegMap: {
+    draws: PegDraw[];
+    json: string; // Exact string hashed for pegMapHash
+    hash: string;
+  };
+  drops: {
+    ball: number;
+    dropAdjustment: number;
+    steps: DropStep[];
+    binIndex: number;
+  }[];
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Replay a round from its raw seeds and record the full derivation
+ */
+export async function traceRound(
+  seeds: { serverSeed: string; clientSeed: string; nonce: string },
+  dropColumn: number,
+  rows: number,
+  algorithmVersion: string,
+  ballCount: number,
+  primitives: TracePrimitives
+): Promise<RoundTrace> {
+  const algorithm = getAlgorithm(algorithmVersion);
+  const { serverSeed, clientSeed, nonce } = seeds;
+
+  const hashStep = async (input: string): Promise<HashStep> => ({
+    input,
+    sha256: await primitives.sha256(input),
+  });
+  const serverSeedHash = await hashStep(serverSeed);
+  const commitHex = await hashStep(`${serverSeed}:${nonce}`);
+  const combinedSeed = await hashStep(`${serverSeed}:${clientSeed}:${nonce}`);
+
+  // Record what the PRNG reads and returns
+  const blocks: { cursor: number; message: string; hex: string }[] = [];
+  const recordingHmac: HmacSha256 = (key, message) => {
+    const digest = primitives.hmac(key, message);
+    blocks.push({ cursor: blocks.length, message, hex: toHex(digest) });
+    return digest;
+  };
+  const draws: number[] = [];
+  const inner = algorithm.createPrng({ ...seeds, combinedSeed: combinedSeed.sha256 }, recordingHmac);
+  const prng: Prng = {
+    next: () => {
+      const value = inner.next();
+      draws.push(value);
+      return value;
+    },
+  };
+
+  const { pegMap, paths, binIndexes } = playRound(prng, algorithm, rows, dropColumn, ballCount);
+
+  const pegDraws: PegDraw[] = [];
+  pegMap.rows.forEach((pegRow, row) =>
+    pegRow.forEach((peg, index) => {
+      const draw = pegDraws.length;
+      pegDraws.push({
+        draw,
+        row,
+        peg: index,
+        rand: draws[draw],
+        unroundedLeftBias: algorithm.unroundedLeftBias(draws[draw]),
+        leftBias: peg.leftBias,
+      });
+    })
+  );
+  const pegMapJson = JSON.stringify(pegMap);
+
+  const seedSlice = combinedSeed.sha256.substring(0, 8);
+
+  return {
+    algorithmVersion: algorithm.version,
+    formulas: {
+      ...algorithm.formulas,
+      decision: 'randomValue < clamp(leftBias + dropAdjustment, 0, 1) ? LEFT : RIGHT',
+    },
+    hashes: { serverSeedHash, commitHex, combinedSeed },
+    prng:
+      algorithm.prng === 'xorshift32'
+        ? { kind: 'xorshift32', seedSlice, initialState: parseInt(seedSlice, 16) || 1 }
+        : { kind: 'hmac-sha256', key: serverSeed, blocks },
+    pegMap: {
+      draws: pegDraws,
+      json: pegMapJson,
+      hash: await primitives.sha256(pegMapJson),
+    },
+    drops: paths.map((path, ball) => ({
+      ball,
+      dropAdjustment: algorithm.dropAdjustment(dropColumn, rows),
+      steps: path.map((decision, row) => ({
+        ...decision,
+        draw: pegDraws.length + ball * rows + row,
+      })),
+      binIndex: binIndexes[ball],
+    })),
+  };
+}
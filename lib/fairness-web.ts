@@ -0,0 +1,268 @@
+/**
+ * Isomorphic Fairness Library (WebCrypto)
+ *
+ * The commit-reveal formulas of lib/fairness.ts and the round computation of
+ * lib/plinko-engine.ts on top of WebCrypto instead of Node's crypto, so the
+ * verifier page can recompute a round entirely in the browser. Runs unchanged
+ * in Node 20+, where globalThis.crypto.subtle is also available.
+ *
+ * WebCrypto is asynchronous while the engine is not: the HMAC blocks a round
+ * needs are computed up front and the shared engine core reads from them.
+ */
+
+import { HmacSha256, hmacStreamMessage } from './prng';
+import {
+  PrngSeeds,
+  CURRENT_ALGORITHM_VERSION,
+  LEGACY_ALGORITHM_VERSION,
+  getAlgorithm,
+} from './algorithms';
+import { PegMap, countRoundDraws, playRound } from './engine-core';
+import { ROWS, isValidRowCount, isValidBallCount } from './board';
+import { traceRound, RoundTrace } from './explain';
+import { RECEIPT_ALGORITHM, RoundReceipt, isAcceptedReceiptPayload, receiptMessage } from './receipts';
+import type { PlinkoResult, RoundSeeds } from './plinko-engine';
+
+const encoder = new TextEncoder();
+
+type HmacSeeds = Pick<PrngSeeds, 'serverSeed' | 'clientSeed' | 'nonce'>;
+
+function getSubtle(): SubtleCrypto {
+  const subtle = globalThis.crypto?.subtle;
+  if (!subtle) {
+    // Browsers only expose SubtleCrypto on secure (https or localhost) pages
+    throw new Error('WebCrypto is not available; open the verifier over https');
+  }
+  return subtle;
+}
+
+function toHex(bytes: ArrayBuffer): string {
+  return Array.from(new Uint8Array(bytes), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Generate SHA-256 hash of input string
+ */
+export async function sha256(input: string): Promise<string> {
+  return toHex(await getSubtle().digest('SHA-256', encoder.encode(input)));
+}
+
+function importHmacKey(key: string): Promise<CryptoKey> {
+  return getSubtle().importKey(
+    'raw',
+    encoder.encode(key),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+}
+
+async function signHmac(cryptoKey: CryptoKey, message: string): Promise<Uint8Array> {
+  return new Uint8Array(await getSubtle().sign('HMAC', cryptoKey, encoder.encode(message)));
+}
+
+/**
+ * HMAC-SHA256 over UTF-8 key and message
+ */
+export async function hmacSha256(key: string, message: string): Promise<Uint8Array> {
+  return signHmac(await importHmacKey(key), message);
+}
+
+/**
+ * Generate the seed pair hash published before any round uses serverSeed
+ * Formula: SHA256(serverSeed)
+ */
+export function generateServerSeedHash(serverSeed: string): Promise<string> {
+  return sha256(serverSeed);
+}
+
+/**
+ * Generate the commit hash from serverSeed and nonce
+ * Formula: SHA256(serverSeed + ":" + nonce)
+ */
+export function generateCommitHex(serverSeed: string, nonce: string): Promise<string> {
+  return sha256(`${serverSeed}:${nonce}`);
+}
+
+/**
+ * Generate the combined seed from all three inputs
+ * Formula: SHA256(serverSeed + ":" + clientSeed + ":" + nonce)
+ */
+export function generateCombinedSeed(
+  serverSeed: string,
+  clientSeed: string,
+  nonce: string
+): Promise<string> {
+  return sha256(`${serverSeed}:${clientSeed}:${nonce}`);
+}
+
+/**
+ * Check that a revealed seed sits at `index` in the chain with this terminal hash
+ * Hashing seeds[index] (index + 1) times must reach the terminal hash
+ */
+export async function verifyChainPosition(
+  seed: string,
+  index: number,
+  terminalHash: string
+): Promise<boolean> {
+  if (!Number.isInteger(index) || index < 0) {
+    return false;
+  }
+
+  let hash = seed;
+  for (let i = 0; i <= index; i++) {
+    hash = await sha256(hash);
+  }
+  return hash === terminalHash;
+}
+
+/**
+ * Calculate SHA-256 hash of the peg map for verification
+ */
+export function hashPegMap(pegMap: PegMap): Promise<string> {
+  return sha256(JSON.stringify(pegMap));
+}
+
+/**
+ * Compute the HMAC blocks behind `draws` stream values and serve them synchronously
+ * Asking for a block outside the precomputed range is a bug, so it throws.
+ */
+async function precomputeHmacBlocks(seeds: HmacSeeds, draws: number): Promise<HmacSha256> {
+  const blocks = new Map<string, Uint8Array>();
+  const { serverSeed, clientSeed, nonce } = seeds;
+
+  // Combined-seed verification has no raw seeds and needs no blocks
+  if (serverSeed !== undefined && clientSeed !== undefined && nonce !== undefined && draws > 0) {
+    const cryptoKey = await importHmacKey(serverSeed);
+    const messages = Array.from({ length: Math.ceil(draws / 8) }, (_, k) =>
+      hmacStreamMessage(clientSeed, nonce, k)
+    );
+    const digests = await Promise.all(messages.map((m) => signHmac(cryptoKey, m)));
+    messages.forEach((m, k) => blocks.set(m, digests[k]));
+  }
+
+  return (key, message) => {
+    const block = key === serverSeed ? blocks.get(message) : undefined;
+    if (!block) {
+      throw new Error(`HMAC block not precomputed: ${message}`);
+    }
+    return block;
+  };
+}
+
+/**
+ * Precomputed HMAC for everything a round with this board can draw
+ * Invalid boards are rejected by the engine core; skip the HMAC work for them
+ */
+function precomputeRoundHmac(seeds: HmacSeeds, rows: number, ballCount: number): Promise<HmacSha256> {
+  const draws =
+    isValidRowCount(rows) && isValidBallCount(ballCount) ? countRoundDraws(rows, ballCount) : 0;
+  return precomputeHmacBlocks(seeds, draws);
+}
+
+async function runEngine(
+  seeds: PrngSeeds,
+  dropColumn: number,
+  rows: number,
+  algorithmVersion: string,
+  ballCount: number
+): Promise<PlinkoResult> {
+  const algorithm = getAlgorithm(algorithmVersion);
+  const hmac = await precomputeRoundHmac(seeds, rows, ballCount);
+  const prng = algorithm.createPrng(seeds, hmac);
+
+  const { pegMap, paths, binIndexes } = playRound(prng, algorithm, rows, dropColumn, ballCount);
+  const pegMapHash = await hashPegMap(pegMap);
+
+  return {
+    pegMap,
+    pegMapHash,
+    path: paths[0],
+    binIndex: binIndexes[0],
+    paths,
+    binIndexes,
+    algorithmVersion: algorithm.version,
+  };
+}
+
+/**
+ * Complete Plinko round computation from the combined seed alone
+ * Same contract as computePlinkoOutcome in lib/plinko-engine.ts
+ */
+export function computePlinkoOutcome(
+  combinedSeed: string,
+  dropColumn: number,
+  rows: number = ROWS,
+  algorithmVersion: string = LEGACY_ALGORITHM_VERSION,
+  ballCount: number = 1
+): Promise<PlinkoResult> {
+  return runEngine({ combinedSeed }, dropColumn, rows, algorithmVersion, ballCount);
+}
+
+/**
+ * Complete Plinko round computation from the raw seeds
+ * Same contract as computeRoundOutcome in lib/plinko-engine.ts
+ */
+export async function computeRoundOutcome(
+  seeds: RoundSeeds,
+  dropColumn: number,
+  rows: number = ROWS,
+  algorithmVersion: string = CURRENT_ALGORITHM_VERSION,
+  ballCount: number = 1
+): Promise<PlinkoResult & { combinedSeed: string }> {
+  const combinedSeed = await generateCombinedSeed(seeds.serverSeed, seeds.clientSeed, seeds.nonce);
+  const result = await runEngine(
+    { ...seeds, combinedSeed },
+    dropColumn,
+    rows,
+    algorithmVersion,
+    ballCount
+  );
+  return { ...result, combinedSeed };
+}
+
+/**
+ * Full computation trace of a round for auditors (explain mode)
+ * Same contract as explainRound in lib/plinko-engine.ts
+ */
+export async function explainRound(
+  seeds: RoundSeeds,
+  dropColumn: number,
+  rows: number = ROWS,
+  algorithmVersion: string = CURRENT_ALGORITHM_VERSION,
+  ballCount: number = 1
+): Promise<RoundTrace> {
+  const hmac = await precomputeRoundHmac(seeds, rows, ballCount);
+  return traceRound(seeds, dropColumn, rows, algorithmVersion, ballCount, { sha256, hmac });
+}
+
+function fromHex(hex: string): Uint8Array<ArrayBuffer> {
+  return new Uint8Array(hex.match(/../g)?.map((byte) => parseInt(byte, 16)) ?? []);
+}
+
+/**
+ * Check a receipt's Ed25519 signature against a published public key (hex)
+ * Same contract as verifyReceipt in lib/receipt-signing.ts. Throws if the
+ * browser has no Ed25519 support.
+ */
+export async function verifyReceipt(receipt: RoundReceipt, publicKey: string): Promise<boolean> {
+  if (
+    receipt.algorithm !== RECEIPT_ALGORITHM ||
+    receipt.publicKey !== publicKey ||
+    !isAcceptedReceiptPayload(receipt.payload) ||
+    !/^[0-9a-f]{64}$/i.test(publicKey) ||
+    !/^[0-9a-f]{128}$/i.test(receipt.signature)
+  ) {
+    return false;
+  }
+
+  const key = await getSubtle().importKey('raw', fromHex(publicKey), { name: 'Ed25519' }, false, [
+    'verify',
+  ]);
+  return getSubtle().verify(
+    { name: 'Ed25519' },
+    key,
+    fromHex(receipt.signature),
+    encoder.encode(receiptMessage(receipt.payload))
+  );
+}
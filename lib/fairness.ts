@@ -5,14 +5,24 @@
  * required for provably fair Plinko outcomes.
  * 
  * Protocol:
- * 1. Server generates serverSeed and nonce
- * 2. Server publishes commitHex = SHA256(serverSeed:nonce)
- * 3. Client provides clientSeed
+ * 1. Server generates serverSeed for a seed pair and publishes SHA256(serverSeed)
+ * 2. Each round takes the pair's next nonce (0, 1, 2, ...) and publishes
+ *    commitHex = SHA256(serverSeed:nonce)
+ * 3. Client seed comes from the seed pair
  * 4. Combined seed = SHA256(serverSeed:clientSeed:nonce)
- * 5. All randomness derived from xorshift32 PRNG seeded from combinedSeed
+ * 5. All randomness derived from the round's algorithm version: xorshift32
+ *    seeded from combinedSeed (v1) or an HMAC-SHA256 byte stream keyed by
+ *    serverSeed (v2)
+ * 6. Rotating the seed pair reveals serverSeed for every round played under it
+ *
+ * Server seeds may come from a pre-committed hash chain: seeds[i] = SHA256(seeds[i + 1]),
+ * used in order seeds[0], seeds[1], ... with only SHA256(seeds[0]) published up front.
  */
 
 import crypto from 'crypto';
+import { HmacSha256, HmacStreamPrng } from './prng';
+
+export { Xorshift32 } from './prng';
 
 /**
  * Generate SHA-256 hash of input string
@@ -21,6 +31,14 @@ export function sha256(input: string): string {
   return crypto.createHash('sha256').update(input).digest('hex');
 }
 
+/**
+ * Generate the seed pair hash published before any round uses serverSeed
+ * Formula: SHA256(serverSeed)
+ */
+export function generateServerSeedHash(serverSeed: string): string {
+  return sha256(serverSeed);
+}
+
 /**
  * Generate the commit hash from serverSeed and nonce
  * Formula: SHA256(serverSeed + ":" + nonce)
@@ -42,47 +60,17 @@ export function generateCombinedSeed(
 }
 
 /**
- * Xorshift32 PRNG implementation
- * Seeded from first 4 bytes of hex seed (big-endian)
- * 
- * This is a simple, fast, and deterministic PRNG that produces
- * consistent sequences for the same seed.
- */
-export class Xorshift32 {
-  private state: number;
-
-  constructor(seed: string) {
-    // Take first 8 hex characters (4 bytes) and convert to uint32 big-endian
-    const seedHex = seed.substring(0, 8);
-    this.state = parseInt(seedHex, 16);
-    
-    // Ensure state is never 0 (xorshift32 requirement)
-    if (this.state === 0) {
-      this.state = 1;
-    }
-  }
-
-  /**
-   * Generate next pseudo-random number in range [0, 1)
-   */
-  next(): number {
-    let x = this.state;
-    x ^= x << 13;
-    x ^= x >>> 17;
-    x ^= x << 5;
-    this.state = x >>> 0; // Convert to unsigned 32-bit integer
-    return this.state / 0x100000000; // Convert to [0, 1)
-  }
+ * Node implementation of HMAC-SHA256 for the hmac-sha256-v2 byte stream
+ */
+export const hmacSha256: HmacSha256 = (key, message) =>
+  crypto.createHmac('sha256', key).update(message).digest();
 
-  /**
-   * Generate multiple random numbers at once
-   */
-  nextN(count: number): number[] {
-    const results: number[] = [];
-    for (let i = 0; i < count; i++) {
-      results.push(this.next());
-    }
-    return results;
+/**
+ * HMAC-SHA256 byte stream PRNG backed by Node's crypto (see lib/prng.ts)
+ */
+export class HmacSha256Stream extends HmacStreamPrng {
+  constructor(serverSeed: string, clientSeed: string, nonce: string) {
+    super(hmacSha256, serverSeed, clientSeed, nonce);
   }
 }
 
@@ -94,13 +82,6 @@ export function generateSecureRandomHex(bytes: number = 32): string {
   return crypto.randomBytes(bytes).toString('hex');
 }
 
-/**
- * Generate a random nonce (typically a number as string)
- */
-export function generateNonce(): string {
-  return Math.floor(Math.random() * 1000000).toString();
-}
-
 /**
  * Verify that a commit matches the revealed serverSeed and nonce
  */
@@ -112,6 +93,93 @@ export function verifyCommit(
   return commitHex === generateCommitHex(serverSeed, nonce);
 }
 
+/**
+ * Verify that a revealed serverSeed matches its published seed pair hash
+ */
+export function verifyServerSeedHash(
+  serverSeedHash: string,
+  serverSeed: string
+): boolean {
+  return serverSeedHash === generateServerSeedHash(serverSeed);
+}
+
+/**
+ * Pre-committed server seed hash chain
+ * seeds[0] is used first; each seed is the SHA-256 of the one after it,
+ * and terminalHash = SHA256(seeds[0]) is published before any seed is used.
+ */
+export interface HashChain {
+  seeds: string[];
+  terminalHash: string;
+}
+
+export const MAX_CHAIN_LENGTH = 100000;
+
+/**
+ * Generate a hash chain of `length` seeds from a secret root seed
+ * The root is the last seed in the chain (seeds[length - 1])
+ */
+export function generateHashChain(
+  length: number,
+  rootSeed: string = generateSecureRandomHex(32)
+): HashChain {
+  if (!Number.isInteger(length) || length < 1 || length > MAX_CHAIN_LENGTH) {
+    throw new Error(`Invalid chain length: ${length}. Must be 1-${MAX_CHAIN_LENGTH}`);
+  }
+
+  const seeds: string[] = new Array(length);
+  seeds[length - 1] = rootSeed;
+  for (let i = length - 2; i >= 0; i--) {
+    seeds[i] = sha256(seeds[i + 1]);
+  }
+
+  return { seeds, terminalHash: sha256(seeds[0]) };
+}
+
+/**
+ * Derive a single chain seed from the root without materializing the chain
+ * seeds[index] = SHA256 applied (length - 1 - index) times to the root
+ */
+export function getChainSeed(rootSeed: string, length: number, index: number): string {
+  if (!Number.isInteger(index) || index < 0 || index >= length) {
+    throw new Error(`Invalid chain index: ${index}. Must be 0-${length - 1}`);
+  }
+
+  let seed = rootSeed;
+  for (let i = length - 1; i > index; i--) {
+    seed = sha256(seed);
+  }
+  return seed;
+}
+
+/**
+ * Check that a revealed seed links to its predecessor
+ * The predecessor is seeds[index - 1], or the terminal hash for index 0
+ */
+export function verifyChainLink(seed: string, predecessor: string): boolean {
+  return sha256(seed) === predecessor;
+}
+
+/**
+ * Check that a revealed seed sits at `index` in the chain with this terminal hash
+ * Hashing seeds[index] (index + 1) times must reach the terminal hash
+ */
+export function verifyChainPosition(
+  seed: string,
+  index: number,
+  terminalHash: string
+): boolean {
+  if (!Number.isInteger(index) || index < 0 || index >= MAX_CHAIN_LENGTH) {
+    return false;
+  }
+
+  let hash = seed;
+  for (let i = 0; i <= index; i++) {
+    hash = sha256(hash);
+  }
+  return hash === terminalHash;
+}
+
 /**
  * Complete verification of a round
  * Returns all recomputed values and verification status
@@ -0,0 +1,26 @@
+/**
+ * Field Checks
+ *
+ * One stored-versus-recomputed comparison in a verification report. Shared by
+ * the stored round audit and the round bundle verifier; no Node dependencies.
+ */
+
+export interface FieldCheck {
+  field: string; // e.g. "commitHex", "pathJson[3]"
+  pass: boolean;
+  stored: unknown;
+  computed: unknown;
+}
+
+/**
+ * Compare stored and computed values structurally and exactly. Every number
+ * compared is an integer (bins, basis points, cents) or a path entry that
+ * must replay bit for bit, so there is no tolerance.
+ */
+function sameValue(stored: unknown, computed: unknown): boolean {
+  return JSON.stringify(stored) === JSON.stringify(computed);
+}
+
+export function checkField(field: string, stored: unknown, computed: unknown): FieldCheck {
+  return { field, pass: sameValue(stored, computed), stored, computed };
+}
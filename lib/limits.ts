@@ -0,0 +1,128 @@
+/**
+ * Bet Limits
+ *
+ * Minimum bet, maximum bet (both per ball) and maximum payout per round, in
+ * minor units of each currency. Defaults come from the currency registry
+ * (lib/currency.ts) and can be overridden per currency with environment
+ * variables, e.g. MIN_BET_USD=10, MAX_BET_USD=50000, MAX_PAYOUT_USD=5000000.
+ *
+ * The payout cap is checked before the outcome is computed, against the most
+ * a round could pay (every ball in the paytable's top bin), so hitting it
+ * reveals nothing about the round and a stored payout is never clipped.
+ */
+
+import { CURRENCY_CODES, CurrencyCode, formatMoney, getCurrency } from './currency';
+import { RiskLevel, applyMultiplier, getMaxMultiplierBps } from './payout';
+
+export interface BetLimits {
+  currency: CurrencyCode;
+  minBet: number; // minor units per ball
+  maxBet: number; // minor units per ball
+  maxPayout: number; // minor units per round
+  quickBets: number[]; // suggested bets for the UI, within [minBet, maxBet]
+}
+
+export type LimitErrorCode = 'BET_BELOW_MIN' | 'BET_ABOVE_MAX' | 'PAYOUT_ABOVE_MAX';
+
+export interface LimitViolation {
+  code: LimitErrorCode;
+  limit: number; // the limit that was hit, in minor units
+  amount: number; // the bet, or the round's maximum possible payout
+}
+
+const QUICK_BET_COUNT = 6;
+
+function readLimit(env: NodeJS.ProcessEnv, name: string, fallback: number): number {
+  const value = env[name];
+  return value && /^\d+$/.test(value) && Number(value) > 0 ? Number(value) : fallback;
+}
+
+/**
+ * Up to six bets from the 1-2-5 series (1, 2, 5, 10, 20, ...) spread evenly
+ * between the limits, always including both ends
+ */
+export function quickBetAmounts(minBet: number, maxBet: number): number[] {
+  const series = [minBet];
+  for (let decade = 1; decade <= maxBet; decade *= 10) {
+    for (const step of [1, 2, 5]) {
+      const amount = step * decade;
+      if (amount > minBet && amount < maxBet) series.push(amount);
+    }
+  }
+  if (maxBet > minBet) series.push(maxBet);
+
+  if (series.length <= QUICK_BET_COUNT) return series;
+  return Array.from(
+    { length: QUICK_BET_COUNT },
+    (_, i) => series[Math.round((i * (series.length - 1)) / (QUICK_BET_COUNT - 1))]
+  );
+}
+
+/**
+ * Limits for a currency, with any overrides from the environment
+ */
+export function getBetLimits(currency: CurrencyCode, env: NodeJS.ProcessEnv = process.env): BetLimits {
+  const defaults = getCurrency(currency);
+  const minBet = readLimit(env, `MIN_BET_${currency}`, defaults.minBet);
+  const maxBet = Math.max(readLimit(env, `MAX_BET_${currency}`, defaults.maxBet), minBet);
+  const maxPayout = readLimit(env, `MAX_PAYOUT_${currency}`, defaults.maxPayout);
+
+  return { currency, minBet, maxBet, maxPayout, quickBets: quickBetAmounts(minBet, maxBet) };
+}
+
+/**
+ * Limits for every supported currency
+ */
+export function getAllBetLimits(env: NodeJS.ProcessEnv = process.env): Record<CurrencyCode, BetLimits> {
+  return Object.fromEntries(
+    CURRENCY_CODES.map((code) => [code, getBetLimits(code, env)])
+  ) as Record<CurrencyCode, BetLimits>;
+}
+
+/**
+ * Most a round can pay: every ball landing in the paytable's top bin
+ */
+export function maxRoundPayout(betCents: number, ballCount: number, rows: number, risk: RiskLevel): number {
+  return applyMultiplier(betCents, getMaxMultiplierBps(rows, risk) * ballCount);
+}
+
+/**
+ * The first limit a round's bet breaks, or null when it is within all of them
+ */
+export function checkBetLimits(
+  limits: BetLimits,
+  betCents: number,
+  ballCount: number,
+  rows: number,
+  risk: RiskLevel
+): LimitViolation | null {
+  if (betCents < limits.minBet) {
+    return { code: 'BET_BELOW_MIN', limit: limits.minBet, amount: betCents };
+  }
+  if (betCents > limits.maxBet) {
+    return { code: 'BET_ABOVE_MAX', limit: limits.maxBet, amount: betCents };
+  }
+
+  const maxPayout = maxRoundPayout(betCents, ballCount, rows, risk);
+  if (maxPayout > limits.maxPayout) {
+    return { code: 'PAYOUT_ABOVE_MAX', limit: limits.maxPayout, amount: maxPayout };
+  }
+  return null;
+}
+
+/**
+ * Human-readable explanation of a limit violation
+ */
+export function describeLimitViolation(violation: LimitViolation, currency: CurrencyCode): string {
+  const amount = formatMoney(violation.amount, currency);
+  const limit = formatMoney(violation.limit, currency);
+
+  switch (violation.code) {
+    case 'BET_BELOW_MIN':
+      return `Bet of ${amount} per ball is below the minimum bet of ${limit}`;
+    case 'BET_ABOVE_MAX':
+      return `Bet of ${amount} per ball is above the maximum bet of ${limit}`;
+    case 'PAYOUT_ABOVE_MAX':
+      return `This round could pay up to ${amount}, above the maximum payout of ${limit}; lower the bet or ball count`;
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * Merkle Trees over Commit Hashes
+ *
+ * Commits are published in batches as a single Merkle root; an inclusion
+ * proof shows one commitHex is in a batch without listing the others.
+ *
+ *   leaf = SHA256("leaf:" + commitHex)
+ *   node = SHA256("node:" + left + right)     (lowercase hex strings)
+ *
+ * A level with an odd node count carries its last node up unchanged rather
+ * than pairing it with itself. Free of Node dependencies: the caller passes
+ * SHA-256 (lib/fairness.ts on the server, lib/fairness-web.ts in the browser).
+ */
+
+export type Sha256 = (input: string) => string | Promise<string>;
+
+export interface MerkleProofStep {
+  position: 'left' | 'right'; // Side the sibling sits on
+  hash: string;
+}
+
+export function merkleLeafHash(commitHex: string, sha256: Sha256): string | Promise<string> {
+  return sha256(`leaf:${commitHex}`);
+}
+
+function merkleNodeHash(left: string, right: string, sha256: Sha256): string | Promise<string> {
+  return sha256(`node:${left}${right}`);
+}
+
+async function nextLevel(level: string[], sha256: Sha256): Promise<string[]> {
+  const next: string[] = [];
+  for (let i = 0; i < level.length; i += 2) {
+    next.push(i + 1 < level.length ? await merkleNodeHash(level[i], level[i + 1], sha256) : level[i]);
+  }
+  return next;
+}
+
+async function leafLevel(commitHexes: string[], sha256: Sha256): Promise<string[]> {
+  if (commitHexes.length === 0) {
+    throw new Error('A Merkle tree needs at least one leaf');
+  }
+  const leaves: string[] = [];
+  for (const commitHex of commitHexes) {
+    leaves.push(await merkleLeafHash(commitHex, sha256));
+  }
+  return leaves;
+}
+
+/**
+ * Root of the tree over commit hashes, in batch order
+ */
+export async function computeMerkleRoot(commitHexes: string[], sha256: Sha256): Promise<string> {
+  let level = await leafLevel(commitHexes, sha256);
+  while (level.length > 1) {
+    level = await nextLevel(level, sha256);
+  }
+  return level[0];
+}
+
+/**
+ * Sibling hashes from leaf `index` up to the root
+ */
+export async function buildMerkleProof(
+  commitHexes: string[],
+  index: number,
+  sha256: Sha256
+): Promise<MerkleProofStep[]> {
+  if (!Number.isInteger(index) || index < 0 || index >= commitHexes.length) {
+    throw new Error(`Leaf index ${index} is outside the batch`);
+  }
+
+  const proof: MerkleProofStep[] = [];
+  let level = await leafLevel(commitHexes, sha256);
+  let position = index;
+  while (level.length > 1) {
+    const sibling = position % 2 === 0 ? position + 1 : position - 1;
+    // A carried-up last node has no sibling at this level
+    if (sibling < level.length) {
+      proof.push({ position: sibling < position ? 'left' : 'right', hash: level[sibling] });
+    }
+    level = await nextLevel(level, sha256);
+    position = Math.floor(position / 2);
+  }
+  return proof;
+}
+
+/**
+ * Check that commitHex hashes up through the proof to the published root
+ */
+export async function verifyMerkleProof(
+  commitHex: string,
+  proof: MerkleProofStep[],
+  root: string,
+  sha256: Sha256
+): Promise<boolean> {
+  let hash = await merkleLeafHash(commitHex, sha256);
+  for (const step of proof) {
+    hash =
+      step.position === 'left'
+        ? await merkleNodeHash(step.hash, hash, sha256)
+        : await merkleNodeHash(hash, step.hash, sha256);
+  }
+  return hash === root;
+}
@@ -0,0 +1,24 @@
+/**
+ * Operator Authentication
+ *
+ * Operator-only endpoints require `Authorization: Bearer <OPERATOR_API_KEY>`.
+ * Without OPERATOR_API_KEY they reject every request, so a deployment that
+ * forgets the key is locked rather than open.
+ */
+
+import { createHash, timingSafeEqual } from 'crypto';
+import { NextRequest } from 'next/server';
+
+/**
+ * Constant-time string comparison; both sides are hashed first so their
+ * lengths do not leak either
+ */
+function safeEqual(a: string, b: string): boolean {
+  return timingSafeEqual(createHash('sha256').update(a).digest(), createHash('sha256').update(b).digest());
+}
+
+export function isOperator(request: NextRequest): boolean {
+  const apiKey = process.env.OPERATOR_API_KEY;
+  if (!apiKey) return false;
+  return safeEqual(request.headers.get('authorization') ?? '', `Bearer ${apiKey}`);
+}
@@ -1,71 +1,313 @@
 /**
  * Payout System
- * 
- * Defines the paytable for each bin (0-12)
+ *
+ * Defines the paytable for each bin of every supported board size (8-16 rows)
+ * and risk profile (low, medium, high)
  * Symmetric distribution with higher multipliers at edges
+ *
+ * Money is exact integer arithmetic. Multipliers are integer basis points
+ * (1x = 10,000 bps) and amounts are integer cents, or more generally minor
+ * units of the round's currency (lib/currency.ts). Rounding policy: a round
+ * pays betCents × (sum of its balls' multipliers in bps) / 10,000, rounded
+ * down to a whole cent once per round; the fraction of a cent stays with the
+ * house. The round's payoutMultiplierBps is the average of its balls'
+ * multipliers, rounded down to a whole basis point.
+ *
+ * Every table returns at most 100% from every drop column under the current
+ * algorithm version's drop column adjustment (checked in the test suite).
+ * A table that changes keeps its old multipliers in RETIRED_MULTIPLIERS_BPS
+ * for the algorithm versions that paid from them, so their rounds still verify.
  */
 
+import { ROWS, isValidRowCount } from './board';
+
+export const BPS_PER_MULTIPLIER = 10_000;
+
 export interface PaytableEntry {
   bin: number;
-  multiplier: number;
+  multiplierBps: number;
+  multiplier: number; // multiplierBps / 10,000, for display and odds; never for money
   color: string; // For UI visualization
 }
 
 /**
- * Symmetric paytable for 13 bins (0-12)
+ * Bin colors from the center (lowest multiplier) out to the edges (highest)
+ */
+const BIN_COLORS = [
+  '#60a5fa', // Blue - center, lowest
+  '#22d3ee', // Cyan
+  '#4ade80', // Green
+  '#a3e635', // Light green
+  '#fbbf24', // Yellow
+  '#f97316', // Orange
+  '#ef4444', // Red - highest
+];
+
+/**
+ * Risk profiles: low keeps most payouts near 1x, high concentrates value at the edges
+ */
+export const RISK_LEVELS = ['low', 'medium', 'high'] as const;
+export type RiskLevel = (typeof RISK_LEVELS)[number];
+
+/**
+ * Default risk profile; its 12-row table keeps the edges and center of the
+ * original Plinko Lab paytable
+ */
+export const DEFAULT_RISK: RiskLevel = 'low';
+
+/**
+ * Check that a value is a supported risk profile
+ */
+export function isValidRisk(risk: unknown): risk is RiskLevel {
+  return typeof risk === 'string' && (RISK_LEVELS as readonly string[]).includes(risk);
+}
+
+/**
+ * Multipliers in basis points per risk profile and row count, listed from
+ * bin 0 to bin `rows`
+ */
+const MULTIPLIERS_BPS: Record<RiskLevel, Record<number, number[]>> = {
+  low: {
+    8: [56_000, 21_000, 11_000, 10_000, 5_000, 10_000, 11_000, 21_000, 56_000],
+    9: [56_000, 20_000, 16_000, 10_000, 7_000, 7_000, 10_000, 16_000, 20_000, 56_000],
+    10: [89_000, 30_000, 14_000, 11_000, 10_000, 5_000, 10_000, 11_000, 14_000, 30_000, 89_000],
+    11: [84_000, 30_000, 19_000, 13_000, 10_000, 7_000, 7_000, 10_000, 13_000, 19_000, 30_000, 84_000],
+    12: [160_000, 90_000, 20_000, 14_000, 10_500, 9_000, 5_000, 9_000, 10_500, 14_000, 20_000, 90_000, 160_000],
+    13: [81_000, 40_000, 30_000, 19_000, 12_000, 9_000, 7_000, 7_000, 9_000, 12_000, 19_000, 30_000, 40_000, 81_000],
+    14: [71_000, 40_000, 19_000, 14_000, 13_000, 11_000, 10_000, 5_000, 10_000, 11_000, 13_000, 14_000, 19_000, 40_000, 71_000],
+    15: [150_000, 80_000, 30_000, 20_000, 15_000, 11_000, 10_000, 7_000, 7_000, 10_000, 11_000, 15_000, 20_000, 30_000, 80_000, 150_000],
+    16: [160_000, 90_000, 20_000, 14_000, 14_000, 12_000, 11_000, 10_000, 5_000, 10_000, 11_000, 12_000, 14_000, 14_000, 20_000, 90_000, 160_000],
+  },
+  medium: {
+    8: [130_000, 30_000, 13_000, 7_000, 4_000, 7_000, 13_000, 30_000, 130_000],
+    9: [180_000, 40_000, 17_000, 9_000, 5_000, 5_000, 9_000, 17_000, 40_000, 180_000],
+    10: [220_000, 50_000, 20_000, 14_000, 6_000, 4_000, 6_000, 14_000, 20_000, 50_000, 220_000],
+    11: [240_000, 60_000, 30_000, 18_000, 7_000, 5_000, 5_000, 7_000, 18_000, 30_000, 60_000, 240_000],
+    12: [330_000, 110_000, 40_000, 20_000, 11_000, 6_000, 3_000, 6_000, 11_000, 20_000, 40_000, 110_000, 330_000],
+    13: [430_000, 130_000, 60_000, 30_000, 13_000, 7_000, 4_000, 4_000, 7_000, 13_000, 30_000, 60_000, 130_000, 430_000],
+    14: [580_000, 150_000, 70_000, 40_000, 19_000, 10_000, 5_000, 2_000, 5_000, 10_000, 19_000, 40_000, 70_000, 150_000, 580_000],
+    15: [880_000, 180_000, 110_000, 50_000, 30_000, 13_000, 5_000, 3_000, 3_000, 5_000, 13_000, 30_000, 50_000, 110_000, 180_000, 880_000],
+    16: [1_100_000, 410_000, 100_000, 50_000, 30_000, 15_000, 10_000, 5_000, 3_000, 5_000, 10_000, 15_000, 30_000, 50_000, 100_000, 410_000, 1_100_000],
+  },
+  high: {
+    8: [290_000, 40_000, 15_000, 3_000, 2_000, 3_000, 15_000, 40_000, 290_000],
+    9: [430_000, 70_000, 20_000, 6_000, 2_000, 2_000, 6_000, 20_000, 70_000, 430_000],
+    10: [760_000, 100_000, 30_000, 9_000, 3_000, 2_000, 3_000, 9_000, 30_000, 100_000, 760_000],
+    11: [1_200_000, 140_000, 52_000, 14_000, 4_000, 2_000, 2_000, 4_000, 14_000, 52_000, 140_000, 1_200_000],
+    12: [1_700_000, 240_000, 81_000, 20_000, 7_000, 2_000, 2_000, 2_000, 7_000, 20_000, 81_000, 240_000, 1_700_000],
+    13: [2_600_000, 370_000, 110_000, 40_000, 10_000, 2_000, 2_000, 2_000, 2_000, 10_000, 40_000, 110_000, 370_000, 2_600_000],
+    14: [4_200_000, 560_000, 180_000, 50_000, 19_000, 3_000, 2_000, 2_000, 2_000, 3_000, 19_000, 50_000, 180_000, 560_000, 4_200_000],
+    15: [6_200_000, 830_000, 270_000, 80_000, 30_000, 5_000, 2_000, 2_000, 2_000, 2_000, 5_000, 30_000, 80_000, 270_000, 830_000, 6_200_000],
+    16: [10_000_000, 1_300_000, 260_000, 90_000, 40_000, 20_000, 2_000, 2_000, 2_000, 2_000, 2_000, 20_000, 40_000, 90_000, 260_000, 1_300_000, 10_000_000],
+  },
+};
+
+/**
+ * Tables rounds of older algorithm versions were paid from, where they differ
+ * from MULTIPLIERS_BPS. The original 12-row low-risk table returned 104% from
+ * the center column; hmac-sha256-v3 rounds pay from the lowered one.
+ */
+const ORIGINAL_LOW_12_BPS = [
+  160_000, 90_000, 20_000, 14_000, 11_000, 10_000, 5_000, 10_000, 11_000, 14_000, 20_000, 90_000, 160_000,
+];
+
+const RETIRED_MULTIPLIERS_BPS: Record<string, Partial<Record<RiskLevel, Record<number, number[]>>>> = {
+  'xorshift32-v1': { low: { 12: ORIGINAL_LOW_12_BPS } },
+  'hmac-sha256-v2': { low: { 12: ORIGINAL_LOW_12_BPS } },
+};
+
+/**
+ * Color for a bin based on its distance from the board center
+ */
+function colorForBin(binIndex: number, rows: number): string {
+  const center = rows / 2;
+  const distance = Math.abs(binIndex - center) / center; // 0 at center, 1 at edges
+  return BIN_COLORS[Math.round(distance * (BIN_COLORS.length - 1))];
+}
+
+function buildPaytable(multipliersBps: number[], rows: number): PaytableEntry[] {
+  return multipliersBps.map((multiplierBps, bin) => ({
+    bin,
+    multiplierBps,
+    multiplier: multiplierBps / BPS_PER_MULTIPLIER,
+    color: colorForBin(bin, rows),
+  }));
+}
+
+function buildRiskPaytables(tables: Record<number, number[]>): Record<number, PaytableEntry[]> {
+  return Object.fromEntries(
+    Object.entries(tables).map(([rows, multipliersBps]) => [
+      Number(rows),
+      buildPaytable(multipliersBps, Number(rows)),
+    ])
+  );
+}
+
+/**
+ * Paytables keyed by risk profile, then row count (8-16)
+ */
+export const PAYTABLES: Record<RiskLevel, Record<number, PaytableEntry[]>> = {
+  low: buildRiskPaytables(MULTIPLIERS_BPS.low),
+  medium: buildRiskPaytables(MULTIPLIERS_BPS.medium),
+  high: buildRiskPaytables(MULTIPLIERS_BPS.high),
+};
+
+const RETIRED_PAYTABLES: Record<string, Partial<Record<RiskLevel, Record<number, PaytableEntry[]>>>> =
+  Object.fromEntries(
+    Object.entries(RETIRED_MULTIPLIERS_BPS).map(([version, risks]) => [
+      version,
+      Object.fromEntries(
+        Object.entries(risks).map(([risk, tables]) => [risk, buildRiskPaytables(tables)])
+      ),
+    ])
+  );
+
+/**
+ * Symmetric paytable for the default 12-row, low-risk board (13 bins, 0-12)
  * Higher multipliers at edges, lower in center
  * This creates the classic Plinko risk/reward profile
  */
-export const PAYTABLE: PaytableEntry[] = [
-  { bin: 0, multiplier: 16.0, color: '#ef4444' },  // Red - highest
-  { bin: 1, multiplier: 9.0, color: '#f97316' },   // Orange
-  { bin: 2, multiplier: 2.0, color: '#fbbf24' },   // Yellow
-  { bin: 3, multiplier: 1.4, color: '#a3e635' },   // Light green
-  { bin: 4, multiplier: 1.1, color: '#4ade80' },   // Green
-  { bin: 5, multiplier: 1.0, color: '#22d3ee' },   // Cyan
-  { bin: 6, multiplier: 0.5, color: '#60a5fa' },   // Blue - center, lowest
-  { bin: 7, multiplier: 1.0, color: '#22d3ee' },   // Cyan
-  { bin: 8, multiplier: 1.1, color: '#4ade80' },   // Green
-  { bin: 9, multiplier: 1.4, color: '#a3e635' },   // Light green
-  { bin: 10, multiplier: 2.0, color: '#fbbf24' },  // Yellow
-  { bin: 11, multiplier: 9.0, color: '#f97316' },  // Orange
-  { bin: 12, multiplier: 16.0, color: '#ef4444' }, // Red - highest
-];
+export const PAYTABLE: PaytableEntry[] = PAYTABLES[DEFAULT_RISK][ROWS];
 
 /**
- * Get multiplier for a specific bin
+ * Get the paytable for a board size and risk profile
+ * Pass a round's algorithm version to get the table that round was paid
+ * from; without one, the table new rounds pay from.
  */
-export function getMultiplier(binIndex: number): number {
-  if (binIndex < 0 || binIndex >= PAYTABLE.length) {
-    throw new Error(`Invalid bin index: ${binIndex}`);
+export function getPaytable(
+  rows: number = ROWS,
+  risk: RiskLevel = DEFAULT_RISK,
+  algorithmVersion?: string
+): PaytableEntry[] {
+  if (!isValidRowCount(rows)) {
+    throw new Error(`Invalid rows: ${rows}`);
   }
-  return PAYTABLE[binIndex].multiplier;
+  if (!isValidRisk(risk)) {
+    throw new Error(`Invalid risk: ${risk}`);
+  }
+  const retired =
+    algorithmVersion !== undefined && Object.prototype.hasOwnProperty.call(RETIRED_PAYTABLES, algorithmVersion)
+      ? RETIRED_PAYTABLES[algorithmVersion][risk]?.[rows]
+      : undefined;
+  return retired ?? PAYTABLES[risk][rows];
+}
+
+/**
+ * Get the multiplier for a specific bin in basis points
+ */
+export function getMultiplierBps(
+  binIndex: number,
+  rows: number = ROWS,
+  risk: RiskLevel = DEFAULT_RISK,
+  algorithmVersion?: string
+): number {
+  return getPaytableEntry(binIndex, rows, risk, algorithmVersion).multiplierBps;
+}
+
+/**
+ * Highest multiplier on a paytable in basis points (its edge bins)
+ */
+export function getMaxMultiplierBps(rows: number = ROWS, risk: RiskLevel = DEFAULT_RISK): number {
+  return Math.max(...getPaytable(rows, risk).map((entry) => entry.multiplierBps));
+}
+
+/**
+ * Get the multiplier for a specific bin as a decimal (display only)
+ */
+export function getMultiplier(
+  binIndex: number,
+  rows: number = ROWS,
+  risk: RiskLevel = DEFAULT_RISK
+): number {
+  return getPaytableEntry(binIndex, rows, risk).multiplier;
+}
+
+/**
+ * Whole cents paid for a stake at a multiplier, rounded down
+ */
+export function applyMultiplier(cents: number, multiplierBps: number): number {
+  return Math.floor((cents * multiplierBps) / BPS_PER_MULTIPLIER);
+}
+
+/**
+ * Calculate payout amount in whole cents
+ */
+export function calculatePayout(
+  betCents: number,
+  binIndex: number,
+  rows: number = ROWS,
+  risk: RiskLevel = DEFAULT_RISK
+): number {
+  return applyMultiplier(betCents, getMultiplierBps(binIndex, rows, risk));
+}
+
+/**
+ * Settle a round from its balls' paytable multipliers (basis points)
+ * The payout is rounded down once for the whole round rather than per ball,
+ * so fractions of a cent from separate balls add up before rounding.
+ */
+export function settleRoundPayout(
+  betCents: number,
+  multipliersBps: number[]
+): { totalPayoutCents: number; payoutMultiplierBps: number } {
+  const sumBps = multipliersBps.reduce((sum, bps) => sum + bps, 0);
+
+  return {
+    totalPayoutCents: applyMultiplier(betCents, sumBps),
+    payoutMultiplierBps: Math.floor(sumBps / multipliersBps.length),
+  };
+}
+
+/**
+ * Payout of a (possibly multi-ball) round with betCents staked on every ball,
+ * from the paytable of the round's algorithm version
+ */
+export function calculateRoundPayout(
+  betCents: number,
+  binIndexes: number[],
+  rows: number = ROWS,
+  risk: RiskLevel = DEFAULT_RISK,
+  algorithmVersion?: string
+): { multipliersBps: number[]; totalPayoutCents: number; payoutMultiplierBps: number } {
+  const multipliersBps = binIndexes.map((bin) => getMultiplierBps(bin, rows, risk, algorithmVersion));
+
+  return { multipliersBps, ...settleRoundPayout(betCents, multipliersBps) };
 }
 
 /**
- * Calculate payout amount
+ * Decimal form of a basis-point multiplier for display, e.g. 5600 -> "0.56"
  */
-export function calculatePayout(betCents: number, binIndex: number): number {
-  const multiplier = getMultiplier(binIndex);
-  return betCents * multiplier;
+export function formatMultiplier(multiplierBps: number): string {
+  return (multiplierBps / BPS_PER_MULTIPLIER).toString();
 }
 
 /**
  * Get color for a bin (for UI)
  */
-export function getBinColor(binIndex: number): string {
-  if (binIndex < 0 || binIndex >= PAYTABLE.length) {
+export function getBinColor(
+  binIndex: number,
+  rows: number = ROWS,
+  risk: RiskLevel = DEFAULT_RISK
+): string {
+  const paytable = PAYTABLES[risk]?.[rows];
+  if (!paytable || binIndex < 0 || binIndex >= paytable.length) {
     return '#6b7280'; // Gray fallback
   }
-  return PAYTABLE[binIndex].color;
+  return paytable[binIndex].color;
 }
 
 /**
  * Get paytable entry for a bin
  */
-export function getPaytableEntry(binIndex: number): PaytableEntry {
-  if (binIndex < 0 || binIndex >= PAYTABLE.length) {
+export function getPaytableEntry(
+  binIndex: number,
+  rows: number = ROWS,
+  risk: RiskLevel = DEFAULT_RISK,
+  algorithmVersion?: string
+): PaytableEntry {
+  const paytable = getPaytable(rows, risk, algorithmVersion);
+  if (binIndex < 0 || binIndex >= paytable.length) {
     throw new Error(`Invalid bin index: ${binIndex}`);
   }
-  return PAYTABLE[binIndex];
+  return paytable[binIndex];
 }
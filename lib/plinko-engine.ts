@@ -2,72 +2,83 @@
  * Deterministic Plinko Engine
  * 
  * This module implements the discrete Plinko model that is 100% deterministic
- * and replayable from a seed. All randomness comes from the fairness PRNG.
+ * and replayable from a seed. All randomness comes from the PRNG of the
+ * round's algorithm version (see lib/algorithms.ts).
  * 
- * Specification:
- * - 12 rows, 13 bins (indexed 0-12)
+ * Specification (xorshift32-v1):
+ * - 8 to 16 rows (default 12), rows + 1 bins (indexed 0..rows)
  * - Each row r has r+1 pegs with leftBias in [0.4, 0.6]
  * - leftBias = 0.5 + (rand() - 0.5) * 0.2
- * - Drop column influences bias: adj = (dropColumn - 6) * 0.01
+ * - Drop column influences bias: adj = (dropColumn - floor(rows / 2)) * 0.01
  * - Path is deterministic: at row r, use peg at min(pos, r)
+ *
+ * Peg map generation and drops live in lib/engine-core.ts, which the browser
+ * verifier shares; this module adds hashing and seeding with Node's crypto.
  */
 
-import { Xorshift32, sha256 } from './fairness';
-
-export interface Peg {
-  leftBias: number; // Probability of going left, rounded to 6 decimals
-}
-
-export interface PegMap {
-  rows: Peg[][]; // rows[r] contains r+1 pegs
-}
-
-export interface PathDecision {
-  row: number;
-  pegIndex: number;
-  leftBias: number;
-  adjustedBias: number;
-  randomValue: number;
-  decision: 'LEFT' | 'RIGHT';
-}
+import { sha256, generateCombinedSeed, hmacSha256 } from './fairness';
+import {
+  PrngSeeds,
+  PlinkoAlgorithm,
+  CURRENT_ALGORITHM_VERSION,
+  LEGACY_ALGORITHM_VERSION,
+  getAlgorithm,
+} from './algorithms';
+import {
+  ROWS,
+  BINS,
+  MIN_ROWS,
+  MAX_ROWS,
+  MIN_BALLS,
+  MAX_BALLS,
+  isValidRowCount,
+  isValidBallCount,
+  getBinCount,
+  isValidDropColumn,
+} from './board';
+import { getPaytable, RiskLevel, DEFAULT_RISK } from './payout';
+import {
+  Peg,
+  PegMap,
+  PathDecision,
+  generatePegMap,
+  simulateDrop,
+  clamp,
+  playRound,
+} from './engine-core';
+import { traceRound, RoundTrace } from './explain';
 
 export interface PlinkoResult {
   pegMap: PegMap;
   pegMapHash: string;
-  path: PathDecision[];
-  binIndex: number; // Final landing bin (0-12)
+  path: PathDecision[]; // First ball's path
+  binIndex: number; // First ball's landing bin (0..rows)
+  paths: PathDecision[][]; // Every ball's path, in drop order
+  binIndexes: number[]; // Every ball's landing bin, in drop order
+  algorithmVersion: string;
 }
 
-export const ROWS = 12;
-export const BINS = 13;
-
-/**
- * Generate the peg map for the board
- * Each peg gets a leftBias = 0.5 + (rand() - 0.5) * 0.2
- * This gives a range of [0.4, 0.6] centered at 0.5
- */
-export function generatePegMap(prng: Xorshift32): PegMap {
-  const rows: Peg[][] = [];
-
-  for (let r = 0; r < ROWS; r++) {
-    const pegCount = r + 1;
-    const pegRow: Peg[] = [];
-
-    for (let p = 0; p < pegCount; p++) {
-      const rand = prng.next();
-      // leftBias = 0.5 + (rand - 0.5) * 0.2 → [0.4, 0.6]
-      const leftBias = 0.5 + (rand - 0.5) * 0.2;
-      // Round to 6 decimals for stable hashing
-      const roundedLeftBias = Number(leftBias.toFixed(6));
-      pegRow.push({ leftBias: roundedLeftBias });
-    }
-
-    rows.push(pegRow);
-  }
-
-  return { rows };
+export interface LandingOdds {
+  probabilities: number[]; // P(bin) for bins 0..rows, summing to 1
+  expectedMultiplier: number; // Sum of P(bin) * multiplier over the paytable
 }
 
+export type { Peg, PegMap, PathDecision };
+export { generatePegMap, simulateDrop };
+
+export {
+  ROWS,
+  BINS,
+  MIN_ROWS,
+  MAX_ROWS,
+  MIN_BALLS,
+  MAX_BALLS,
+  isValidRowCount,
+  isValidBallCount,
+  getBinCount,
+  isValidDropColumn,
+};
+
 /**
  * Calculate SHA-256 hash of the peg map for verification
  * This ensures the peg map hasn't been tampered with
@@ -77,120 +88,212 @@ export function hashPegMap(pegMap: PegMap): string {
 }
 
 /**
- * Clamp a value between min and max
- */
-function clamp(value: number, min: number, max: number): number {
-  return Math.max(min, Math.min(max, value));
-}
-
-/**
- * Simulate the ball drop through the peg map
+ * Exact landing probability of every bin for a peg map and drop column
+ * Dynamic programming over simulateDrop's rules: a ball with `pos` RIGHT moves
+ * hits peg min(pos, r) and goes LEFT with probability clamp(leftBias + adj, 0, 1)
  * 
- * @param pegMap - The generated peg map
- * @param dropColumn - Player's chosen drop column (0-12)
- * @param prng - PRNG instance (already used for peg generation)
- * @returns Path decisions and final bin
+ * @returns Probabilities for bins 0..rows
  */
-export function simulateDrop(
+export function computeBinProbabilities(
   pegMap: PegMap,
   dropColumn: number,
-  prng: Xorshift32
-): { path: PathDecision[]; binIndex: number } {
-  const path: PathDecision[] = [];
-  let pos = 0; // Number of RIGHT moves so far
-
-  // Calculate drop column adjustment
-  const centerColumn = Math.floor(ROWS / 2); // 6 for 12 rows
-  const adj = (dropColumn - centerColumn) * 0.01;
-
-  for (let r = 0; r < ROWS; r++) {
-    // Get the peg at the current path position
-    const pegIndex = Math.min(pos, r);
-    const peg = pegMap.rows[r][pegIndex];
-
-    // Apply drop column bias adjustment
-    const adjustedBias = clamp(peg.leftBias + adj, 0, 1);
-
-    // Get random value from PRNG
-    const randomValue = prng.next();
-
-    // Make decision
-    const decision = randomValue < adjustedBias ? 'LEFT' : 'RIGHT';
-
-    // Record the decision
-    path.push({
-      row: r,
-      pegIndex,
-      leftBias: peg.leftBias,
-      adjustedBias,
-      randomValue,
-      decision,
-    });
-
-    // Update position
-    if (decision === 'RIGHT') {
-      pos += 1;
+  algorithm: PlinkoAlgorithm = getAlgorithm(LEGACY_ALGORITHM_VERSION)
+): number[] {
+  const rowCount = pegMap.rows.length;
+  if (!isValidDropColumn(dropColumn, rowCount)) {
+    throw new Error(`Invalid dropColumn: ${dropColumn}. Must be 0-${rowCount}`);
+  }
+
+  const adj = algorithm.dropAdjustment(dropColumn, rowCount);
+  let distribution = [1]; // distribution[pos] = P(pos RIGHT moves so far)
+
+  for (let r = 0; r < rowCount; r++) {
+    const next = new Array<number>(r + 2).fill(0);
+    for (let pos = 0; pos <= r; pos++) {
+      const peg = pegMap.rows[r][Math.min(pos, r)];
+      const leftProbability = clamp(peg.leftBias + adj, 0, 1);
+      next[pos] += distribution[pos] * leftProbability;
+      next[pos + 1] += distribution[pos] * (1 - leftProbability);
     }
+    distribution = next;
   }
 
-  // Final bin is the number of RIGHT moves
-  const binIndex = pos;
+  return distribution;
+}
 
-  return { path, binIndex };
+/**
+ * Peg map of mean biases, for odds before any seed is known
+ * The bias formulas are linear in rand() and never reach the clamp, and each
+ * path meets every peg at most once, so this map gives the exact prior
+ * landing distribution (up to the 6-decimal rounding of leftBias).
+ */
+export function generatePriorPegMap(
+  rowCount: number = ROWS,
+  algorithm: PlinkoAlgorithm = getAlgorithm(LEGACY_ALGORITHM_VERSION)
+): PegMap {
+  if (!isValidRowCount(rowCount)) {
+    throw new Error(`Invalid rows: ${rowCount}. Must be ${MIN_ROWS}-${MAX_ROWS}`);
+  }
+
+  const meanLeftBias = algorithm.pegLeftBias(0.5);
+  return {
+    rows: Array.from({ length: rowCount }, (_, r) =>
+      Array.from({ length: r + 1 }, () => ({ leftBias: meanLeftBias }))
+    ),
+  };
 }
 
 /**
- * Complete Plinko round computation
- * This is the main entry point for generating a deterministic outcome
+ * Landing distribution plus the expected multiplier against the paytable
+ */
+export function computeLandingOdds(
+  pegMap: PegMap,
+  dropColumn: number,
+  risk: RiskLevel = DEFAULT_RISK,
+  algorithm: PlinkoAlgorithm = getAlgorithm(LEGACY_ALGORITHM_VERSION)
+): LandingOdds {
+  const probabilities = computeBinProbabilities(pegMap, dropColumn, algorithm);
+  const paytable = getPaytable(pegMap.rows.length, risk, algorithm.version);
+  const expectedMultiplier = probabilities.reduce(
+    (sum, probability, bin) => sum + probability * paytable[bin].multiplier,
+    0
+  );
+
+  return { probabilities, expectedMultiplier };
+}
+
+/**
+ * Raw round seeds, needed by algorithms that go beyond the combined seed
+ */
+export interface RoundSeeds {
+  serverSeed: string;
+  clientSeed: string;
+  nonce: string;
+}
+
+/**
+ * Complete Plinko round computation from the combined seed alone
+ * Only algorithms that derive their PRNG from combinedSeed (xorshift32-v1)
+ * can run here; use computeRoundOutcome for the others.
  * 
  * @param combinedSeed - The combined seed from fairness protocol
- * @param dropColumn - Player's chosen drop column (0-12)
- * @returns Complete Plinko result with peg map, path, and bin
+ * @param dropColumn - Player's chosen drop column (0..rows)
+ * @param rows - Board row count (8-16, default 12)
+ * @param algorithmVersion - Registered algorithm version (default: xorshift32-v1)
+ * @param ballCount - Balls dropped on the same peg map (1-100, default 1)
+ * @returns Complete Plinko result with peg map, paths, and bins
  */
 export function computePlinkoOutcome(
   combinedSeed: string,
-  dropColumn: number
+  dropColumn: number,
+  rows: number = ROWS,
+  algorithmVersion: string = LEGACY_ALGORITHM_VERSION,
+  ballCount: number = 1
 ): PlinkoResult {
-  // Validate inputs
-  if (dropColumn < 0 || dropColumn > BINS - 1) {
-    throw new Error(`Invalid dropColumn: ${dropColumn}. Must be 0-${BINS - 1}`);
-  }
+  return runEngine({ combinedSeed }, dropColumn, rows, algorithmVersion, ballCount);
+}
 
-  // Initialize PRNG from combined seed
-  const prng = new Xorshift32(combinedSeed);
+/**
+ * Complete Plinko round computation from the raw seeds
+ * This is the main entry point for generating a deterministic outcome
+ *
+ * @param seeds - serverSeed, clientSeed and nonce of the round
+ * @param dropColumn - Player's chosen drop column (0..rows)
+ * @param rows - Board row count (8-16, default 12)
+ * @param algorithmVersion - Registered algorithm version (default: current)
+ * @param ballCount - Balls dropped on the same peg map (1-100, default 1)
+ * @returns Plinko result plus the combined seed it was derived alongside
+ */
+export function computeRoundOutcome(
+  seeds: RoundSeeds,
+  dropColumn: number,
+  rows: number = ROWS,
+  algorithmVersion: string = CURRENT_ALGORITHM_VERSION,
+  ballCount: number = 1
+): PlinkoResult & { combinedSeed: string } {
+  const combinedSeed = generateCombinedSeed(seeds.serverSeed, seeds.clientSeed, seeds.nonce);
+  const result = runEngine(
+    { ...seeds, combinedSeed },
+    dropColumn,
+    rows,
+    algorithmVersion,
+    ballCount
+  );
+  return { ...result, combinedSeed };
+}
 
-  // Generate peg map (uses PRNG first)
-  const pegMap = generatePegMap(prng);
+function runEngine(
+  seeds: PrngSeeds,
+  dropColumn: number,
+  rows: number,
+  algorithmVersion: string,
+  ballCount: number
+): PlinkoResult {
+  const algorithm = getAlgorithm(algorithmVersion);
+
+  // Initialize PRNG from the seeds the algorithm draws on
+  const prng = algorithm.createPrng(seeds, hmacSha256);
+
+  // Peg map first, then every ball in order, all from the same PRNG
+  const { pegMap, paths, binIndexes } = playRound(prng, algorithm, rows, dropColumn, ballCount);
 
   // Calculate peg map hash for verification
   const pegMapHash = hashPegMap(pegMap);
 
-  // Simulate drop (uses PRNG second, maintaining order)
-  const { path, binIndex } = simulateDrop(pegMap, dropColumn, prng);
-
   return {
     pegMap,
     pegMapHash,
-    path,
-    binIndex,
+    path: paths[0],
+    binIndex: binIndexes[0],
+    paths,
+    binIndexes,
+    algorithmVersion: algorithm.version,
   };
 }
 
 /**
  * Replay a round from stored data for verification
- * This recomputes the outcome and compares it to stored values
+ * This recomputes the outcome with the round's own algorithm version
+ * and compares it to stored values
+ * 
+ * @param seeds - Raw round seeds, or the combined seed for combined-seed algorithms
+ * @param expectedBinIndex - Stored bin, or every ball's bin for multi-ball rounds
  */
 export function replayRound(
-  combinedSeed: string,
+  seeds: string | RoundSeeds,
   dropColumn: number,
-  expectedBinIndex: number,
-  expectedPegMapHash: string
+  expectedBinIndex: number | number[],
+  expectedPegMapHash: string,
+  rows: number = ROWS,
+  algorithmVersion: string = LEGACY_ALGORITHM_VERSION
 ): { matches: boolean; result: PlinkoResult } {
-  const result = computePlinkoOutcome(combinedSeed, dropColumn);
+  const expectedBins = Array.isArray(expectedBinIndex) ? expectedBinIndex : [expectedBinIndex];
+  const result =
+    typeof seeds === 'string'
+      ? computePlinkoOutcome(seeds, dropColumn, rows, algorithmVersion, expectedBins.length)
+      : computeRoundOutcome(seeds, dropColumn, rows, algorithmVersion, expectedBins.length);
 
   const matches =
-    result.binIndex === expectedBinIndex &&
+    result.binIndexes.length === expectedBins.length &&
+    result.binIndexes.every((bin, ball) => bin === expectedBins[ball]) &&
     result.pegMapHash === expectedPegMapHash;
 
   return { matches, result };
 }
+
+/**
+ * Full computation trace of a round for auditors (explain mode)
+ * See lib/explain.ts for what is recorded.
+ */
+export function explainRound(
+  seeds: RoundSeeds,
+  dropColumn: number,
+  rows: number = ROWS,
+  algorithmVersion: string = CURRENT_ALGORITHM_VERSION,
+  ballCount: number = 1
+): Promise<RoundTrace> {
+  return traceRound(seeds, dropColumn, rows, algorithmVersion, ballCount, {
+    sha256,
+    hmac: hmacSha256,
+  });
+}
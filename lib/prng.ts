@@ -0,0 +1,123 @@
+/**
+ * Deterministic PRNGs
+ *
+ * The PRNGs behind every algorithm version, kept free of Node dependencies so
+ * the same code runs on the server and in the browser verifier. Anything that
+ * needs a hash is passed in: HMAC blocks come from Node's crypto on the server
+ * and from WebCrypto (computed up front) in the browser.
+ */
+
+/**
+ * Source of uniform floats in [0, 1)
+ */
+export interface Prng {
+  next(): number;
+}
+
+/**
+ * Synchronous HMAC-SHA256 over UTF-8 key and message, returning the 32-byte digest
+ */
+export type HmacSha256 = (key: string, message: string) => Uint8Array;
+
+/**
+ * Xorshift32 PRNG implementation
+ * Seeded from first 4 bytes of hex seed (big-endian)
+ *
+ * This is a simple, fast, and deterministic PRNG that produces
+ * consistent sequences for the same seed.
+ */
+export class Xorshift32 {
+  private state: number;
+
+  constructor(seed: string) {
+    // Take first 8 hex characters (4 bytes) and convert to uint32 big-endian
+    const seedHex = seed.substring(0, 8);
+    this.state = parseInt(seedHex, 16);
+
+    // Ensure state is never 0 (xorshift32 requirement)
+    if (this.state === 0) {
+      this.state = 1;
+    }
+  }
+
+  /**
+   * Generate next pseudo-random number in range [0, 1)
+   */
+  next(): number {
+    let x = this.state;
+    x ^= x << 13;
+    x ^= x >>> 17;
+    x ^= x << 5;
+    this.state = x >>> 0; // Convert to unsigned 32-bit integer
+    return this.state / 0x100000000; // Convert to [0, 1)
+  }
+
+  /**
+   * Generate multiple random numbers at once
+   */
+  nextN(count: number): number[] {
+    const results: number[] = [];
+    for (let i = 0; i < count; i++) {
+      results.push(this.next());
+    }
+    return results;
+  }
+}
+
+/**
+ * Message for block k of the hmac-sha256-v2 stream: clientSeed:nonce:k
+ */
+export function hmacStreamMessage(clientSeed: string, nonce: string, cursor: number): string {
+  return `${clientSeed}:${nonce}:${cursor}`;
+}
+
+/**
+ * HMAC-SHA256 byte stream PRNG
+ * Block k = HMAC_SHA256(key = serverSeed, message = clientSeed + ":" + nonce + ":" + k)
+ * Each block yields 8 floats, one per 4 bytes read as a big-endian uint32 / 2^32
+ *
+ * Unlike Xorshift32 this uses the full entropy of every seed, so distinct
+ * seeds never collapse onto the same 2^32 sequences.
+ */
+export class HmacStreamPrng {
+  private block: Uint8Array = new Uint8Array(0);
+  private offset = 0;
+  private cursor = 0;
+
+  constructor(
+    private readonly hmac: HmacSha256,
+    private readonly serverSeed: string,
+    private readonly clientSeed: string,
+    private readonly nonce: string
+  ) {}
+
+  /**
+   * Generate next pseudo-random number in range [0, 1)
+   */
+  next(): number {
+    if (this.offset + 4 > this.block.length) {
+      this.block = this.hmac(
+        this.serverSeed,
+        hmacStreamMessage(this.clientSeed, this.nonce, this.cursor)
+      );
+      this.cursor++;
+      this.offset = 0;
+    }
+    const b = this.block;
+    const o = this.offset;
+    const value = ((b[o] << 24) | (b[o + 1] << 16) | (b[o + 2] << 8) | b[o + 3]) >>> 0;
+    this.offset += 4;
+    return value / 0x100000000;
+  }
+
+  /**
+   * Generate multiple random numbers at once
+   */
+  nextN(count: number): number[] {
+    const results: number[] = [];
+    for (let i = 0; i < count; i++) {
+      results.push(this.next());
+    }
+    return results;
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * Receipt Signing (server only)
+ *
+ * Loads the operator's Ed25519 key from RECEIPT_SIGNING_KEY (PKCS#8 PEM;
+ * literal "\n" sequences are accepted for single-line env files) and signs
+ * round receipts with it. Without the variable, rounds are played unsigned
+ * and the receipt fields stay null.
+ */
+
+import crypto, { KeyObject } from 'crypto';
+import { RECEIPT_ALGORITHM, ReceiptPayload, RoundReceipt, isAcceptedReceiptPayload, receiptMessage } from './receipts';
+
+let cachedKey: { pem: string; privateKey: KeyObject; publicKey: string } | null = null;
+
+function hexToBase64Url(hex: string): string {
+  return Buffer.from(hex, 'hex').toString('base64url');
+}
+
+/**
+ * Raw 32-byte Ed25519 public key as hex
+ */
+function rawPublicKeyHex(key: KeyObject): string {
+  const jwk = key.export({ format: 'jwk' });
+  return Buffer.from(jwk.x as string, 'base64url').toString('hex');
+}
+
+function loadOperatorKey(): { privateKey: KeyObject; publicKey: string } | null {
+  const pem = process.env.RECEIPT_SIGNING_KEY?.replace(/\\n/g, '\n');
+  if (!pem) return null;
+  if (cachedKey?.pem === pem) return cachedKey;
+
+  const privateKey = crypto.createPrivateKey(pem);
+  if (privateKey.asymmetricKeyType !== 'ed25519') {
+    throw new Error('RECEIPT_SIGNING_KEY must be an Ed25519 private key');
+  }
+
+  cachedKey = { pem, privateKey, publicKey: rawPublicKeyHex(crypto.createPublicKey(privateKey)) };
+  return cachedKey;
+}
+
+/**
+ * The operator public key players verify receipts against (null if unsigned)
+ */
+export function getOperatorPublicKey(): string | null {
+  return loadOperatorKey()?.publicKey ?? null;
+}
+
+/**
+ * Sign a receipt payload with the operator key (null if no key is configured)
+ */
+export function signReceipt(payload: ReceiptPayload): RoundReceipt | null {
+  const key = loadOperatorKey();
+  if (!key) return null;
+
+  const signature = crypto.sign(null, Buffer.from(receiptMessage(payload), 'utf8'), key.privateKey);
+  return {
+    algorithm: RECEIPT_ALGORITHM,
+    publicKey: key.publicKey,
+    payload,
+    signature: signature.toString('hex'),
+  };
+}
+
+/**
+ * Check a receipt's signature against a published public key (hex)
+ * The key embedded in the receipt is ignored; it must match publicKey anyway.
+ */
+export function verifyReceipt(receipt: RoundReceipt, publicKey: string): boolean {
+  if (
+    receipt.algorithm !== RECEIPT_ALGORITHM ||
+    receipt.publicKey !== publicKey ||
+    !isAcceptedReceiptPayload(receipt.payload)
+  ) {
+    return false;
+  }
+
+  try {
+    const key = crypto.createPublicKey({
+      key: { kty: 'OKP', crv: 'Ed25519', x: hexToBase64Url(publicKey) },
+      format: 'jwk',
+    });
+    return crypto.verify(
+      null,
+      Buffer.from(receiptMessage(receipt.payload), 'utf8'),
+      key,
+      Buffer.from(receipt.signature, 'hex')
+    );
+  } catch {
+    // Malformed key or signature
+    return false;
+  }
+}
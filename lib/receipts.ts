@@ -0,0 +1,165 @@
+/**
+ * Signed Round Receipts
+ *
+ * The operator signs each round twice with its Ed25519 key: a commit receipt
+ * when POST /api/rounds/commit hands out the commitment, and an outcome
+ * receipt when the round is revealed. Both cover the same fields; those not
+ * decided yet at commit time are null. A player holding a receipt can prove
+ * what the operator promised, since only the operator key can produce it.
+ *
+ * Version 2 also signs the ball count, every ball's bin, the payout and the
+ * currency, so a receipt proves what a multi-ball or non-USD round paid.
+ * Version 1 receipts (without them) are still verified over their own fields.
+ *
+ * This module only defines the payloads and the exact bytes signed, so it is
+ * shared by the server (lib/receipt-signing.ts) and the browser verifier
+ * (lib/fairness-web.ts).
+ */
+
+import { BPS_PER_MULTIPLIER } from './payout';
+
+export const RECEIPT_VERSION = 2;
+export const LEGACY_RECEIPT_VERSION = 1; // Still verified, never signed
+export const RECEIPT_ALGORITHM = 'Ed25519';
+
+export type ReceiptType = 'commit' | 'outcome';
+
+export interface ReceiptPayload {
+  version: number;
+  type: ReceiptType;
+  roundId: string;
+  commitHex: string;
+  clientSeed: string;
+  dropColumn: number | null; // null on commit receipts
+  ballCount?: number | null; // null on commit receipts; absent on version 1
+  betCents: number | null; // Per ball; null on commit receipts
+  currency?: string | null; // null on commit receipts; absent on version 1
+  binIndex: number | null; // First ball's bin; null on commit receipts
+  binIndexes?: number[] | null; // Every ball's bin; null on commit receipts; absent on version 1
+  multiplier: number | null; // payoutMultiplierBps as a decimal; null on commit receipts
+  totalPayoutCents?: number | null; // null on commit receipts; absent on version 1
+  issuedAt: string; // ISO 8601
+}
+
+export interface RoundReceipt {
+  algorithm: typeof RECEIPT_ALGORITHM;
+  publicKey: string; // Hex raw Ed25519 public key that signed (check it is the published one)
+  payload: ReceiptPayload;
+  signature: string; // Hex Ed25519 signature over receiptMessage(payload)
+}
+
+/**
+ * Exact UTF-8 string that is signed: the payload as JSON with a fixed key
+ * order, which depends on the receipt's version
+ */
+export function receiptMessage(payload: ReceiptPayload): string {
+  if (payload.version === LEGACY_RECEIPT_VERSION) {
+    return JSON.stringify({
+      version: payload.version,
+      type: payload.type,
+      roundId: payload.roundId,
+      commitHex: payload.commitHex,
+      clientSeed: payload.clientSeed,
+      dropColumn: payload.dropColumn,
+      betCents: payload.betCents,
+      binIndex: payload.binIndex,
+      multiplier: payload.multiplier,
+      issuedAt: payload.issuedAt,
+    });
+  }
+
+  return JSON.stringify({
+    version: payload.version,
+    type: payload.type,
+    roundId: payload.roundId,
+    commitHex: payload.commitHex,
+    clientSeed: payload.clientSeed,
+    dropColumn: payload.dropColumn,
+    ballCount: payload.ballCount ?? null,
+    betCents: payload.betCents,
+    currency: payload.currency ?? null,
+    binIndex: payload.binIndex,
+    binIndexes: payload.binIndexes ?? null,
+    multiplier: payload.multiplier,
+    totalPayoutCents: payload.totalPayoutCents ?? null,
+    issuedAt: payload.issuedAt,
+  });
+}
+
+/**
+ * Whether a payload is one verifiers accept: a known version, and for current
+ * outcome receipts a payout of every ball, consistent with the first ball's bin
+ * Checked before the signature, so a receipt signed without these fields does
+ * not pass as proof of a round's payout.
+ */
+export function isAcceptedReceiptPayload(payload: ReceiptPayload): boolean {
+  if (payload.version === LEGACY_RECEIPT_VERSION) return true;
+  if (payload.version !== RECEIPT_VERSION) return false;
+  if (payload.type !== 'outcome') return true;
+
+  const { ballCount, binIndexes } = payload;
+  return (
+    typeof ballCount === 'number' &&
+    Array.isArray(binIndexes) &&
+    binIndexes.length === ballCount &&
+    binIndexes[0] === payload.binIndex &&
+    typeof payload.totalPayoutCents === 'number' &&
+    typeof payload.currency === 'string'
+  );
+}
+
+export function commitReceiptPayload(
+  round: { id: string; commitHex: string; clientSeed: string },
+  issuedAt: Date = new Date()
+): ReceiptPayload {
+  return {
+    version: RECEIPT_VERSION,
+    type: 'commit',
+    roundId: round.id,
+    commitHex: round.commitHex,
+    clientSeed: round.clientSeed,
+    dropColumn: null,
+    ballCount: null,
+    betCents: null,
+    currency: null,
+    binIndex: null,
+    binIndexes: null,
+    multiplier: null,
+    totalPayoutCents: null,
+    issuedAt: issuedAt.toISOString(),
+  };
+}
+
+export function outcomeReceiptPayload(
+  round: {
+    id: string;
+    commitHex: string;
+    clientSeed: string;
+    dropColumn: number;
+    ballCount: number;
+    betCents: number;
+    currency: string;
+    binIndex: number;
+    binIndexesJson: unknown;
+    payoutMultiplierBps: number;
+    totalPayoutCents: number;
+  },
+  issuedAt: Date = new Date()
+): ReceiptPayload {
+  return {
+    version: RECEIPT_VERSION,
+    type: 'outcome',
+    roundId: round.id,
+    commitHex: round.commitHex,
+    clientSeed: round.clientSeed,
+    dropColumn: round.dropColumn,
+    ballCount: round.ballCount,
+    betCents: round.betCents,
+    currency: round.currency,
+    binIndex: round.binIndex,
+    binIndexes: round.binIndexesJson as number[],
+    multiplier: round.payoutMultiplierBps / BPS_PER_MULTIPLIER,
+    totalPayoutCents: round.totalPayoutCents,
+    issuedAt: issuedAt.toISOString(),
+  };
+}
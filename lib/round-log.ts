@@ -0,0 +1,282 @@
+/**
+ * Append-Only Round Log
+ *
+ * Every round is linked into a hash chain when it is revealed:
+ *   entryHash = SHA256(canonical entry), where the entry holds the round's
+ *   stored outcome fields, its logIndex and prevHash = the previous entryHash.
+ * Editing, deleting or reordering a logged round breaks the chain from that
+ * entry on; auditRoundLog() walks it and reports the first broken link.
+ * Checkpoints of the chain head are taken every ROUND_LOG_CHECKPOINT_INTERVAL
+ * entries (or on demand) and published, so truncating or rewriting the whole
+ * tail is caught too.
+ *
+ * serverSeed is not part of an entry: it is copied onto rounds later, when
+ * their seed pair is rotated, and is checked by the commit hash instead.
+ */
+
+import type { Prisma, Round, RoundLogCheckpoint } from '@prisma/client';
+import { sha256 } from './fairness';
+import { BPS_PER_MULTIPLIER } from './payout';
+
+export const ROUND_LOG_GENESIS_HASH = '0'.repeat(64);
+export const ROUND_LOG_CHECKPOINT_INTERVAL = 100;
+
+const AUDIT_PAGE_SIZE = 500;
+
+/**
+ * Round fields covered by a log entry
+ */
+export type LoggedRoundFields = Pick<
+  Round,
+  | 'id'
+  | 'createdAt'
+  | 'seedPairId'
+  | 'nonce'
+  | 'commitHex'
+  | 'clientSeed'
+  | 'combinedSeed'
+  | 'pegMapHash'
+  | 'algorithmVersion'
+  | 'rows'
+  | 'dropColumn'
+  | 'risk'
+  | 'ballCount'
+  | 'betCents'
+  | 'binIndex'
+  | 'binIndexesJson'
+  | 'payoutMultiplierBps'
+  | 'totalPayoutCents'
+  | 'legacyPayoutMultiplier'
+  | 'legacyTotalPayout'
+  | 'pathsJson'
+> & { revealedAt: Date | null };
+
+export interface LoggedRound extends LoggedRoundFields {
+  logIndex: number | null;
+  prevHash: string | null;
+  entryHash: string | null;
+}
+
+export interface RoundLogLink {
+  logIndex: number;
+  prevHash: string;
+  entryHash: string;
+}
+
+export interface BrokenLink {
+  logIndex: number; // Position the audit expected
+  roundId: string;
+  reason: 'gap' | 'prevHash' | 'entryHash'; // Missing entry, relinked entry, edited entry
+  expected: string | number;
+  actual: string | number | null;
+}
+
+export interface CheckpointMismatch {
+  logIndex: number;
+  headHash: string; // As published
+  actual: string | null; // entryHash at that position, null if the log is shorter
+}
+
+export interface RoundLogAudit {
+  valid: boolean;
+  length: number; // Entries verified before the first broken link
+  headHash: string; // entryHash of the last verified entry
+  firstBrokenLink: BrokenLink | null;
+  checkpoints: { checked: number; mismatched: CheckpointMismatch[] };
+}
+
+/**
+ * Exact string hashed into entryHash: the entry as JSON with a fixed key order
+ */
+export function canonicalLogEntry(
+  round: LoggedRoundFields,
+  logIndex: number,
+  prevHash: string
+): string {
+  return JSON.stringify({
+    logIndex,
+    prevHash,
+    roundId: round.id,
+    createdAt: round.createdAt.toISOString(),
+    seedPairId: round.seedPairId,
+    nonce: round.nonce,
+    commitHex: round.commitHex,
+    clientSeed: round.clientSeed,
+    combinedSeed: round.combinedSeed,
+    pegMapHash: round.pegMapHash,
+    algorithmVersion: round.algorithmVersion,
+    rows: round.rows,
+    dropColumn: round.dropColumn,
+    risk: round.risk,
+    ballCount: round.ballCount,
+    betCents: round.betCents,
+    binIndex: round.binIndex,
+    binIndexes: round.binIndexesJson,
+    // Decimal keys, as the log hashed them before integer payouts. Rounds
+    // from before then hash the decimals they were logged with (kept in the
+    // legacy columns, since the integer ones truncate fractions); later
+    // rounds hash the same keys derived from their integer columns.
+    payoutMultiplier: round.legacyPayoutMultiplier ?? round.payoutMultiplierBps / BPS_PER_MULTIPLIER,
+    totalPayout: round.legacyTotalPayout ?? round.totalPayoutCents,
+    paths: round.pathsJson,
+    revealedAt: round.revealedAt?.toISOString() ?? null,
+  });
+}
+
+export function computeLogEntryHash(
+  round: LoggedRoundFields,
+  logIndex: number,
+  prevHash: string
+): string {
+  return sha256(canonicalLogEntry(round, logIndex, prevHash));
+}
+
+/**
+ * Walk log entries in logIndex order and report the first broken link
+ * Accepts any (async) iterable so the stored log can be paged in.
+ */
+export async function auditRoundLog(
+  entries: Iterable<LoggedRound> | AsyncIterable<LoggedRound>,
+  checkpoints: Pick<RoundLogCheckpoint, 'logIndex' | 'headHash'>[] = []
+): Promise<RoundLogAudit> {
+  const pending = [...checkpoints].sort((a, b) => a.logIndex - b.logIndex);
+  const mismatched: CheckpointMismatch[] = [];
+  let checked = 0;
+
+  let length = 0;
+  let headHash = ROUND_LOG_GENESIS_HASH;
+  let firstBrokenLink: BrokenLink | null = null;
+
+  for await (const entry of entries) {
+    const logIndex = length;
+    if (entry.logIndex !== logIndex) {
+      firstBrokenLink = {
+        logIndex,
+        roundId: entry.id,
+        reason: 'gap',
+        expected: logIndex,
+        actual: entry.logIndex,
+      };
+      break;
+    }
+    if (entry.prevHash !== headHash) {
+      firstBrokenLink = {
+        logIndex,
+        roundId: entry.id,
+        reason: 'prevHash',
+        expected: headHash,
+        actual: entry.prevHash,
+      };
+      break;
+    }
+    const entryHash = computeLogEntryHash(entry, logIndex, headHash);
+    if (entry.entryHash !== entryHash) {
+      firstBrokenLink = {
+        logIndex,
+        roundId: entry.id,
+        reason: 'entryHash',
+        expected: entryHash,
+        actual: entry.entryHash,
+      };
+      break;
+    }
+
+    while (pending.length && pending[0].logIndex === logIndex) {
+      const checkpoint = pending.shift()!;
+      checked++;
+      if (checkpoint.headHash !== entryHash) {
+        mismatched.push({ logIndex, headHash: checkpoint.headHash, actual: entryHash });
+      }
+    }
+
+    headHash = entryHash;
+    length++;
+  }
+
+  // Checkpoints past the verified entries: the log was truncated, or is broken before them
+  if (!firstBrokenLink) {
+    for (const checkpoint of pending.filter((c) => c.logIndex >= length)) {
+      checked++;
+      mismatched.push({ logIndex: checkpoint.logIndex, headHash: checkpoint.headHash, actual: null });
+    }
+  }
+
+  return {
+    valid: firstBrokenLink === null && mismatched.length === 0,
+    length,
+    headHash,
+    firstBrokenLink,
+    checkpoints: { checked, mismatched },
+  };
+}
+
+/**
+ * Link a round into the log as it is revealed
+ * Must run inside the transaction that reveals the round; the unique logIndex
+ * makes a concurrent reveal that read the same head fail instead of forking.
+ * Takes a checkpoint every ROUND_LOG_CHECKPOINT_INTERVAL entries.
+ */
+export async function appendToRoundLog(
+  tx: Prisma.TransactionClient,
+  round: LoggedRoundFields
+): Promise<RoundLogLink> {
+  const head = await tx.round.findFirst({
+    where: { logIndex: { not: null } },
+    orderBy: { logIndex: 'desc' },
+    select: { logIndex: true, entryHash: true },
+  });
+
+  const logIndex = head ? head.logIndex! + 1 : 0;
+  const prevHash = head?.entryHash ?? ROUND_LOG_GENESIS_HASH;
+  const entryHash = computeLogEntryHash(round, logIndex, prevHash);
+
+  if ((logIndex + 1) % ROUND_LOG_CHECKPOINT_INTERVAL === 0) {
+    await tx.roundLogCheckpoint.create({ data: { logIndex, headHash: entryHash } });
+  }
+
+  return { logIndex, prevHash, entryHash };
+}
+
+/**
+ * Publish a checkpoint of the current head (returns the existing one if taken)
+ */
+export async function createRoundLogCheckpoint(
+  tx: Prisma.TransactionClient
+): Promise<RoundLogCheckpoint | null> {
+  const head = await tx.round.findFirst({
+    where: { logIndex: { not: null } },
+    orderBy: { logIndex: 'desc' },
+    select: { logIndex: true, entryHash: true },
+  });
+  if (!head || head.logIndex === null || head.entryHash === null) return null;
+
+  return tx.roundLogCheckpoint.upsert({
+    where: { logIndex: head.logIndex },
+    create: { logIndex: head.logIndex, headHash: head.entryHash },
+    update: {},
+  });
+}
+
+/**
+ * Audit the stored log, paging through it in logIndex order
+ */
+export async function auditStoredRoundLog(db: Prisma.TransactionClient): Promise<RoundLogAudit> {
+  async function* storedEntries(): AsyncGenerator<LoggedRound> {
+    let after = -1;
+    for (;;) {
+      const page = await db.round.findMany({
+        where: { logIndex: { gt: after } },
+        orderBy: { logIndex: 'asc' },
+        take: AUDIT_PAGE_SIZE,
+      });
+      yield* page;
+      if (page.length < AUDIT_PAGE_SIZE) return;
+      after = page[page.length - 1].logIndex!;
+    }
+  }
+
+  const checkpoints = await db.roundLogCheckpoint.findMany({
+    select: { logIndex: true, headHash: true },
+  });
+  return auditRoundLog(storedEntries(), checkpoints);
+}
@@ -0,0 +1,161 @@
+/**
+ * Round State Machine
+ *
+ * The only place a round's status changes. Legal transitions:
+ *
+ *   CREATED -> STARTED    player starts the round (POST /api/rounds/[id]/start)
+ *   CREATED -> EXPIRED    never started within ROUND_EXPIRY_SECONDS, or its seed
+ *                         pair was rotated first, so it can no longer be played
+ *   CREATED -> CANCELLED  player cancels it (POST /api/rounds/[id]/cancel)
+ *   STARTED -> REVEALED   player reveals it (POST /api/rounds/[id]/reveal)
+ *
+ * REVEALED, EXPIRED and CANCELLED are final. Every transition, and the commit
+ * that creates the round, is recorded as a RoundEvent with the actor that
+ * caused it. The status is changed with a conditional update on the expected
+ * current status, so of two racing transitions only one succeeds.
+ */
+
+import { Prisma, PrismaClient, Round } from '@prisma/client';
+
+export const ROUND_STATUSES = ['CREATED', 'STARTED', 'REVEALED', 'EXPIRED', 'CANCELLED'] as const;
+export type RoundStatus = (typeof ROUND_STATUSES)[number];
+
+export const ROUND_EXPIRY_SECONDS = 60 * 60; // committed rounds must start within an hour
+
+const TRANSITIONS: Record<RoundStatus, readonly RoundStatus[]> = {
+  CREATED: ['STARTED', 'EXPIRED', 'CANCELLED'],
+  STARTED: ['REVEALED'],
+  REVEALED: [],
+  EXPIRED: [],
+  CANCELLED: [],
+};
+
+/**
+ * Who caused a transition: `player:<playerId>`, `operator` or `system`
+ */
+export type RoundActor = `player:${string}` | 'operator' | 'system';
+
+export function playerActor(playerId: string): RoundActor {
+  return `player:${playerId}`;
+}
+
+/**
+ * Thrown when a round is asked to move to a status it cannot reach from its
+ * current one (including when another request changed it first)
+ */
+export class IllegalRoundTransitionError extends Error {
+  readonly code = 'ILLEGAL_TRANSITION';
+
+  constructor(
+    readonly roundId: string,
+    readonly from: string,
+    readonly to: RoundStatus
+  ) {
+    super(`Round is ${from} and cannot become ${to}`);
+    this.name = 'IllegalRoundTransitionError';
+  }
+}
+
+/**
+ * Check that a value is a known round status
+ */
+export function isRoundStatus(status: unknown): status is RoundStatus {
+  return typeof status === 'string' && (ROUND_STATUSES as readonly string[]).includes(status);
+}
+
+/**
+ * Check that a round may move from one status to another
+ */
+export function canTransition(from: string, to: RoundStatus): boolean {
+  return isRoundStatus(from) && TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Throw IllegalRoundTransitionError unless the move is legal
+ */
+export function assertRoundTransition(round: Pick<Round, 'id' | 'status'>, to: RoundStatus): void {
+  if (!canTransition(round.status, to)) {
+    throw new IllegalRoundTransitionError(round.id, round.status, to);
+  }
+}
+
+/**
+ * Whether a CREATED round has waited too long to be started
+ */
+export function isRoundExpired(round: Pick<Round, 'status' | 'createdAt'>, now: Date = new Date()): boolean {
+  return round.status === 'CREATED' && now.getTime() - round.createdAt.getTime() > ROUND_EXPIRY_SECONDS * 1000;
+}
+
+/**
+ * Record the commit that created a round
+ */
+export async function recordRoundCreated(
+  tx: Prisma.TransactionClient,
+  roundId: string,
+  actor: RoundActor
+): Promise<void> {
+  await tx.roundEvent.create({
+    data: { roundId, fromStatus: null, toStatus: 'CREATED', actor },
+  });
+}
+
+/**
+ * Move a round from one status to another, writing any other fields in the
+ * same update, and record the event. Throws IllegalRoundTransitionError if
+ * the move is not legal or the round is no longer in `from`; inside a
+ * transaction that rolls back everything else it wrote.
+ */
+export async function transitionRound(
+  tx: Prisma.TransactionClient,
+  roundId: string,
+  from: RoundStatus,
+  to: RoundStatus,
+  actor: RoundActor,
+  data: Omit<Prisma.RoundUpdateManyMutationInput, 'status'> = {}
+): Promise<Round> {
+  if (!canTransition(from, to)) {
+    throw new IllegalRoundTransitionError(roundId, from, to);
+  }
+
+  const updated = await tx.round.updateMany({
+    where: { id: roundId, status: from },
+    data: { ...data, status: to },
+  });
+  if (updated.count === 0) {
+    const current = await tx.round.findUnique({ where: { id: roundId }, select: { status: true } });
+    throw new IllegalRoundTransitionError(roundId, current?.status ?? 'missing', to);
+  }
+
+  await tx.roundEvent.create({
+    data: { roundId, fromStatus: from, toStatus: to, actor },
+  });
+  return tx.round.findUniqueOrThrow({ where: { id: roundId } });
+}
+
+/**
+ * Expire every CREATED round older than ROUND_EXPIRY_SECONDS, each in its own
+ * transaction. Returns the number of rounds expired.
+ */
+export async function expireStaleRounds(
+  db: PrismaClient,
+  actor: RoundActor = 'system',
+  now: Date = new Date()
+): Promise<number> {
+  const cutoff = new Date(now.getTime() - ROUND_EXPIRY_SECONDS * 1000);
+  const stale = await db.round.findMany({
+    where: { status: 'CREATED', createdAt: { lt: cutoff } },
+    select: { id: true },
+  });
+
+  let expired = 0;
+  for (const { id } of stale) {
+    try {
+      await db.$transaction((tx) => transitionRound(tx, id, 'CREATED', 'EXPIRED', actor));
+      expired++;
+    } catch (error) {
+      // Started or cancelled since it was listed
+      if (!(error instanceof IllegalRoundTransitionError)) throw error;
+    }
+  }
+  return expired;
+}
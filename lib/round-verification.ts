@@ -0,0 +1,130 @@
+/**
+ * Stored Round Verification
+ *
+ * Replays a revealed round from its seeds and diffs every stored outcome
+ * field against the recomputed one, producing a pass/fail report per field.
+ */
+
+import { generateCommitHex, generateServerSeedHash } from './fairness';
+import { computeRoundOutcome } from './plinko-engine';
+import { calculateRoundPayout, isValidRisk } from './payout';
+import { FieldCheck, checkField } from './field-check';
+
+export type { FieldCheck } from './field-check';
+
+/**
+ * Round fields as stored in the database; JSON columns arrive untyped
+ */
+export interface StoredRound {
+  serverSeed: string;
+  serverSeedHash: string | null; // Published seed pair hash, if any
+  clientSeed: string;
+  nonce: string;
+  commitHex: string;
+  combinedSeed: string;
+  pegMapHash: string;
+  rows: number;
+  dropColumn: number;
+  binIndex: number;
+  risk: string;
+  algorithmVersion: string;
+  ballCount: number;
+  betCents: number;
+  payoutMultiplierBps: number;
+  totalPayoutCents: number;
+  pathJson: unknown;
+  pathsJson: unknown;
+  binIndexesJson: unknown;
+}
+
+export interface RoundVerificationReport {
+  pass: boolean; // True only if every check passes
+  checks: FieldCheck[];
+  error?: string; // Why the round could not be recomputed; pass is then false
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+/**
+ * Re-run the engine for a revealed round and diff it against what was stored.
+ * The replay uses the stored ballCount rather than the stored bin list, so a
+ * truncated or padded bin list shows up as a failed check. A round the engine
+ * cannot replay (unknown algorithm version, invalid board) is reported as not
+ * verifiable rather than thrown, and an unknown risk fails the `risk` check
+ * instead of being paid from another table.
+ */
+export function verifyStoredRound(round: StoredRound): RoundVerificationReport {
+  const seeds = {
+    serverSeed: round.serverSeed,
+    clientSeed: round.clientSeed,
+    nonce: round.nonce,
+  };
+  const storedBins = asArray(round.binIndexesJson);
+  const ballCount = Math.max(round.ballCount, 1);
+
+  const checks: FieldCheck[] = [
+    checkField('commitHex', round.commitHex, generateCommitHex(round.serverSeed, round.nonce)),
+  ];
+
+  if (round.serverSeedHash) {
+    checks.push(
+      checkField('serverSeedHash', round.serverSeedHash, generateServerSeedHash(round.serverSeed))
+    );
+  }
+
+  let result: ReturnType<typeof computeRoundOutcome>;
+  try {
+    result = computeRoundOutcome(seeds, round.dropColumn, round.rows, round.algorithmVersion, ballCount);
+  } catch (error) {
+    return {
+      pass: false,
+      checks,
+      error: `Round is not verifiable: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+
+  checks.push(
+    checkField('combinedSeed', round.combinedSeed, result.combinedSeed),
+    checkField('pegMapHash', round.pegMapHash, result.pegMapHash),
+    checkField('binIndex', round.binIndex, result.binIndex),
+    checkField('binIndexes', storedBins, result.binIndexes)
+  );
+
+  if (isValidRisk(round.risk)) {
+    const payout = calculateRoundPayout(
+      round.betCents,
+      result.binIndexes,
+      round.rows,
+      round.risk,
+      round.algorithmVersion
+    );
+    checks.push(
+      checkField('payoutMultiplierBps', round.payoutMultiplierBps, payout.payoutMultiplierBps),
+      checkField('totalPayoutCents', round.totalPayoutCents, payout.totalPayoutCents)
+    );
+  } else {
+    // No paytable to recompute the payout from
+    checks.push(checkField('risk', round.risk, null));
+  }
+
+  // One check per peg decision of the first ball, so a report points at the
+  // exact row that differs
+  const storedPath = asArray(round.pathJson);
+  const rowCount = Math.max(storedPath.length, result.path.length);
+  for (let row = 0; row < rowCount; row++) {
+    checks.push(checkField(`pathJson[${row}]`, storedPath[row] ?? null, result.path[row] ?? null));
+  }
+
+  // Remaining balls of a multi-ball round are compared path by path
+  const storedPaths = asArray(round.pathsJson);
+  const pathCount = Math.max(storedPaths.length, result.paths.length);
+  for (let ball = 1; ball < pathCount; ball++) {
+    checks.push(
+      checkField(`pathsJson[${ball}]`, storedPaths[ball] ?? null, result.paths[ball] ?? null)
+    );
+  }
+
+  return { pass: checks.every((c) => c.pass), checks };
+}
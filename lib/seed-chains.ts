@@ -0,0 +1,104 @@
+/**
+ * Server Seed Hash Chains
+ *
+ * The operator generates a chain of N server seeds up front, where each seed is
+ * the SHA-256 of the next, and publishes only the terminal hash. Seed pairs
+ * then take their server seeds from the chain in order, so the operator cannot
+ * pick a seed after seeing demand. Only the root seed is stored; any link is
+ * re-derived from it by hashing.
+ *
+ * Every chain belongs to one player. Revealing seeds[k] reveals every lower
+ * seed too (seeds[k - 1] = SHA256(seeds[k])), so a chain is only safe while
+ * its seeds are revealed in index order, which holds for one player's pairs
+ * (rotated one after another) but not across players. Chains without a
+ * player are from before chains were per player and are retired.
+ */
+
+import { Prisma, PrismaClient, SeedChain } from '@prisma/client';
+import { generateHashChain, getChainSeed } from './fairness';
+
+/**
+ * Public view of a chain; the root seed never leaves the server
+ */
+export interface PublicSeedChain {
+  chainId: string;
+  playerId: string | null;
+  status: string;
+  length: number;
+  terminalHash: string;
+  nextIndex: number; // seeds handed out so far
+  createdAt: string;
+}
+
+export function toPublicSeedChain(chain: SeedChain): PublicSeedChain {
+  return {
+    chainId: chain.id,
+    playerId: chain.playerId,
+    status: chain.status,
+    length: chain.length,
+    terminalHash: chain.terminalHash,
+    nextIndex: chain.nextIndex,
+    createdAt: chain.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Generate and store a new chain for a player, retiring their active one
+ */
+export async function createSeedChain(
+  db: PrismaClient,
+  playerId: string,
+  length: number
+): Promise<SeedChain> {
+  const { seeds, terminalHash } = generateHashChain(length);
+
+  return db.$transaction(async (tx) => {
+    await tx.seedChain.updateMany({
+      where: { playerId, status: 'ACTIVE' },
+      data: { status: 'RETIRED' },
+    });
+
+    return tx.seedChain.create({
+      data: {
+        status: 'ACTIVE',
+        playerId,
+        length,
+        rootSeed: seeds[length - 1],
+        terminalHash,
+      },
+    });
+  });
+}
+
+/**
+ * Take the next seed from the player's active chain, or null if they have none
+ * Must run inside the transaction that creates the player's seed pair using it.
+ */
+export async function drawChainSeed(
+  tx: Prisma.TransactionClient,
+  playerId: string
+): Promise<{ chainId: string; chainIndex: number; serverSeed: string } | null> {
+  const chain = await tx.seedChain.findFirst({
+    where: { playerId, status: 'ACTIVE' },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  if (!chain || chain.nextIndex >= chain.length) {
+    return null;
+  }
+
+  const chainIndex = chain.nextIndex;
+  await tx.seedChain.update({
+    where: { id: chain.id },
+    data: {
+      nextIndex: { increment: 1 },
+      status: chainIndex + 1 >= chain.length ? 'EXHAUSTED' : 'ACTIVE',
+    },
+  });
+
+  return {
+    chainId: chain.id,
+    chainIndex,
+    serverSeed: getChainSeed(chain.rootSeed, chain.length, chainIndex),
+  };
+}
@@ -0,0 +1,195 @@
+/**
+ * Seed Pair Management
+ *
+ * A seed pair is one committed server seed plus a client seed, shared by the
+ * rounds one player plays under it. Each round takes the pair's next nonce,
+ * which goes up by exactly one. Every player has their own pairs: the ACTIVE
+ * one they play under, and an UPCOMING one whose server seed hash is
+ * published before they choose its client seed. Rotating reveals the active
+ * pair's server seed (copying it onto every round played under it), activates
+ * the upcoming pair with the chosen client seed and commits a new upcoming
+ * pair. When the operator has published a hash chain for the player, each of
+ * their new pairs draws its server seed from it (lib/seed-chains.ts).
+ *
+ * Pairs without a player are from before pairs were per player; the
+ * player_seed_pairs migration rotated them.
+ */
+
+import { Prisma, SeedChain, SeedPair } from '@prisma/client';
+import { prisma } from './prisma';
+import { generateSecureRandomHex, generateServerSeedHash } from './fairness';
+import { drawChainSeed } from './seed-chains';
+
+type SeedPairWithChain = SeedPair & { chain: SeedChain | null };
+
+/**
+ * Public view of a seed pair; serverSeed stays hidden until rotation
+ */
+export interface PublicSeedPair {
+  seedPairId: string;
+  status: string;
+  serverSeedHash: string;
+  serverSeed: string | null;
+  clientSeed: string;
+  nonce: number; // next nonce, i.e. rounds committed so far
+  createdAt: string;
+  rotatedAt: string | null;
+  chain: {
+    chainId: string;
+    chainIndex: number;
+    terminalHash: string;
+    length: number;
+  } | null;
+}
+
+export function toPublicSeedPair(seedPair: SeedPairWithChain): PublicSeedPair {
+  return {
+    seedPairId: seedPair.id,
+    status: seedPair.status,
+    serverSeedHash: seedPair.serverSeedHash,
+    serverSeed: seedPair.status === 'ROTATED' ? seedPair.serverSeed : null,
+    clientSeed: seedPair.clientSeed,
+    nonce: seedPair.nonce,
+    createdAt: seedPair.createdAt.toISOString(),
+    rotatedAt: seedPair.rotatedAt?.toISOString() ?? null,
+    chain:
+      seedPair.chain && seedPair.chainIndex !== null
+        ? {
+            chainId: seedPair.chain.id,
+            chainIndex: seedPair.chainIndex,
+            terminalHash: seedPair.chain.terminalHash,
+            length: seedPair.chain.length,
+          }
+        : null,
+  };
+}
+
+/**
+ * Thrown when a rotation cannot go ahead: no upcoming pair was committed
+ * before the client seed was chosen, or another rotation got there first
+ */
+export class SeedPairRotationError extends Error {
+  readonly code = 'ROTATION_CONFLICT';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'SeedPairRotationError';
+  }
+}
+
+async function createSeedPair(tx: Prisma.TransactionClient, playerId: string, status: 'ACTIVE' | 'UPCOMING') {
+  // Prefer the operator's pre-committed chain; fall back to a fresh random seed
+  const chainSeed = await drawChainSeed(tx, playerId);
+  const serverSeed = chainSeed?.serverSeed ?? generateSecureRandomHex(32);
+
+  return tx.seedPair.create({
+    data: {
+      status,
+      playerId,
+      serverSeed,
+      serverSeedHash: generateServerSeedHash(serverSeed),
+      // Random until the player picks one when activating an upcoming pair
+      clientSeed: generateSecureRandomHex(16),
+      chainId: chainSeed?.chainId,
+      chainIndex: chainSeed?.chainIndex,
+    },
+    include: { chain: true },
+  });
+}
+
+function findPlayerPair(tx: Prisma.TransactionClient, playerId: string, status: 'ACTIVE' | 'UPCOMING') {
+  return tx.seedPair.findFirst({
+    where: { playerId, status },
+    orderBy: { createdAt: 'desc' },
+    include: { chain: true },
+  });
+}
+
+/**
+ * The player's active and upcoming pairs, creating them on demand
+ */
+async function findOrCreatePairs(tx: Prisma.TransactionClient, playerId: string) {
+  const active = (await findPlayerPair(tx, playerId, 'ACTIVE')) ?? (await createSeedPair(tx, playerId, 'ACTIVE'));
+  const upcoming =
+    (await findPlayerPair(tx, playerId, 'UPCOMING')) ?? (await createSeedPair(tx, playerId, 'UPCOMING'));
+
+  return { active, upcoming };
+}
+
+/**
+ * Get the player's active seed pair and the upcoming one it rotates to,
+ * creating them on demand
+ */
+export async function getPlayerSeedPairs(
+  playerId: string
+): Promise<{ active: SeedPairWithChain; upcoming: SeedPairWithChain }> {
+  return prisma.$transaction((tx) => findOrCreatePairs(tx, playerId));
+}
+
+/**
+ * Hand out the next nonce of the player's active pair
+ * The increment happens in the same transaction as the lookup so a rotation
+ * cannot slip in between and two rounds can never share a nonce.
+ */
+export async function reserveNonce(
+  playerId: string
+): Promise<{ seedPair: SeedPairWithChain; nonce: number }> {
+  return prisma.$transaction(async (tx) => {
+    const { active } = await findOrCreatePairs(tx, playerId);
+    const seedPair = await tx.seedPair.update({
+      where: { id: active.id },
+      data: { nonce: { increment: 1 } },
+      include: { chain: true },
+    });
+
+    return { seedPair, nonce: seedPair.nonce - 1 };
+  });
+}
+
+/**
+ * Reveal the player's active server seed, activate their upcoming pair and
+ * commit the one after it
+ * The upcoming pair's server seed hash was published before this call, so
+ * the client seed is chosen against an already committed server seed.
+ * Throws SeedPairRotationError if the player has no upcoming pair yet or a
+ * concurrent rotation changed their pairs first.
+ *
+ * @param clientSeed - Client seed for the activated pair (random if omitted)
+ */
+export async function rotateSeedPair(
+  playerId: string,
+  clientSeed?: string
+): Promise<{ previous: SeedPairWithChain; next: SeedPairWithChain; upcoming: SeedPairWithChain }> {
+  return prisma.$transaction(async (tx) => {
+    const active = await findPlayerPair(tx, playerId, 'ACTIVE');
+    const pending = await findPlayerPair(tx, playerId, 'UPCOMING');
+    if (!active || !pending) {
+      throw new SeedPairRotationError('No upcoming seed pair has been committed yet; fetch the seed pair first');
+    }
+
+    // Conditional on the current statuses, so of two racing rotations only one succeeds
+    const rotated = await tx.seedPair.updateMany({
+      where: { id: active.id, status: 'ACTIVE' },
+      data: { status: 'ROTATED', rotatedAt: new Date() },
+    });
+    const activated = await tx.seedPair.updateMany({
+      where: { id: pending.id, status: 'UPCOMING' },
+      data: { status: 'ACTIVE', ...(clientSeed ? { clientSeed } : {}) },
+    });
+    if (rotated.count === 0 || activated.count === 0) {
+      throw new SeedPairRotationError('Seed pair was rotated by another request');
+    }
+
+    // Rounds only learn their server seed once it is public
+    await tx.round.updateMany({
+      where: { seedPairId: active.id },
+      data: { serverSeed: active.serverSeed },
+    });
+
+    const previous = await tx.seedPair.findUniqueOrThrow({ where: { id: active.id }, include: { chain: true } });
+    const next = await tx.seedPair.findUniqueOrThrow({ where: { id: pending.id }, include: { chain: true } });
+    const upcoming = await createSeedPair(tx, playerId, 'UPCOMING');
+
+    return { previous, next, upcoming };
+  });
+}
@@ -0,0 +1,70 @@
+/**
+ * Player Sessions
+ *
+ * Reads and writes the signed session cookie (lib/auth.ts) in route handlers
+ * and decides which rounds a player may see. Rounds belong to the player who
+ * committed them; rounds from before accounts have no owner and stay public.
+ */
+
+import { cookies } from 'next/headers';
+import { Player, Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { SESSION_MAX_AGE_SECONDS, createSessionToken, readSessionToken } from './auth';
+
+export const SESSION_COOKIE = 'plinko_session';
+
+/**
+ * Public view of a player; the password hash never leaves the server
+ */
+export interface PublicPlayer {
+  playerId: string;
+  username: string;
+  createdAt: string;
+}
+
+export function toPublicPlayer(player: Player): PublicPlayer {
+  return {
+    playerId: player.id,
+    username: player.username,
+    createdAt: player.createdAt.toISOString(),
+  };
+}
+
+/**
+ * The signed-in player, or null
+ */
+export async function getSessionPlayer(): Promise<Player | null> {
+  const token = (await cookies()).get(SESSION_COOKIE)?.value;
+  const playerId = token ? readSessionToken(token) : null;
+  if (!playerId) return null;
+
+  return prisma.player.findUnique({ where: { id: playerId } });
+}
+
+export async function startSession(playerId: string): Promise<void> {
+  (await cookies()).set(SESSION_COOKIE, createSessionToken(playerId), {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: SESSION_MAX_AGE_SECONDS,
+  });
+}
+
+export async function endSession(): Promise<void> {
+  (await cookies()).delete(SESSION_COOKIE);
+}
+
+/**
+ * Players see their own rounds and unowned rounds from before accounts
+ */
+export function canAccessRound(round: { playerId: string | null }, player: Player | null): boolean {
+  return round.playerId === null || round.playerId === player?.id;
+}
+
+/**
+ * The rounds canAccessRound lets a player see, as a query filter
+ */
+export function accessibleRoundsWhere(player: Player | null): Prisma.RoundWhereInput {
+  return { OR: [{ playerId: null }, ...(player ? [{ playerId: player.id }] : [])] };
+}
@@ -0,0 +1,181 @@
+/**
+ * Player Wallets and the Double-Entry Ledger
+ *
+ * Every balance change is a transaction of two LedgerEntry rows that sum to
+ * zero: one on the player's WALLET account and the opposite on the HOUSE
+ * account. Entries are only ever appended; the wallet's balanceCents is a
+ * running total kept in the same database transaction, and reconciliation
+ * checks it against the sum of the wallet's entries.
+ *
+ * A player has one wallet per currency (lib/currency.ts), opened on first
+ * use with that currency's starting grant. Amounts are in its minor units.
+ *
+ *   GRANT   house -> wallet  starting balance when the wallet is opened
+ *   BET     wallet -> house  stake (betCents * ballCount) when a round starts
+ *   PAYOUT  house -> wallet  total payout, in the same transaction as the bet
+ */
+
+import crypto from 'crypto';
+import { LedgerEntry, Prisma, PrismaClient, Wallet } from '@prisma/client';
+import { CurrencyCode, DEFAULT_CURRENCY, getCurrency } from './currency';
+
+export type LedgerKind = 'GRANT' | 'BET' | 'PAYOUT';
+
+export type LedgerEntryFields = Pick<LedgerEntry, 'transactionId' | 'account' | 'amountCents'>;
+
+/**
+ * Public view of a wallet
+ */
+export interface PublicWallet {
+  walletId: string;
+  currency: CurrencyCode;
+  balanceCents: number;
+}
+
+export interface WalletReconciliation {
+  walletId: string;
+  balanced: boolean;
+  balanceCents: number; // stored running balance
+  ledgerBalanceCents: number; // sum of the wallet's WALLET entries
+  entryCount: number;
+  unbalancedTransactions: string[]; // transactions whose entries do not sum to zero
+}
+
+export function toPublicWallet(wallet: Wallet): PublicWallet {
+  return {
+    walletId: wallet.id,
+    currency: wallet.currency as CurrencyCode,
+    balanceCents: wallet.balanceCents,
+  };
+}
+
+async function postTransaction(
+  tx: Prisma.TransactionClient,
+  walletId: string,
+  kind: LedgerKind,
+  amountCents: number, // credit to the wallet; negative for a debit
+  roundId: string | null
+): Promise<void> {
+  const transactionId = crypto.randomUUID();
+  await tx.ledgerEntry.createMany({
+    data: [
+      { transactionId, kind, account: 'WALLET', amountCents, walletId, roundId },
+      { transactionId, kind, account: 'HOUSE', amountCents: -amountCents, walletId, roundId },
+    ],
+  });
+}
+
+/**
+ * Open a player's wallet in a currency with its starting grant
+ * Fails with P2002 if the wallet already exists.
+ */
+export async function openWallet(
+  tx: Prisma.TransactionClient,
+  playerId: string,
+  currency: CurrencyCode = DEFAULT_CURRENCY
+): Promise<Wallet> {
+  const { initialBalance } = getCurrency(currency);
+  const wallet = await tx.wallet.create({
+    data: { playerId, currency, balanceCents: initialBalance },
+  });
+  await postTransaction(tx, wallet.id, 'GRANT', initialBalance, null);
+  return wallet;
+}
+
+/**
+ * The player's wallet in a currency, opened with the starting grant on first use
+ * Opens it in a transaction of its own: when two requests race to open the
+ * same wallet, the unique (playerId, currency) index rejects the second,
+ * which then reads the wallet (and single grant) the first one created.
+ */
+export async function getOrCreateWallet(
+  db: PrismaClient,
+  playerId: string,
+  currency: CurrencyCode = DEFAULT_CURRENCY
+): Promise<Wallet> {
+  const where = { playerId_currency: { playerId, currency } };
+  const existing = await db.wallet.findUnique({ where });
+  if (existing) return existing;
+
+  try {
+    return await db.$transaction((tx) => openWallet(tx, playerId, currency));
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return db.wallet.findUniqueOrThrow({ where });
+    }
+    throw error;
+  }
+}
+
+/**
+ * Debit a round's stake and credit its payout
+ * The balance check and decrement are one conditional update, so concurrent
+ * rounds cannot overdraw the wallet. Returns the new balance, or null (with
+ * nothing written) when the wallet cannot cover the stake.
+ */
+export async function settleRoundWager(
+  tx: Prisma.TransactionClient,
+  walletId: string,
+  roundId: string,
+  stakeCents: number,
+  payoutCents: number
+): Promise<number | null> {
+  const debited = await tx.wallet.updateMany({
+    where: { id: walletId, balanceCents: { gte: stakeCents } },
+    data: { balanceCents: { decrement: stakeCents } },
+  });
+  if (debited.count === 0) return null;
+
+  await postTransaction(tx, walletId, 'BET', -stakeCents, roundId);
+  await postTransaction(tx, walletId, 'PAYOUT', payoutCents, roundId);
+
+  const wallet = await tx.wallet.update({
+    where: { id: walletId },
+    data: { balanceCents: { increment: payoutCents } },
+  });
+  return wallet.balanceCents;
+}
+
+/**
+ * Check a stored balance against the wallet's ledger entries
+ */
+export function reconcileLedger(
+  walletId: string,
+  balanceCents: number,
+  entries: LedgerEntryFields[]
+): WalletReconciliation {
+  let ledgerBalanceCents = 0;
+  const transactionSums = new Map<string, number>();
+
+  for (const entry of entries) {
+    if (entry.account === 'WALLET') ledgerBalanceCents += entry.amountCents;
+    transactionSums.set(entry.transactionId, (transactionSums.get(entry.transactionId) ?? 0) + entry.amountCents);
+  }
+
+  const unbalancedTransactions = [...transactionSums]
+    .filter(([, sum]) => sum !== 0)
+    .map(([transactionId]) => transactionId);
+
+  return {
+    walletId,
+    balanced: ledgerBalanceCents === balanceCents && unbalancedTransactions.length === 0,
+    balanceCents,
+    ledgerBalanceCents,
+    entryCount: entries.length,
+    unbalancedTransactions,
+  };
+}
+
+/**
+ * Reconcile a stored wallet against its ledger
+ */
+export async function reconcileWallet(
+  db: Prisma.TransactionClient,
+  wallet: Wallet
+): Promise<WalletReconciliation> {
+  const entries = await db.ledgerEntry.findMany({
+    where: { walletId: wallet.id },
+    select: { transactionId: true, account: true, amountCents: true },
+  });
+  return reconcileLedger(wallet.id, wallet.balanceCents, entries);
+}
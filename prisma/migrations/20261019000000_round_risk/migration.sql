@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Round" ADD COLUMN "risk" TEXT NOT NULL DEFAULT 'low';
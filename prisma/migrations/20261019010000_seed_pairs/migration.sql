@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "SeedPair" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "status" TEXT NOT NULL,
+    "serverSeed" TEXT NOT NULL,
+    "serverSeedHash" TEXT NOT NULL,
+    "clientSeed" TEXT NOT NULL,
+    "nonce" INTEGER NOT NULL DEFAULT 0,
+    "rotatedAt" DATETIME
+);
+
+-- AlterTable
+ALTER TABLE "Round" ADD COLUMN "seedPairId" TEXT REFERENCES "SeedPair" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- CreateIndex
+CREATE INDEX "SeedPair_status_idx" ON "SeedPair"("status");
+
+-- CreateIndex
+CREATE INDEX "Round_seedPairId_idx" ON "Round"("seedPairId");
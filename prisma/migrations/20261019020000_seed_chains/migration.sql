@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "SeedChain" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "status" TEXT NOT NULL,
+    "length" INTEGER NOT NULL,
+    "rootSeed" TEXT NOT NULL,
+    "terminalHash" TEXT NOT NULL,
+    "nextIndex" INTEGER NOT NULL DEFAULT 0
+);
+
+-- AlterTable
+ALTER TABLE "SeedPair" ADD COLUMN "chainId" TEXT REFERENCES "SeedChain" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "SeedPair" ADD COLUMN "chainIndex" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "SeedChain_status_idx" ON "SeedChain"("status");
+
+-- CreateIndex
+CREATE INDEX "SeedPair_chainId_idx" ON "SeedPair"("chainId");
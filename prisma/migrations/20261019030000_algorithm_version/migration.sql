@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Round" ADD COLUMN "algorithmVersion" TEXT NOT NULL DEFAULT 'xorshift32-v1';
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "Round" ADD COLUMN "ballCount" INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE "Round" ADD COLUMN "totalPayout" REAL NOT NULL DEFAULT 0;
+ALTER TABLE "Round" ADD COLUMN "pathsJson" TEXT NOT NULL DEFAULT '[]';
+ALTER TABLE "Round" ADD COLUMN "binIndexesJson" TEXT NOT NULL DEFAULT '[]';
+
+-- Existing rounds dropped a single ball
+UPDATE "Round"
+SET "totalPayout" = "betCents" * "payoutMultiplier",
+    "pathsJson" = '[' || "pathJson" || ']',
+    "binIndexesJson" = '[' || "binIndex" || ']'
+WHERE "status" IN ('STARTED', 'REVEALED');
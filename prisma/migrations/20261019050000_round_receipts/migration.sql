@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Round" ADD COLUMN "commitReceiptJson" TEXT;
+ALTER TABLE "Round" ADD COLUMN "outcomeReceiptJson" TEXT;
@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "Round" ADD COLUMN "logIndex" INTEGER;
+ALTER TABLE "Round" ADD COLUMN "prevHash" TEXT;
+ALTER TABLE "Round" ADD COLUMN "entryHash" TEXT;
+
+-- CreateTable
+CREATE TABLE "RoundLogCheckpoint" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "logIndex" INTEGER NOT NULL,
+    "headHash" TEXT NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Round_logIndex_key" ON "Round"("logIndex");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RoundLogCheckpoint_logIndex_key" ON "RoundLogCheckpoint"("logIndex");
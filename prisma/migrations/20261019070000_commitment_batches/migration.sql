@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "CommitmentBatch" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "windowStart" DATETIME NOT NULL,
+    "windowEnd" DATETIME NOT NULL,
+    "size" INTEGER NOT NULL,
+    "merkleRoot" TEXT NOT NULL
+);
+
+-- AlterTable
+ALTER TABLE "Round" ADD COLUMN "commitmentBatchId" TEXT REFERENCES "CommitmentBatch" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "Round" ADD COLUMN "commitmentIndex" INTEGER;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CommitmentBatch_windowStart_key" ON "CommitmentBatch"("windowStart");
+
+-- CreateIndex
+CREATE INDEX "Round_commitmentBatchId_idx" ON "Round"("commitmentBatchId");
@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "Player" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "username" TEXT NOT NULL,
+    "passwordHash" TEXT NOT NULL
+);
+
+-- AlterTable
+ALTER TABLE "Round" ADD COLUMN "playerId" TEXT REFERENCES "Player" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Player_username_key" ON "Player"("username");
+
+-- CreateIndex
+CREATE INDEX "Round_playerId_idx" ON "Round"("playerId");
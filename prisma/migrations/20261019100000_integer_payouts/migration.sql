@@ -0,0 +1,24 @@
+-- AlterTable
+-- Multipliers become integer basis points and payouts whole cents, rounded
+-- down (lib/payout.ts). ROUND(..., 6) absorbs float error such as 0.7 * 10000
+-- = 6999.999... before the cast truncates.
+-- Logged rounds keep their original decimals in the legacy columns: their
+-- round log entries hashed them (lib/round-log.ts), and the integer columns
+-- cannot reproduce fractional values. Rounds not logged yet leave them null,
+-- so their later entries hash the payout they are actually settled with.
+ALTER TABLE "Round" ADD COLUMN "payoutMultiplierBps" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "Round" ADD COLUMN "totalPayoutCents" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "Round" ADD COLUMN "legacyPayoutMultiplier" REAL;
+ALTER TABLE "Round" ADD COLUMN "legacyTotalPayout" REAL;
+
+UPDATE "Round" SET
+    "payoutMultiplierBps" = CAST(ROUND("payoutMultiplier" * 10000, 6) AS INTEGER),
+    "totalPayoutCents" = CAST(ROUND("totalPayout", 6) AS INTEGER);
+
+UPDATE "Round" SET
+    "legacyPayoutMultiplier" = "payoutMultiplier",
+    "legacyTotalPayout" = "totalPayout"
+WHERE "logIndex" IS NOT NULL;
+
+ALTER TABLE "Round" DROP COLUMN "payoutMultiplier";
+ALTER TABLE "Round" DROP COLUMN "totalPayout";
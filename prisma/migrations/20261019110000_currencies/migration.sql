@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "Round" ADD COLUMN "currency" TEXT NOT NULL DEFAULT 'USD';
+
+-- AlterTable
+ALTER TABLE "Wallet" ADD COLUMN "currency" TEXT NOT NULL DEFAULT 'USD';
+
+-- DropIndex
+DROP INDEX "Wallet_playerId_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Wallet_playerId_currency_key" ON "Wallet"("playerId", "currency");
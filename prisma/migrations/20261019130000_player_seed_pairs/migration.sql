@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "SeedPair" ADD COLUMN "playerId" TEXT REFERENCES "Player" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Pairs were shared by every player until now. Rotate the shared active pair
+-- so the rounds played under it can be revealed; each player's next request
+-- opens pairs of their own (lib/seed-pairs.ts).
+UPDATE "Round" SET "serverSeed" = (
+    SELECT "serverSeed" FROM "SeedPair" WHERE "SeedPair"."id" = "Round"."seedPairId"
+) WHERE "seedPairId" IN (SELECT "id" FROM "SeedPair" WHERE "status" = 'ACTIVE');
+
+UPDATE "SeedPair" SET "status" = 'ROTATED', "rotatedAt" = CURRENT_TIMESTAMP WHERE "status" = 'ACTIVE';
+
+-- AlterTable
+ALTER TABLE "SeedChain" ADD COLUMN "playerId" TEXT REFERENCES "Player" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Revealing a chain seed reveals every lower-index one, so a chain shared by
+-- players whose pairs rotate in any order would leak unrevealed seeds. Chains
+-- are per player from now on; retire the shared one.
+UPDATE "SeedChain" SET "status" = 'RETIRED' WHERE "status" = 'ACTIVE';
+
+-- CreateIndex
+CREATE INDEX "SeedPair_playerId_status_idx" ON "SeedPair"("playerId", "status");
+
+-- CreateIndex
+CREATE INDEX "SeedChain_playerId_status_idx" ON "SeedChain"("playerId", "status");
@@ -1,5 +1,16 @@
 /**
- * Apply database schema to Turso
+ * Apply database migrations to Turso
+ *
+ * Usage: node scripts/migrate.mjs [--baseline] [migrationName...]
+ * With no names every migration in prisma/migrations is considered, in order.
+ * Applied migrations are recorded in the _applied_migrations table and
+ * skipped on later runs, so the script can be re-run after every deploy.
+ * Each migration runs in one write transaction with its _applied_migrations
+ * row: a migration that fails part-way leaves neither its changes nor its
+ * record behind, so the next run retries it from the start.
+ *
+ * --baseline records the migrations as applied without running them, for a
+ * database migrated before this table existed.
  */
 import { createClient } from '@libsql/client';
 import * as fs from 'fs';
@@ -29,16 +40,80 @@ const client = createClient({
   authToken,
 });
 
+const migrationsDir = path.join(process.cwd(), 'prisma', 'migrations');
+const MIGRATIONS_TABLE = '_applied_migrations';
+
+function listMigrations() {
+  return fs
+    .readdirSync(migrationsDir, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory())
+    .map((entry) => entry.name)
+    .sort();
+}
+
+async function appliedMigrations() {
+  await client.execute(
+    `CREATE TABLE IF NOT EXISTS "${MIGRATIONS_TABLE}" ("name" TEXT NOT NULL PRIMARY KEY, "appliedAt" TEXT NOT NULL)`
+  );
+  const { rows } = await client.execute(`SELECT "name" FROM "${MIGRATIONS_TABLE}"`);
+  return new Set(rows.map((row) => row.name));
+}
+
+/**
+ * Run a migration's SQL (none when baselining) and record it, atomically
+ */
+async function applyMigration(name, migrationSQL) {
+  const transaction = await client.transaction('write');
+  try {
+    if (migrationSQL) {
+      await transaction.executeMultiple(migrationSQL);
+    }
+    await transaction.execute({
+      sql: `INSERT INTO "${MIGRATIONS_TABLE}" ("name", "appliedAt") VALUES (?, ?)`,
+      args: [name, new Date().toISOString()],
+    });
+    await transaction.commit();
+  } finally {
+    // Rolls back unless committed above
+    transaction.close();
+  }
+}
+
 async function migrate() {
+  const args = process.argv.slice(2);
+  const baseline = args.includes('--baseline');
+  const requested = args.filter((arg) => arg !== '--baseline');
+  const migrations = requested.length > 0 ? requested : listMigrations();
+
   try {
-    const migrationSQL = fs.readFileSync(
-      path.join(process.cwd(), 'prisma', 'migrations', '0_init', 'migration.sql'),
-      'utf-8'
-    );
+    const applied = await appliedMigrations();
+    let count = 0;
+
+    for (const name of migrations) {
+      if (applied.has(name)) {
+        console.log(`Skipping ${name} (already applied)`);
+        continue;
+      }
 
-    console.log('Applying migration to Turso database...');
-    await client.execute(migrationSQL);
-    console.log('✅ Migration applied successfully!');
+      if (baseline) {
+        console.log(`Recording ${name} as applied without running it...`);
+        await applyMigration(name, null);
+      } else {
+        const migrationSQL = fs.readFileSync(
+          path.join(migrationsDir, name, 'migration.sql'),
+          'utf-8'
+        );
+
+        console.log(`Applying migration ${name} to Turso database...`);
+        await applyMigration(name, migrationSQL);
+      }
+      count++;
+    }
+    console.log(
+      count === 0
+        ? '✅ Database is up to date'
+        : `✅ ${count} migration(s) ${baseline ? 'recorded' : 'applied'} successfully!`
+    );
   } catch (error) {
     console.error('❌ Migration failed:', error);
     process.exit(1);
@@ -0,0 +1,68 @@
+/**
+ * Print the per-drop-column RTP report for a paytable
+ *
+ * Usage: node scripts/rtp-report.mjs [--rows=12] [--risk=low] [--rounds=10000]
+ *                                    [--algorithm=<version>] [--confidence=0.95] [--json]
+ * Exact RTP is always computed; --rounds=0 skips the Monte Carlo estimate.
+ */
+import { createJiti } from 'jiti';
+
+const jiti = createJiti(import.meta.url);
+const { buildRtpReport } = await jiti.import('../lib/rtp.ts');
+
+const args = Object.fromEntries(
+  process.argv.slice(2).map((arg) => {
+    const [key, value] = arg.replace(/^--/, '').split('=');
+    return [key, value ?? true];
+  })
+);
+
+let report;
+try {
+  report = buildRtpReport({
+    rows: args.rows ? Number(args.rows) : undefined,
+    risk: args.risk,
+    algorithmVersion: args.algorithm,
+    rounds: args.rounds !== undefined ? Number(args.rounds) : 10000,
+    confidence: args.confidence ? Number(args.confidence) : undefined,
+  });
+} catch (error) {
+  console.error(`❌ ${error.message}`);
+  process.exit(1);
+}
+
+if (args.json) {
+  console.log(JSON.stringify(report, null, 2));
+  process.exit(0);
+}
+
+const pct = (value) => `${(value * 100).toFixed(3)}%`;
+
+console.log(
+  `📊 RTP report: ${report.rows} rows, ${report.risk} risk, ${report.algorithmVersion}`
+);
+console.log('');
+console.log(
+  ['Column', 'Exact RTP', 'House Edge', 'Monte Carlo RTP', `${report.confidence * 100}% CI`]
+    .map((h, i) => (i === 0 ? h.padEnd(6) : h.padStart(i === 4 ? 22 : 15)))
+    .join('  ')
+);
+
+for (const column of report.columns) {
+  const mc = column.monteCarlo;
+  console.log(
+    [
+      String(column.dropColumn).padEnd(6),
+      pct(column.exactRtp).padStart(15),
+      pct(column.houseEdge).padStart(15),
+      (mc ? pct(mc.rtp) : '-').padStart(15),
+      (mc ? `[${pct(mc.ci[0])}, ${pct(mc.ci[1])}]` : '-').padStart(22),
+    ].join('  ')
+  );
+}
+
+const best = report.columns.reduce((a, b) => (b.exactRtp > a.exactRtp ? b : a));
+const worst = report.columns.reduce((a, b) => (b.exactRtp < a.exactRtp ? b : a));
+console.log('');
+console.log(`Best column for the player: ${best.dropColumn} (${pct(best.exactRtp)})`);
+console.log(`Worst column for the player: ${worst.dropColumn} (${pct(worst.exactRtp)})`);
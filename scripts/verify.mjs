@@ -0,0 +1,174 @@
+/**
+ * Offline round verifier: no database, no running server
+ *
+ * Usage:
+ *   node scripts/verify.mjs <file>                 .plinko.json bundle, export CSV, or JSON rounds
+ *   node scripts/verify.mjs --serverSeed=<hex> --clientSeed=<s> --nonce=<n> --dropColumn=<c>
+ *                           [--rows=12] [--algorithm=<version>] [--balls=1]
+ *                           [--commitHex=..] [--combinedSeed=..] [--pegMapHash=..]
+ *                           [--binIndex=..] [--binIndexes=5,7,6]
+ *   Add --json for a machine-readable report.
+ *
+ * Single rounds are checked against whichever stored values are passed (at
+ * least one is required).
+ * Exit codes: 0 every round verified, 1 any mismatch or unverifiable round,
+ * 2 bad usage or unreadable input.
+ */
+import { readFileSync } from 'node:fs';
+import { basename } from 'node:path';
+import { createJiti } from 'jiti';
+
+const jiti = createJiti(import.meta.url);
+const { generateCommitHex, generateServerSeedHash } = await jiti.import('../lib/fairness.ts');
+const { computeRoundOutcome } = await jiti.import('../lib/plinko-engine.ts');
+const { verifyBundle, BUNDLE_FORMAT } = await jiti.import('../lib/bundle.ts');
+const { parseRoundRecords, verifyRoundRecords } = await jiti.import('../lib/batch-verify.ts');
+const { checkField } = await jiti.import('../lib/field-check.ts');
+const { ROWS } = await jiti.import('../lib/board.ts');
+const { LEGACY_ALGORITHM_VERSION } = await jiti.import('../lib/algorithms.ts');
+
+const nodeVerifier = { generateCommitHex, generateServerSeedHash, computeRoundOutcome };
+
+const args = {};
+const files = [];
+for (const arg of process.argv.slice(2)) {
+  if (arg.startsWith('--')) {
+    const eq = arg.indexOf('=');
+    args[eq === -1 ? arg.slice(2) : arg.slice(2, eq)] = eq === -1 ? true : arg.slice(eq + 1);
+  } else {
+    files.push(arg);
+  }
+}
+
+function fail(message) {
+  console.error(`❌ ${message}`);
+  process.exit(2);
+}
+
+function verifyFlags() {
+  for (const key of ['serverSeed', 'clientSeed', 'nonce', 'dropColumn']) {
+    if (typeof args[key] !== 'string') fail(`Missing --${key}`);
+  }
+
+  const seeds = { serverSeed: args.serverSeed, clientSeed: args.clientSeed, nonce: args.nonce };
+  const inputs = {
+    ...seeds,
+    dropColumn: Number(args.dropColumn),
+    rows: args.rows ? Number(args.rows) : ROWS,
+    algorithmVersion: args.algorithm ?? LEGACY_ALGORITHM_VERSION,
+    ballCount: args.balls ? Number(args.balls) : 1,
+  };
+
+  const outcome = computeRoundOutcome(
+    seeds,
+    inputs.dropColumn,
+    inputs.rows,
+    inputs.algorithmVersion,
+    inputs.ballCount
+  );
+  const computed = {
+    commitHex: generateCommitHex(seeds.serverSeed, seeds.nonce),
+    combinedSeed: outcome.combinedSeed,
+    pegMapHash: outcome.pegMapHash,
+    binIndex: outcome.binIndex,
+    binIndexes: outcome.binIndexes,
+  };
+
+  const stored = {
+    commitHex: args.commitHex,
+    combinedSeed: args.combinedSeed,
+    pegMapHash: args.pegMapHash,
+    binIndex: args.binIndex !== undefined ? Number(args.binIndex) : undefined,
+    binIndexes: args.binIndexes?.split(',').map(Number),
+  };
+  const checks = Object.entries(stored)
+    .filter(([, value]) => value !== undefined)
+    .map(([field, value]) => checkField(field, value, computed[field]));
+
+  // Nothing to compare against is not a verification
+  const pass = checks.length > 0 && checks.every((c) => c.pass);
+  return { kind: 'round', pass, inputs, computed, checks };
+}
+
+async function verifyFile(path) {
+  let text;
+  try {
+    text = readFileSync(path, 'utf8');
+  } catch (error) {
+    fail(`Cannot read ${path}: ${error.message}`);
+  }
+
+  let data = null;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    // Not JSON: treat as export CSV
+  }
+
+  if (data && typeof data === 'object' && 'format' in data) {
+    if (data.format !== BUNDLE_FORMAT) fail(`Unknown file format: ${data.format}`);
+    const report = await verifyBundle(data, nodeVerifier);
+    return { kind: 'bundle', file: path, ...report };
+  }
+
+  const report = await verifyRoundRecords(parseRoundRecords(text), nodeVerifier);
+  return { kind: 'records', file: path, pass: report.passed === report.total, ...report };
+}
+
+let report;
+try {
+  if (files.length > 1) fail('Pass one file at a time');
+  report = files.length ? await verifyFile(files[0]) : verifyFlags();
+} catch (error) {
+  fail(error.message);
+}
+
+if (report.kind === 'records' && report.total === 0) fail('No rounds found in file');
+
+if (args.json) {
+  console.log(JSON.stringify(report, null, 2));
+  process.exit(report.pass ? 0 : 1);
+}
+
+const show = (value) => (typeof value === 'string' ? value : JSON.stringify(value) ?? '(missing)');
+const printChecks = (checks) => {
+  for (const check of checks.filter((c) => !c.pass)) {
+    console.log(`    ${check.field}: stored ${show(check.stored)}, computed ${show(check.computed)}`);
+  }
+};
+
+if (report.kind === 'round') {
+  const { inputs, computed } = report;
+  console.log(
+    `🔍 Round: ${inputs.rows} rows, column ${inputs.dropColumn}, ${inputs.ballCount} ball(s), ${inputs.algorithmVersion}`
+  );
+  for (const [field, value] of Object.entries(computed)) {
+    console.log(`  ${field.padEnd(13)} ${show(value)}`);
+  }
+  if (report.checks.length === 0) {
+    console.log('⚠️  No stored values passed (--commitHex, --pegMapHash, ...); nothing to compare');
+  }
+  printChecks(report.checks);
+} else if (report.kind === 'bundle') {
+  console.log(`🔍 Bundle ${basename(report.file)}: ${report.rounds.length} round(s)`);
+  report.rounds.forEach((round, i) => {
+    console.log(`  ${round.pass ? '✓' : '✗'} ${round.roundId ?? `#${i + 1}`}`);
+    if (round.error) console.log(`    ${round.error}`);
+    printChecks(round.checks);
+  });
+} else {
+  console.log(
+    `🔍 ${basename(report.file)}: ${report.total} rounds, ${report.passed} passed, ${report.failed} failed, ${report.errors} not verifiable`
+  );
+  for (const result of report.results.filter((r) => r.status !== 'pass')) {
+    console.log(`  ${result.status === 'fail' ? '✗' : '⚠'} ${result.roundId ?? `row ${result.index + 1}`}`);
+    if (result.error) console.log(`    ${result.error}`);
+    for (const m of result.mismatches) {
+      console.log(`    ${m.field}: stored ${show(m.expected)}, computed ${show(m.computed)}`);
+    }
+  }
+}
+
+console.log('');
+console.log(report.pass ? '✅ Verified' : '❌ Verification failed');
+process.exit(report.pass ? 0 : 1);